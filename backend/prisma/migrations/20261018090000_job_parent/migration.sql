@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "jobs" ADD COLUMN     "parentId" TEXT,
+ADD COLUMN     "position" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "jobs_parentId_idx" ON "jobs"("parentId");
+
+-- AddForeignKey
+ALTER TABLE "jobs" ADD CONSTRAINT "jobs_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "jobs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "job_files" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "filename" TEXT NOT NULL,
+    "path" TEXT NOT NULL,
+    "size" BIGINT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "sha256" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "job_files_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "job_files_jobId_idx" ON "job_files"("jobId");
+
+-- AddForeignKey
+ALTER TABLE "job_files" ADD CONSTRAINT "job_files_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "jobs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill from the JSON list kept on jobs, then the single output of completed jobs
+INSERT INTO "job_files" ("id", "jobId", "filename", "path", "size", "mimeType")
+SELECT gen_random_uuid()::text, j."id", f->>'filename', f->>'outputPath', (f->>'size')::bigint, 'application/octet-stream'
+FROM "jobs" j, json_array_elements(j."files"::json) f
+WHERE j."files" IS NOT NULL;
+
+INSERT INTO "job_files" ("id", "jobId", "filename", "path", "size", "mimeType")
+SELECT gen_random_uuid()::text, j."id", COALESCE(j."filename", regexp_replace(j."outputPath", '^.*/', '')), j."outputPath", COALESCE(j."totalBytes", 0), 'application/octet-stream'
+FROM "jobs" j
+WHERE j."files" IS NULL AND j."outputPath" IS NOT NULL AND j."status" = 'completed';
+
+-- AlterTable
+ALTER TABLE "jobs" DROP COLUMN "files";
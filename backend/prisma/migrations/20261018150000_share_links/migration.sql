@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "share_links" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "fileId" TEXT,
+    "createdById" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "maxDownloads" INTEGER,
+    "downloadCount" INTEGER NOT NULL DEFAULT 0,
+    "passwordHash" TEXT,
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "share_links_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "share_downloads" (
+    "id" TEXT NOT NULL,
+    "shareLinkId" TEXT NOT NULL,
+    "ip" TEXT,
+    "userAgent" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "share_downloads_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "share_links_jobId_idx" ON "share_links"("jobId");
+
+-- CreateIndex
+CREATE INDEX "share_downloads_shareLinkId_idx" ON "share_downloads"("shareLinkId");
+
+-- AddForeignKey
+ALTER TABLE "share_links" ADD CONSTRAINT "share_links_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "jobs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "share_links" ADD CONSTRAINT "share_links_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "share_downloads" ADD CONSTRAINT "share_downloads_shareLinkId_fkey" FOREIGN KEY ("shareLinkId") REFERENCES "share_links"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "jobs" ADD COLUMN     "deletedAt" TIMESTAMP(3),
+ADD COLUMN     "keepFiles" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "jobs_deletedAt_idx" ON "jobs"("deletedAt");
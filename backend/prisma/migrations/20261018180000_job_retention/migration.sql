@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "jobs" ADD COLUMN     "lastAccessedAt" TIMESTAMP(3),
+ADD COLUMN     "pinned" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "host_rules" (
+    "id" TEXT NOT NULL,
+    "host" TEXT NOT NULL,
+    "maxConcurrent" INTEGER,
+    "minDelaySeconds" INTEGER,
+    "maxBytesPerSecond" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "host_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "host_rules_host_key" ON "host_rules"("host");
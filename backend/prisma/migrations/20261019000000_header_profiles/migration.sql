@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "header_profiles" (
+    "id" TEXT NOT NULL,
+    "host" TEXT NOT NULL,
+    "userAgent" TEXT,
+    "referer" TEXT,
+    "cookies" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "header_profiles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "header_profiles_host_key" ON "header_profiles"("host");
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "cookie_jars" (
+    "id" TEXT NOT NULL,
+    "host" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "data" TEXT NOT NULL,
+    "cookieCount" INTEGER NOT NULL,
+    "expiresAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "cookie_jars_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "cookie_jars_userId_host_key" ON "cookie_jars"("userId", "host");
+
+-- AddForeignKey
+ALTER TABLE "cookie_jars" ADD CONSTRAINT "cookie_jars_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "proxy_pools" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "strategy" TEXT NOT NULL DEFAULT 'round-robin',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "proxy_pools_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "proxies" (
+    "id" TEXT NOT NULL,
+    "poolId" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "healthy" BOOLEAN NOT NULL DEFAULT true,
+    "lastCheckedAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "proxies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "proxy_pools_name_key" ON "proxy_pools"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "proxies_poolId_url_key" ON "proxies"("poolId", "url");
+
+-- AddForeignKey
+ALTER TABLE "proxies" ADD CONSTRAINT "proxies_poolId_fkey" FOREIGN KEY ("poolId") REFERENCES "proxy_pools"("id") ON DELETE CASCADE ON UPDATE CASCADE;
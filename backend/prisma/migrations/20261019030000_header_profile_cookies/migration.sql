@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "header_profiles" DROP COLUMN "cookies";
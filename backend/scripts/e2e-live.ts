@@ -2,6 +2,7 @@
  E2E manuel: crée un job via POST /downloads puis écoute la room WebSocket `job:{jobId}`
  Usage:
    WS_URL=http://localhost:3000 SOCKET_IO_PATH=/socket.io E2E_TEST_URL=https://speed.hetzner.de/10MB.bin \
+   E2E_USERNAME=admin E2E_PASSWORD=... \
    node --loader tsx ./scripts/e2e-live.ts
    
    ou: npm run e2e:live (variables via .env backend chargées si vous utilisez dotenv en amont)
@@ -12,16 +13,30 @@ import { io } from 'socket.io-client';
 const BASE = process.env.WS_URL || process.env.API_URL || 'http://localhost:3000';
 const PATH = process.env.SOCKET_IO_PATH || '/socket.io';
 const TEST_URL = process.env.E2E_TEST_URL || 'https://speed.hetzner.de/10MB.bin';
+const USERNAME = process.env.E2E_USERNAME || 'admin';
+const PASSWORD = process.env.E2E_PASSWORD || '';
 
 async function main() {
   console.log('[E2E] BASE =', BASE, 'PATH =', PATH);
 
+  // 0) Connexion: le même jeton sert pour l'API et le WebSocket
+  const login = await fetch(new URL('/auth/login', BASE), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username: USERNAME, password: PASSWORD }),
+  });
+  if (!login.ok) {
+    console.error('[E2E] Échec connexion:', login.status, login.statusText);
+    process.exit(1);
+  }
+  const { accessToken } = (await login.json()) as { accessToken: string };
+
   // 1) Création du job
   const res = await fetch(new URL('/downloads', BASE), {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
-      // 'x-api-key': process.env.API_KEY || '', // si guard activé
+      Authorization: `Bearer ${accessToken}`,
     },
     body: JSON.stringify({ url: TEST_URL, type: 'file' }),
   });
@@ -41,6 +56,7 @@ async function main() {
     path: PATH,
     transports: ['websocket'],
     reconnectionAttempts: 5,
+    auth: { token: accessToken },
   });
 
   let joined = false;
@@ -1,10 +1,19 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { SharedModule } from './shared/shared.module.js';
+import { AuthModule } from './modules/auth/auth.module.js';
 import { DownloadsModule } from './modules/downloads/downloads.module.js';
 import { FilesModule } from './modules/files/files.module.js';
 import { HealthModule } from './modules/health/health.module.js';
 import { WebSocketModule } from './modules/websocket/websocket.module.js';
+import { WebhooksModule } from './modules/webhooks/webhooks.module.js';
+import { CleanupModule } from './modules/cleanup/cleanup.module.js';
+import { SubscriptionsModule } from './modules/subscriptions/subscriptions.module.js';
+import { HostRulesModule } from './modules/host-rules/host-rules.module.js';
+import { SettingsModule } from './modules/settings/settings.module.js';
+import { HeaderProfilesModule } from './modules/header-profiles/header-profiles.module.js';
+import { CookieJarsModule } from './modules/cookie-jars/cookie-jars.module.js';
+import { ProxyPoolsModule } from './modules/proxy-pools/proxy-pools.module.js';
 
 @Module({
   imports: [
@@ -13,10 +22,19 @@ import { WebSocketModule } from './modules/websocket/websocket.module.js';
       envFilePath: ['.env.local', '.env'],
     }),
     SharedModule,
+    AuthModule,
     DownloadsModule,
     FilesModule,
     HealthModule,
     WebSocketModule,
+    WebhooksModule,
+    CleanupModule,
+    SubscriptionsModule,
+    HostRulesModule,
+    SettingsModule,
+    HeaderProfilesModule,
+    CookieJarsModule,
+    ProxyPoolsModule,
   ],
 })
 export class AppModule {}
\ No newline at end of file
@@ -12,6 +12,13 @@ async function bootstrap() {
     new FastifyAdapter({ logger: false })
   );
 
+  // Batch downloads may be uploaded as CSV (text/plain is parsed by Fastify already)
+  app.getHttpAdapter().getInstance().addContentTypeParser(
+    'text/csv',
+    { parseAs: 'string' },
+    (_request, body, done) => done(null, body),
+  );
+
   const logger = app.get(Logger);
   app.useLogger(logger);
 
@@ -0,0 +1,44 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Delete,
+  Param,
+  Body,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  UsePipes,
+} from '@nestjs/common';
+import { ApiKeysService } from './api-keys.service.js';
+import { AuthGuard, AdminOnly, CurrentUser } from '../../shared/guards/auth.guard.js';
+import type { AuthUser } from '../../shared/auth/auth-user.js';
+import type { CreateApiKeyDto } from '../../shared/dto/auth.dto.js';
+import { CreateApiKeySchema } from '../../shared/dto/auth.dto.js';
+import { ZodValidationPipe } from '../../shared/pipes/zod-validation.pipe.js';
+
+@Controller('api-keys')
+@UseGuards(AuthGuard)
+@AdminOnly()
+export class ApiKeysController {
+  constructor(private apiKeysService: ApiKeysService) {}
+
+  @Get()
+  async listApiKeys() {
+    return this.apiKeysService.listApiKeys();
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @UsePipes(new ZodValidationPipe(CreateApiKeySchema))
+  async createApiKey(@Body() dto: CreateApiKeyDto, @CurrentUser() user: AuthUser) {
+    return this.apiKeysService.createApiKey(dto, user);
+  }
+
+  @Delete(':keyId')
+  @HttpCode(HttpStatus.OK)
+  async revokeApiKey(@Param('keyId') keyId: string) {
+    await this.apiKeysService.revokeApiKey(keyId);
+    return { success: true };
+  }
+}
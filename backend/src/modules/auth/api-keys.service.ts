@@ -0,0 +1,90 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import type { ApiKey } from '@prisma/client';
+import { DatabaseService } from '../../shared/database.service.js';
+import { Logger } from '../../shared/logger.service.js';
+import { generateApiKey } from '../../shared/auth/api-keys.js';
+import type { AuthUser } from '../../shared/auth/auth-user.js';
+import type { CreateApiKeyDto } from '../../shared/dto/auth.dto.js';
+
+@Injectable()
+export class ApiKeysService {
+  constructor(
+    private database: DatabaseService,
+    private logger: Logger,
+  ) {}
+
+  async listApiKeys() {
+    const keys = await this.database.apiKey.findMany({
+      orderBy: { createdAt: 'desc' },
+      include: { user: { select: { username: true } } },
+    });
+    return keys.map(key => ({ ...this.toApiKey(key), username: key.user.username }));
+  }
+
+  // The plain key is only part of this response
+  async createApiKey(dto: CreateApiKeyDto, caller: AuthUser) {
+    const userId = dto.userId ?? caller.id;
+    const user = await this.database.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    if (dto.scopes.includes('admin') && user.role !== 'admin') {
+      throw new BadRequestException('The admin scope requires an admin account');
+    }
+
+    const expiresAt = dto.expiresAt ? new Date(dto.expiresAt) : null;
+    if (expiresAt && expiresAt <= new Date()) {
+      throw new BadRequestException('Expiry must be in the future');
+    }
+
+    const { key, prefix, hash } = generateApiKey();
+    const apiKey = await this.database.apiKey.create({
+      data: {
+        name: dto.name,
+        keyHash: hash,
+        prefix,
+        scopes: dto.scopes,
+        userId,
+        expiresAt,
+      },
+    });
+
+    this.logger.info(`Created API key ${prefix} "${dto.name}" for ${user.username} (${dto.scopes.join(', ')})`);
+
+    return { ...this.toApiKey(apiKey), key };
+  }
+
+  // Revoked keys are kept so their use stays auditable
+  async revokeApiKey(keyId: string) {
+    const apiKey = await this.database.apiKey.findUnique({ where: { id: keyId } });
+    if (!apiKey) {
+      throw new NotFoundException('API key not found');
+    }
+
+    if (apiKey.revokedAt) {
+      throw new BadRequestException('API key already revoked');
+    }
+
+    await this.database.apiKey.update({
+      where: { id: keyId },
+      data: { revokedAt: new Date() },
+    });
+
+    this.logger.info(`Revoked API key ${apiKey.prefix} "${apiKey.name}"`);
+  }
+
+  private toApiKey(apiKey: ApiKey) {
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      scopes: apiKey.scopes,
+      userId: apiKey.userId,
+      expiresAt: apiKey.expiresAt,
+      lastUsedAt: apiKey.lastUsedAt,
+      revokedAt: apiKey.revokedAt,
+      createdAt: apiKey.createdAt,
+    };
+  }
+}
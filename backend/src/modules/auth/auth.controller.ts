@@ -0,0 +1,60 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Delete,
+  Param,
+  Body,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  UsePipes,
+} from '@nestjs/common';
+import { AuthService } from './auth.service.js';
+import { AuthGuard, AdminOnly, AnyApiKey, CurrentUser, Public } from '../../shared/guards/auth.guard.js';
+import type { AuthUser } from '../../shared/auth/auth-user.js';
+import type { CreateUserDto, LoginDto } from '../../shared/dto/auth.dto.js';
+import { CreateUserSchema, LoginSchema } from '../../shared/dto/auth.dto.js';
+import { ZodValidationPipe } from '../../shared/pipes/zod-validation.pipe.js';
+
+@Controller('auth')
+@UseGuards(AuthGuard)
+export class AuthController {
+  constructor(private authService: AuthService) {}
+
+  @Post('login')
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(new ZodValidationPipe(LoginSchema))
+  async login(@Body() dto: LoginDto) {
+    return this.authService.login(dto);
+  }
+
+  @Get('me')
+  @AnyApiKey()
+  async me(@CurrentUser() user: AuthUser) {
+    return user;
+  }
+
+  @Get('users')
+  @AdminOnly()
+  async listUsers() {
+    return this.authService.listUsers();
+  }
+
+  @Post('users')
+  @AdminOnly()
+  @HttpCode(HttpStatus.CREATED)
+  @UsePipes(new ZodValidationPipe(CreateUserSchema))
+  async createUser(@Body() dto: CreateUserDto) {
+    return this.authService.createUser(dto);
+  }
+
+  @Delete('users/:userId')
+  @AdminOnly()
+  @HttpCode(HttpStatus.OK)
+  async deleteUser(@Param('userId') userId: string, @CurrentUser() user: AuthUser) {
+    await this.authService.deleteUser(userId, user);
+    return { success: true };
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { AuthController } from './auth.controller.js';
+import { AuthService } from './auth.service.js';
+import { ApiKeysController } from './api-keys.controller.js';
+import { ApiKeysService } from './api-keys.service.js';
+
+@Module({
+  controllers: [AuthController, ApiKeysController],
+  providers: [AuthService, ApiKeysService],
+  exports: [AuthService],
+})
+export class AuthModule {}
@@ -0,0 +1,102 @@
+import { Injectable, OnModuleInit, UnauthorizedException, ConflictException, NotFoundException, BadRequestException } from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import type { User } from '@prisma/client';
+import { DatabaseService } from '../../shared/database.service.js';
+import { Logger } from '../../shared/logger.service.js';
+import { TokenService } from '../../shared/auth/token.service.js';
+import { hashPassword, verifyPassword } from '../../shared/auth/password.js';
+import type { AuthUser, UserRole } from '../../shared/auth/auth-user.js';
+import type { CreateUserDto, LoginDto } from '../../shared/dto/auth.dto.js';
+
+@Injectable()
+export class AuthService implements OnModuleInit {
+  constructor(
+    private database: DatabaseService,
+    private tokens: TokenService,
+    private logger: Logger,
+  ) {}
+
+  // A fresh instance gets one admin account so somebody can log in and create the others
+  async onModuleInit() {
+    if (await this.database.user.count() > 0) return;
+
+    const username = process.env.ADMIN_USERNAME || 'admin';
+    let password = process.env.ADMIN_PASSWORD;
+    if (!password) {
+      password = randomBytes(12).toString('base64url');
+      this.logger.warn(`No account exists and ADMIN_PASSWORD is not set; created admin "${username}" with password: ${password}`);
+    } else {
+      this.logger.info(`Created admin account "${username}"`);
+    }
+
+    await this.database.user.create({
+      data: { username, passwordHash: await hashPassword(password), role: 'admin' },
+    });
+  }
+
+  async login(dto: LoginDto) {
+    const user = await this.database.user.findUnique({ where: { username: dto.username } });
+
+    // Same error for unknown users and wrong passwords
+    if (!user || !(await verifyPassword(dto.password, user.passwordHash))) {
+      throw new UnauthorizedException('Invalid username or password');
+    }
+
+    this.logger.info(`User ${user.username} logged in`);
+
+    return {
+      accessToken: this.tokens.issue({ id: user.id, username: user.username, role: user.role as UserRole }),
+      expiresIn: this.tokens.ttlSeconds,
+      user: this.toUser(user),
+    };
+  }
+
+  async listUsers() {
+    const users = await this.database.user.findMany({ orderBy: { createdAt: 'asc' } });
+    return users.map(user => this.toUser(user));
+  }
+
+  async createUser(dto: CreateUserDto) {
+    const existing = await this.database.user.findUnique({ where: { username: dto.username } });
+    if (existing) {
+      throw new ConflictException('Username already taken');
+    }
+
+    const user = await this.database.user.create({
+      data: {
+        username: dto.username,
+        passwordHash: await hashPassword(dto.password),
+        role: dto.role,
+      },
+    });
+
+    this.logger.info(`Created user ${user.username} (${user.role})`);
+
+    return this.toUser(user);
+  }
+
+  // Jobs of a deleted user are kept and become visible to admins only
+  async deleteUser(userId: string, caller: AuthUser) {
+    if (userId === caller.id) {
+      throw new BadRequestException('Cannot delete your own account');
+    }
+
+    const user = await this.database.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    await this.database.user.delete({ where: { id: userId } });
+
+    this.logger.info(`Deleted user ${user.username}`);
+  }
+
+  private toUser(user: User) {
+    return {
+      id: user.id,
+      username: user.username,
+      role: user.role,
+      createdAt: user.createdAt,
+    };
+  }
+}
@@ -0,0 +1,80 @@
+import { loadCleanupPolicy, parseByteSize, parseTypeRetention, planCleanup } from '../cleanup-policy.js';
+import type { CleanupCandidate, CleanupPolicy } from '../cleanup-policy.js';
+
+const NOW = new Date('2026-10-18T12:00:00Z');
+const GB = 1024 ** 3;
+
+function daysAgo(days: number) {
+  return new Date(NOW.getTime() - days * 24 * 3600 * 1000);
+}
+
+function candidate(jobId: string, overrides: Partial<CleanupCandidate> = {}): CleanupCandidate {
+  return { jobId, type: 'file', createdAt: daysAgo(1), lastAccessedAt: daysAgo(1), bytes: GB, ...overrides };
+}
+
+const POLICY: CleanupPolicy = { maxAgeDays: 7, typeRetentionDays: {}, maxTotalBytes: null, tmpGraceHours: 6 };
+
+describe('cleanup-policy', () => {
+  test('lit la politique depuis l environnement', () => {
+    expect(loadCleanupPolicy({ RETENTION_DAYS: '14' })).toEqual({
+      maxAgeDays: 14,
+      typeRetentionDays: {},
+      maxTotalBytes: null,
+      tmpGraceHours: 6,
+    });
+    expect(loadCleanupPolicy({
+      RETENTION_DAYS: '14',
+      CLEANUP_MAX_AGE_DAYS: '0',
+      CLEANUP_RETENTION_BY_TYPE: 'youtube=3, Pinterest=30',
+      CLEANUP_MAX_BYTES: '500G',
+      CLEANUP_TMP_GRACE_HOURS: '1',
+    })).toEqual({
+      maxAgeDays: null,
+      typeRetentionDays: { youtube: 3, pinterest: 30 },
+      maxTotalBytes: 500 * GB,
+      tmpGraceHours: 1,
+    });
+  });
+
+  test('analyse les tailles et rejette les valeurs invalides', () => {
+    expect(parseByteSize('1048576')).toBe(1024 * 1024);
+    expect(parseByteSize('512m')).toBe(512 * 1024 * 1024);
+    expect(parseByteSize('1.5GB')).toBe(1.5 * GB);
+    expect(() => parseByteSize('beaucoup')).toThrow('Invalid size');
+    expect(() => parseTypeRetention('youtube:3')).toThrow('expected type=days');
+  });
+
+  test('supprime les jobs trop anciens avec une rétention propre à leur type', () => {
+    const removals = planCleanup([
+      candidate('ancien', { createdAt: daysAgo(8) }),
+      candidate('recent', { createdAt: daysAgo(6) }),
+      candidate('youtube', { type: 'youtube', createdAt: daysAgo(4) }),
+      candidate('pinterest', { type: 'pinterest', createdAt: daysAgo(20) }),
+    ], { ...POLICY, typeRetentionDays: { youtube: 3, pinterest: 30 } }, 4 * GB, NOW);
+
+    expect(removals.map(removal => [removal.candidate.jobId, removal.reason])).toEqual([
+      ['ancien', 'max-age'],
+      ['youtube', 'type-retention'],
+    ]);
+  });
+
+  test('libère le quota en évinçant les jobs les moins récemment consultés', () => {
+    const removals = planCleanup([
+      candidate('consulte', { lastAccessedAt: daysAgo(0) }),
+      candidate('oublie', { lastAccessedAt: daysAgo(5) }),
+      candidate('ancien', { createdAt: daysAgo(10), lastAccessedAt: daysAgo(0) }),
+      candidate('moyen', { lastAccessedAt: daysAgo(2) }),
+    ], { ...POLICY, maxTotalBytes: 3 * GB }, 6 * GB, NOW);
+
+    // 6 GB used, of which 2 GB are pinned jobs outside the candidates
+    expect(removals.map(removal => [removal.candidate.jobId, removal.reason])).toEqual([
+      ['ancien', 'max-age'],
+      ['oublie', 'disk-quota'],
+      ['moyen', 'disk-quota'],
+    ]);
+  });
+
+  test('ne supprime rien sous les limites', () => {
+    expect(planCleanup([candidate('a'), candidate('b')], { ...POLICY, maxTotalBytes: 10 * GB }, 2 * GB, NOW)).toEqual([]);
+  });
+});
@@ -0,0 +1,111 @@
+const DAY_MS = 24 * 3600 * 1000;
+
+const SIZE_UNITS: Record<string, number> = { '': 1, K: 1024, M: 1024 ** 2, G: 1024 ** 3, T: 1024 ** 4 };
+
+export interface CleanupPolicy {
+  // Files of completed jobs older than this are removed; null keeps them
+  maxAgeDays: number | null;
+  // Per-type override of maxAgeDays, e.g. { youtube: 3 }
+  typeRetentionDays: Record<string, number>;
+  // Above this total in DATA_DIR, the least recently accessed jobs are evicted
+  maxTotalBytes: number | null;
+  // tmp/{jobId} dirs without an active job are swept once untouched this long
+  tmpGraceHours: number;
+}
+
+export interface CleanupCandidate {
+  jobId: string;
+  type: string;
+  createdAt: Date;
+  // Last file access, creation when never downloaded
+  lastAccessedAt: Date;
+  bytes: number;
+}
+
+export type CleanupReason = 'max-age' | 'type-retention' | 'disk-quota';
+
+export interface PlannedRemoval {
+  candidate: CleanupCandidate;
+  reason: CleanupReason;
+}
+
+/**
+ * Policy from the environment: `CLEANUP_MAX_AGE_DAYS` (`RETENTION_DAYS` by
+ * default, 0 disables it), `CLEANUP_RETENTION_BY_TYPE` (`youtube=3,file=30`),
+ * `CLEANUP_MAX_BYTES` (`500G`, unset disables it) and `CLEANUP_TMP_GRACE_HOURS`.
+ */
+export function loadCleanupPolicy(env: NodeJS.ProcessEnv = process.env): CleanupPolicy {
+  const maxAgeDays = parseInt(env.CLEANUP_MAX_AGE_DAYS || env.RETENTION_DAYS || '7', 10);
+
+  return {
+    maxAgeDays: maxAgeDays > 0 ? maxAgeDays : null,
+    typeRetentionDays: parseTypeRetention(env.CLEANUP_RETENTION_BY_TYPE),
+    maxTotalBytes: env.CLEANUP_MAX_BYTES ? parseByteSize(env.CLEANUP_MAX_BYTES) : null,
+    tmpGraceHours: parseInt(env.CLEANUP_TMP_GRACE_HOURS || '6', 10),
+  };
+}
+
+export function parseTypeRetention(value: string | undefined): Record<string, number> {
+  const retention: Record<string, number> = {};
+
+  for (const entry of (value ?? '').split(',')) {
+    if (!entry.trim()) continue;
+
+    const match = /^\s*([a-z0-9]+)\s*=\s*(\d+)\s*$/i.exec(entry);
+    if (!match) {
+      throw new Error(`Invalid CLEANUP_RETENTION_BY_TYPE entry "${entry.trim()}", expected type=days`);
+    }
+    retention[match[1].toLowerCase()] = parseInt(match[2], 10);
+  }
+
+  return retention;
+}
+
+/** `1073741824`, `512M`, `1.5G`, `2TB`: binary units, case insensitive. */
+export function parseByteSize(value: string): number {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*([KMGT]?)B?\s*$/i.exec(value);
+  if (!match) {
+    throw new Error(`Invalid size "${value}"`);
+  }
+  return Math.floor(parseFloat(match[1]) * SIZE_UNITS[match[2].toUpperCase()]);
+}
+
+/**
+ * Jobs whose files should go. Age limits apply first (a per-type retention
+ * replaces `maxAgeDays` for that type); if the disk usage left still exceeds
+ * `maxTotalBytes`, the least recently accessed jobs are evicted until it fits.
+ * `usedBytes` is the whole of DATA_DIR, pinned jobs included.
+ */
+export function planCleanup(
+  candidates: CleanupCandidate[],
+  policy: CleanupPolicy,
+  usedBytes: number,
+  now = new Date(),
+): PlannedRemoval[] {
+  const removals: PlannedRemoval[] = [];
+  const kept: CleanupCandidate[] = [];
+
+  for (const candidate of candidates) {
+    const typeDays = policy.typeRetentionDays[candidate.type];
+    const days = typeDays ?? policy.maxAgeDays;
+
+    if (days !== null && now.getTime() - candidate.createdAt.getTime() > days * DAY_MS) {
+      removals.push({ candidate, reason: typeDays !== undefined ? 'type-retention' : 'max-age' });
+    } else {
+      kept.push(candidate);
+    }
+  }
+
+  if (policy.maxTotalBytes === null) return removals;
+
+  let remaining = usedBytes - removals.reduce((sum, removal) => sum + removal.candidate.bytes, 0);
+  const byLastAccess = [...kept].sort((a, b) => a.lastAccessedAt.getTime() - b.lastAccessedAt.getTime());
+
+  for (const candidate of byLastAccess) {
+    if (remaining <= policy.maxTotalBytes) break;
+    removals.push({ candidate, reason: 'disk-quota' });
+    remaining -= candidate.bytes;
+  }
+
+  return removals;
+}
@@ -0,0 +1,28 @@
+import {
+  Controller,
+  Post,
+  Get,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import { CleanupService } from './cleanup.service.js';
+import { AuthGuard, AdminOnly } from '../../shared/guards/auth.guard.js';
+
+@Controller('admin/cleanup')
+@UseGuards(AuthGuard)
+@AdminOnly()
+export class CleanupController {
+  constructor(private cleanupService: CleanupService) {}
+
+  @Get('preview')
+  async previewCleanup() {
+    return this.cleanupService.previewCleanup();
+  }
+
+  @Post('run')
+  @HttpCode(HttpStatus.OK)
+  async runCleanup() {
+    return this.cleanupService.runCleanup();
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { CleanupController } from './cleanup.controller.js';
+import { CleanupService } from './cleanup.service.js';
+import { DownloadsModule } from '../downloads/downloads.module.js';
+import { FilesModule } from '../files/files.module.js';
+
+@Module({
+  imports: [DownloadsModule, FilesModule],
+  controllers: [CleanupController],
+  providers: [CleanupService],
+})
+export class CleanupModule {}
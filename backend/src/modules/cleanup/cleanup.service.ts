@@ -0,0 +1,225 @@
+import { Injectable, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { Queue, Worker } from 'bullmq';
+import { Redis } from 'ioredis';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { DatabaseService } from '../../shared/database.service.js';
+import { Logger } from '../../shared/logger.service.js';
+import { FilesService } from '../files/files.service.js';
+import { DownloadsService } from '../downloads/downloads.service.js';
+import { loadCleanupPolicy, planCleanup } from './cleanup-policy.js';
+import type { CleanupCandidate } from './cleanup-policy.js';
+
+// Worker temp dirs are named after the job id
+const JOB_DIR_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const ACTIVE_STATUSES = ['queued', 'scheduled', 'running', 'paused'];
+
+/**
+ * Retention of downloaded files, run periodically as a repeatable BullMQ job
+ * processed by the API (so a single instance runs each pass). A pass purges
+ * the expired trash, drops the files of completed jobs past their age limit
+ * or over the disk quota (pinned jobs excepted), and sweeps `tmp/{jobId}`
+ * dirs that no active job owns anymore.
+ */
+@Injectable()
+export class CleanupService implements OnModuleInit, OnModuleDestroy {
+  private redis!: Redis;
+  private queue!: Queue;
+  private worker!: Worker;
+  private dataDir = process.env.DATA_DIR || './data';
+  private tempDir = process.env.TEMP_DIR || './tmp';
+  private intervalMs = parseInt(process.env.CLEANUP_INTERVAL_MINUTES || '60', 10) * 60 * 1000;
+
+  constructor(
+    private database: DatabaseService,
+    private logger: Logger,
+    private files: FilesService,
+    private downloads: DownloadsService,
+  ) {}
+
+  async onModuleInit() {
+    // Fail at startup rather than on the first pass
+    loadCleanupPolicy();
+
+    this.redis = new Redis({
+      host: process.env.REDIS_HOST || 'localhost',
+      port: parseInt(process.env.REDIS_PORT || '6379'),
+      password: process.env.REDIS_PASSWORD || undefined,
+      maxRetriesPerRequest: null,
+    });
+
+    this.queue = new Queue('maintenance', {
+      connection: this.redis,
+      defaultJobOptions: {
+        removeOnComplete: 100,
+        removeOnFail: 100,
+      },
+    });
+
+    this.worker = new Worker('maintenance', () => this.runCleanup(), {
+      connection: this.redis,
+      concurrency: 1,
+    });
+
+    this.worker.on('error', (err: Error) => {
+      this.logger.error('Maintenance worker error', err.message);
+    });
+
+    // Replace the schedule of a previous configuration
+    for (const repeatable of await this.queue.getRepeatableJobs()) {
+      await this.queue.removeRepeatableByKey(repeatable.key);
+    }
+    if (this.intervalMs > 0) {
+      await this.queue.add('cleanup', {}, { repeat: { every: this.intervalMs } });
+    } else {
+      this.logger.warn('CLEANUP_INTERVAL_MINUTES is 0, scheduled cleanup is disabled');
+    }
+  }
+
+  async onModuleDestroy() {
+    await this.worker?.close();
+    await this.queue?.close();
+    await this.redis?.disconnect();
+  }
+
+  /** What a pass would remove right now, without touching anything. */
+  async previewCleanup() {
+    const plan = await this.planPass();
+    const trash = await this.downloads.purgeTrash(true);
+
+    return { dryRun: true, ...this.toReport(plan), trash };
+  }
+
+  async runCleanup() {
+    const trash = await this.downloads.purgeTrash();
+    const plan = await this.planPass();
+
+    await this.files.releaseJobFiles(plan.removals.map(removal => removal.candidate.jobId));
+
+    for (const dir of plan.tmpDirs) {
+      try {
+        await fs.rm(path.join(this.tempDir, dir.name), { recursive: true, force: true });
+      } catch (error) {
+        this.logger.warn(`Failed to remove temp dir ${dir.name}:`, error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    const report = { dryRun: false, ...this.toReport(plan), trash };
+    this.logger.info(
+      `Cleanup completed: ${report.jobs.length} jobs and ${report.tmpDirs.length} temp dirs removed, ` +
+      `${(report.freedBytes / 1024 / 1024).toFixed(2)} MB freed`,
+    );
+
+    return report;
+  }
+
+  private async planPass() {
+    const policy = loadCleanupPolicy();
+    const usedBytes = await directorySize(this.dataDir);
+
+    // Playlist entries follow the pin of their playlist
+    const jobs = await this.database.job.findMany({
+      where: {
+        status: 'completed',
+        outputPath: { not: null },
+        deletedAt: null,
+        pinned: false,
+        OR: [{ parentId: null }, { parent: { is: { pinned: false } } }],
+      },
+      select: { id: true, type: true, filename: true, createdAt: true, lastAccessedAt: true },
+    });
+
+    const candidates: CleanupCandidate[] = [];
+    for (const job of jobs) {
+      candidates.push({
+        jobId: job.id,
+        type: job.type,
+        createdAt: job.createdAt,
+        lastAccessedAt: job.lastAccessedAt ?? job.createdAt,
+        bytes: await directorySize(path.join(this.dataDir, job.id)),
+      });
+    }
+
+    const filenames = new Map(jobs.map(job => [job.id, job.filename]));
+    const removals = planCleanup(candidates, policy, usedBytes);
+    const tmpDirs = await this.findOrphanedTmpDirs(policy.tmpGraceHours);
+
+    return { policy, usedBytes, removals, filenames, tmpDirs };
+  }
+
+  // A crashed worker leaves tmp/{jobId} behind; the grace period spares dirs still being written
+  private async findOrphanedTmpDirs(graceHours: number) {
+    let entries: string[];
+    try {
+      entries = (await fs.readdir(this.tempDir, { withFileTypes: true }))
+        .filter(entry => entry.isDirectory() && JOB_DIR_PATTERN.test(entry.name))
+        .map(entry => entry.name);
+    } catch {
+      return [];
+    }
+    if (entries.length === 0) return [];
+
+    const active = await this.database.job.findMany({
+      where: { id: { in: entries }, status: { in: ACTIVE_STATUSES } },
+      select: { id: true },
+    });
+    const activeIds = new Set(active.map(job => job.id));
+    const cutoff = Date.now() - graceHours * 3600 * 1000;
+
+    const orphaned: Array<{ name: string; bytes: number; modifiedAt: Date }> = [];
+    for (const name of entries) {
+      if (activeIds.has(name)) continue;
+
+      const dir = path.join(this.tempDir, name);
+      const stats = await fs.stat(dir).catch(() => null);
+      if (!stats || stats.mtimeMs > cutoff) continue;
+
+      orphaned.push({ name, bytes: await directorySize(dir), modifiedAt: stats.mtime });
+    }
+
+    return orphaned;
+  }
+
+  private toReport(plan: Awaited<ReturnType<CleanupService['planPass']>>) {
+    const jobs = plan.removals.map(({ candidate, reason }) => ({
+      jobId: candidate.jobId,
+      type: candidate.type,
+      filename: plan.filenames.get(candidate.jobId) ?? null,
+      bytes: candidate.bytes,
+      createdAt: candidate.createdAt,
+      lastAccessedAt: candidate.lastAccessedAt,
+      reason,
+    }));
+    const tmpDirs = plan.tmpDirs.map(dir => ({ jobId: dir.name, bytes: dir.bytes, modifiedAt: dir.modifiedAt }));
+
+    return {
+      policy: plan.policy,
+      usedBytes: plan.usedBytes,
+      freedBytes: [...jobs, ...tmpDirs].reduce((sum, entry) => sum + entry.bytes, 0),
+      jobs,
+      tmpDirs,
+    };
+  }
+}
+
+// Apparent size of every file below `dir`, 0 when it does not exist
+async function directorySize(dir: string): Promise<number> {
+  let entries;
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return 0;
+  }
+
+  let total = 0;
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      total += await directorySize(entryPath);
+    } else if (entry.isFile()) {
+      total += (await fs.stat(entryPath).catch(() => null))?.size ?? 0;
+    }
+  }
+  return total;
+}
@@ -0,0 +1,45 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Delete,
+  Param,
+  Body,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import { CookieJarsService } from './cookie-jars.service.js';
+import { AuthGuard, CurrentUser, RequireScopes } from '../../shared/guards/auth.guard.js';
+import type { AuthUser } from '../../shared/auth/auth-user.js';
+import type { SaveCookieJarDto } from '../../shared/dto/cookie-jar.dto.js';
+import { SaveCookieJarSchema } from '../../shared/dto/cookie-jar.dto.js';
+import { ZodValidationPipe } from '../../shared/pipes/zod-validation.pipe.js';
+
+@Controller('cookie-jars')
+@UseGuards(AuthGuard)
+@RequireScopes('cookies:manage')
+export class CookieJarsController {
+  constructor(private cookieJarsService: CookieJarsService) {}
+
+  @Get()
+  async listJars(@CurrentUser() user: AuthUser) {
+    return this.cookieJarsService.listJars(user);
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async saveJar(
+    @Body(new ZodValidationPipe(SaveCookieJarSchema)) dto: SaveCookieJarDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.cookieJarsService.saveJar(dto, user);
+  }
+
+  @Delete(':jarId')
+  @HttpCode(HttpStatus.OK)
+  async deleteJar(@Param('jarId') jarId: string, @CurrentUser() user: AuthUser) {
+    await this.cookieJarsService.deleteJar(jarId, user);
+    return { success: true };
+  }
+}
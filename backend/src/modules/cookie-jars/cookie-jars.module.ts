@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { CookieJarsController } from './cookie-jars.controller.js';
+import { CookieJarsService } from './cookie-jars.service.js';
+
+@Module({
+  controllers: [CookieJarsController],
+  providers: [CookieJarsService],
+})
+export class CookieJarsModule {}
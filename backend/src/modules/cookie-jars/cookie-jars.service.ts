@@ -0,0 +1,88 @@
+import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
+import type { CookieJar } from '@prisma/client';
+import { DatabaseService } from '../../shared/database.service.js';
+import { Logger } from '../../shared/logger.service.js';
+import type { AuthUser } from '../../shared/auth/auth-user.js';
+import type { SaveCookieJarDto } from '../../shared/dto/cookie-jar.dto.js';
+import { cookieJarKey, encryptCookies, parseCookieFile, unexpiredCookies } from '../../shared/cookie-jar.js';
+import type { JarCookie } from '../../shared/cookie-jar.js';
+
+/**
+ * Cookie jars of each user, one per host. Only the encrypted cookies are
+ * stored; the worker decrypts the jar matching a job's URL for its owner.
+ */
+@Injectable()
+export class CookieJarsService {
+  private key: Buffer | null;
+
+  constructor(
+    private database: DatabaseService,
+    private logger: Logger,
+  ) {
+    const secret = process.env.COOKIE_JAR_SECRET || process.env.JWT_SECRET;
+    this.key = secret ? cookieJarKey(secret) : null;
+    if (!secret) {
+      this.logger.warn('COOKIE_JAR_SECRET is not set, cookie jars cannot be saved');
+    }
+  }
+
+  async listJars(user: AuthUser) {
+    const jars = await this.database.cookieJar.findMany({
+      where: { userId: user.id },
+      orderBy: { host: 'asc' },
+    });
+    return jars.map(jar => this.toJar(jar));
+  }
+
+  // Uploading a jar for a host already saved replaces its cookies
+  async saveJar(dto: SaveCookieJarDto, user: AuthUser) {
+    if (!this.key) {
+      throw new BadRequestException('Cookie jars are disabled, COOKIE_JAR_SECRET is not set');
+    }
+
+    let cookies: JarCookie[];
+    try {
+      cookies = unexpiredCookies(parseCookieFile(dto.content));
+    } catch (error) {
+      throw new BadRequestException(error instanceof Error ? error.message : String(error));
+    }
+    if (cookies.length === 0) {
+      throw new BadRequestException('No unexpired cookie in the file');
+    }
+
+    const expiries = cookies.map(cookie => cookie.expires).filter(expires => expires > 0);
+    const fields = {
+      data: encryptCookies(cookies, this.key),
+      cookieCount: cookies.length,
+      expiresAt: expiries.length > 0 ? new Date(Math.min(...expiries) * 1000) : null,
+    };
+    const jar = await this.database.cookieJar.upsert({
+      where: { userId_host: { userId: user.id, host: dto.host } },
+      create: { host: dto.host, userId: user.id, ...fields },
+      update: fields,
+    });
+
+    this.logger.info(`${user.username} saved ${cookies.length} cookies for ${dto.host}`);
+    return this.toJar(jar);
+  }
+
+  async deleteJar(jarId: string, user: AuthUser) {
+    const jar = await this.database.cookieJar.findFirst({ where: { id: jarId, userId: user.id } });
+    if (!jar) {
+      throw new NotFoundException('Cookie jar not found');
+    }
+    await this.database.cookieJar.delete({ where: { id: jarId } });
+  }
+
+  // Cookie values never leave the server
+  private toJar(jar: CookieJar) {
+    return {
+      id: jar.id,
+      host: jar.host,
+      cookieCount: jar.cookieCount,
+      expiresAt: jar.expiresAt?.toISOString() ?? null,
+      createdAt: jar.createdAt.toISOString(),
+      updatedAt: jar.updatedAt.toISOString(),
+    };
+  }
+}
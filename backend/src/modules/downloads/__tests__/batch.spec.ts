@@ -0,0 +1,48 @@
+import { fromJsonArray, parseBatchText, validateBatch } from '../batch.js';
+
+describe('parseBatchText', () => {
+  test('une URL par ligne, lignes vides et commentaires ignorés', () => {
+    const inputs = parseBatchText('https://a.test/1.mp4\n\n# commentaire\r\n  https://a.test/2.mp4  \n');
+
+    expect(inputs).toEqual([
+      { line: 1, input: { url: 'https://a.test/1.mp4' } },
+      { line: 4, input: { url: 'https://a.test/2.mp4' } },
+    ]);
+  });
+
+  test('colonnes CSV type et filenameHint, en-tête ignoré', () => {
+    const inputs = parseBatchText('url,type,filenameHint\nhttps://y.test/watch?v=1,youtube,"clip"\nhttps://a.test/f.zip,,archive.zip');
+
+    expect(inputs).toEqual([
+      { line: 2, input: { url: 'https://y.test/watch?v=1', type: 'youtube', filenameHint: 'clip' } },
+      { line: 3, input: { url: 'https://a.test/f.zip', filenameHint: 'archive.zip' } },
+    ]);
+  });
+});
+
+describe('validateBatch', () => {
+  test('valide chaque entrée séparément', () => {
+    const entries = validateBatch(fromJsonArray([
+      'https://a.test/1.mp4',
+      { url: 'pas une url' },
+      { url: 'https://a.test/2.m3u8', type: 'm3u8' },
+      { url: 'https://a.test/3', type: 'ftp' },
+    ]));
+
+    expect(entries[0]).toMatchObject({ line: 1, url: 'https://a.test/1.mp4', dto: { type: 'auto' } });
+    expect(entries[1]).toMatchObject({ line: 2, url: 'pas une url', error: 'url: Must be a valid URL' });
+    expect(entries[2]).toMatchObject({ line: 3, dto: { type: 'm3u8' } });
+    expect(entries[3]).toMatchObject({ line: 4, error: expect.stringContaining('type:') });
+  });
+
+  test('refuse les playlists et les entrées sans objet', () => {
+    const entries = validateBatch(fromJsonArray([
+      { url: 'https://y.test/playlist?list=1', playlist: {} },
+      42,
+    ]));
+
+    expect(entries[0]).toMatchObject({ error: expect.stringContaining('playlist') });
+    expect(entries[1]).toMatchObject({ line: 2, url: undefined });
+    expect('error' in entries[1]).toBe(true);
+  });
+});
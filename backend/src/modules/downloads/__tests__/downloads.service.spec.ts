@@ -0,0 +1,118 @@
+import { jest } from '@jest/globals';
+import type { Job } from '@prisma/client';
+import { DownloadsService } from '../downloads.service.js';
+import type { DatabaseService } from '../../../shared/database.service.js';
+import type { DownloadJobData, QueueService } from '../../../shared/queue.service.js';
+import type { Logger } from '../../../shared/logger.service.js';
+import type { MediaProbeService } from '../media-probe.service.js';
+import type { WebhooksService } from '../../webhooks/webhooks.service.js';
+import type { FilesService } from '../../files/files.service.js';
+import type { SettingsService } from '../../settings/settings.service.js';
+import type { AuthUser } from '../../../shared/auth/auth-user.js';
+import { BULK_ACTION_MAX_JOBS } from '../../../shared/dto/download.dto.js';
+
+const ADMIN: AuthUser = { id: 'admin-1', username: 'admin', role: 'admin' };
+
+// Like BullMQ, an add with an id already stored in Redis is ignored
+function createQueue(stored: Map<string, DownloadJobData>, states: string[] = []) {
+  return {
+    addDownloadJob: jest.fn(async (data: DownloadJobData) => {
+      if (!stored.has(data.jobId)) stored.set(data.jobId, data);
+    }),
+    removeJob: jest.fn(async (jobId: string) => {
+      stored.delete(jobId);
+    }),
+    // Successive states of the job, the last one sticks
+    getJobState: jest.fn(async () => (states.length > 1 ? states.shift() : states[0]) ?? 'unknown'),
+    cancelJob: jest.fn(async () => undefined),
+  };
+}
+
+function createService(row: Partial<Job>, stored: Map<string, DownloadJobData>, states?: string[], matching = 0) {
+  const database = {
+    job: {
+      findFirst: jest.fn(async () => row),
+      findMany: jest.fn(async () => []),
+      update: jest.fn(async () => row),
+      deleteMany: jest.fn(async () => ({ count: 1 })),
+      count: jest.fn(async () => matching),
+    },
+  };
+  const queue = createQueue(stored, states);
+  const files = { removeJobData: jest.fn(async () => undefined) };
+  const logger = { info: jest.fn() };
+
+  const service = new DownloadsService(
+    database as unknown as DatabaseService,
+    queue as unknown as QueueService,
+    logger as unknown as Logger,
+    {} as MediaProbeService,
+    {} as WebhooksService,
+    files as unknown as FilesService,
+    {} as SettingsService,
+  );
+  return { service, queue, files };
+}
+
+describe('DownloadsService.retryDownload', () => {
+  test('remet en file un job dont l’ancien job BullMQ est encore conservé', async () => {
+    const row: Partial<Job> = {
+      id: 'job-1',
+      url: 'https://example.com/file.zip',
+      type: 'file',
+      status: 'failed',
+      priority: 5,
+      meta: JSON.stringify({ maxSpeed: 1_048_576 }),
+      headers: null,
+      transcode: null,
+      filename: null,
+      parentId: null,
+    };
+    // Kept by removeOnFail, with the payload of the failed run
+    const stored = new Map<string, DownloadJobData>([
+      ['job-1', { jobId: 'job-1', url: row.url!, type: 'file', excludedProxies: ['http://10.0.0.1:3128'] }],
+    ]);
+
+    await createService(row, stored).service.retryDownload('job-1', ADMIN);
+
+    expect(stored.get('job-1')).toMatchObject({ jobId: 'job-1', maxSpeed: 1_048_576 });
+    expect(stored.get('job-1')?.excludedProxies).toBeUndefined();
+  });
+
+  test('refuse de relancer un job qui n’a pas échoué', async () => {
+    const stored = new Map<string, DownloadJobData>();
+    const { service } = createService({ id: 'job-2', status: 'running' }, stored);
+
+    await expect(service.retryDownload('job-2', ADMIN)).rejects.toThrow('Can only retry failed or cancelled jobs');
+    expect(stored.size).toBe(0);
+  });
+});
+
+describe('DownloadsService.deleteDownload', () => {
+  test('attend que le worker lâche un job annulé avant de le purger', async () => {
+    const stored = new Map<string, DownloadJobData>([['job-3', { jobId: 'job-3', url: 'https://example.com/a', type: 'file' }]]);
+    const { service, queue, files } = createService(
+      { id: 'job-3', status: 'running', parentId: null },
+      stored,
+      ['active', 'active', 'completed'],
+    );
+
+    await service.deleteDownload('job-3', ADMIN, { cancel: true, permanent: true });
+
+    expect(queue.cancelJob).toHaveBeenCalledWith('job-3');
+    expect(queue.getJobState).toHaveBeenCalledTimes(3);
+    expect(queue.removeJob).toHaveBeenCalledWith('job-3');
+    expect(files.removeJobData).toHaveBeenCalledWith(['job-3']);
+  });
+});
+
+describe('DownloadsService.applyBulkAction', () => {
+  test('refuse un filtre qui sélectionne plus de jobs que la limite', async () => {
+    const stored = new Map<string, DownloadJobData>();
+    const { service, queue } = createService({ id: 'job-4', status: 'failed' }, stored, [], BULK_ACTION_MAX_JOBS + 1);
+
+    await expect(service.applyBulkAction({ action: 'retry', filter: { status: 'failed' } }, ADMIN))
+      .rejects.toThrow(`${BULK_ACTION_MAX_JOBS + 1} jobs match the filter`);
+    expect(queue.addDownloadJob).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,57 @@
+import { extractPlaylistEntries, summarizeYtDlpInfo } from '../media-probe.service.js';
+
+describe('summarizeYtDlpInfo', () => {
+  test('résume titre, durée, miniature et formats triés', () => {
+    const res = summarizeYtDlpInfo({
+      title: 'Demo',
+      duration: 212,
+      thumbnail: 'https://i.ytimg.com/vi/x/hq.jpg',
+      channel: 'Chan',
+      formats: [
+        { format_id: '140', ext: 'm4a', vcodec: 'none', acodec: 'mp4a.40.2', tbr: 129, filesize: 3_400_000 },
+        { format_id: '137', ext: 'mp4', height: 1080, vcodec: 'avc1.640028', acodec: 'none', tbr: 4400 },
+        { format_id: '313', ext: 'webm', height: 2160, vcodec: 'vp9', acodec: 'none', tbr: 17000, filesize_approx: 450_000_000 },
+      ],
+    });
+
+    expect(res.title).toBe('Demo');
+    expect(res.duration).toBe(212);
+    expect(res.uploader).toBe('Chan');
+    expect(res.formats.map(f => f.formatId)).toEqual(['313', '137', '140']);
+    expect(res.formats[0]).toMatchObject({ hasVideo: true, hasAudio: false, filesize: 450_000_000 });
+    expect(res.formats[2]).toMatchObject({ hasVideo: false, hasAudio: true, vcodec: undefined });
+  });
+
+  test('ignore les storyboards', () => {
+    const res = summarizeYtDlpInfo({
+      formats: [
+        { format_id: 'sb0', ext: 'mhtml', format_note: 'storyboard' },
+        { format_id: '18', ext: 'mp4', height: 360, vcodec: 'avc1', acodec: 'mp4a' },
+      ],
+    });
+    expect(res.title).toBe('Untitled');
+    expect(res.formats).toHaveLength(1);
+    expect(res.formats[0].formatId).toBe('18');
+  });
+});
+
+describe('extractPlaylistEntries', () => {
+  test('garde les URLs des entrées et reconstruit les liens YouTube', () => {
+    const res = extractPlaylistEntries({
+      _type: 'playlist',
+      title: 'Mix',
+      entries: [
+        { id: 'abc', url: 'https://www.youtube.com/watch?v=abc', title: 'First' },
+        { id: 'def', url: 'def', ie_key: 'Youtube', title: 'Second' },
+        null,
+        { id: 'ghi', ie_key: 'Generic' },
+      ],
+    });
+
+    expect(res.title).toBe('Mix');
+    expect(res.entries).toEqual([
+      { url: 'https://www.youtube.com/watch?v=abc', title: 'First', id: 'abc' },
+      { url: 'https://www.youtube.com/watch?v=def', title: 'Second', id: 'def' },
+    ]);
+  });
+});
@@ -0,0 +1,57 @@
+import { aggregateChildJobs } from '../playlist.js';
+
+describe('aggregateChildJobs', () => {
+  test('reste en file tant qu’aucune entrée n’a démarré', () => {
+    const res = aggregateChildJobs([
+      { status: 'queued', progress: 0 },
+      { status: 'queued', progress: 0 },
+    ]);
+    expect(res).toMatchObject({ status: 'queued', progress: 0 });
+  });
+
+  test('est programmé tant que toutes les entrées attendent leur heure de départ', () => {
+    expect(aggregateChildJobs([
+      { status: 'scheduled', progress: 0 },
+      { status: 'scheduled', progress: 0 },
+    ])).toMatchObject({ status: 'scheduled' });
+    expect(aggregateChildJobs([
+      { status: 'scheduled', progress: 0 },
+      { status: 'queued', progress: 0 },
+    ])).toMatchObject({ status: 'queued' });
+  });
+
+  test('moyenne la progression et compte les entrées terminées comme faites', () => {
+    const res = aggregateChildJobs([
+      { status: 'completed', progress: 100 },
+      { status: 'running', progress: 50 },
+      { status: 'queued', progress: 0 },
+      { status: 'failed', progress: 12 },
+    ]);
+    expect(res).toMatchObject({ status: 'running', progress: 62.5, errorCode: null });
+  });
+
+  test('échoue une fois toutes les entrées réglées si l’une a échoué', () => {
+    const res = aggregateChildJobs([
+      { status: 'completed', progress: 100 },
+      { status: 'failed', progress: 30 },
+      { status: 'cancelled', progress: 0 },
+    ]);
+    expect(res).toEqual({
+      status: 'failed',
+      progress: 100,
+      errorCode: 'PLAYLIST_ENTRIES_FAILED',
+      errorMessage: '1 of 3 entries failed',
+    });
+  });
+
+  test('se termine ou s’annule selon les entrées', () => {
+    expect(aggregateChildJobs([
+      { status: 'completed', progress: 100 },
+      { status: 'cancelled', progress: 40 },
+    ])).toMatchObject({ status: 'completed', errorMessage: '1 of 2 entries cancelled' });
+
+    expect(aggregateChildJobs([
+      { status: 'cancelled', progress: 0 },
+    ])).toMatchObject({ status: 'cancelled' });
+  });
+});
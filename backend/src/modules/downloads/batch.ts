@@ -0,0 +1,71 @@
+import { CreateDownloadSchema } from '../../shared/dto/download.dto.js';
+import type { CreateDownloadDto } from '../../shared/dto/download.dto.js';
+
+export const BATCH_MAX_ENTRIES = 500;
+
+export interface BatchInput {
+  // 1-based line of the upload, or index + 1 in a JSON array
+  line: number;
+  input: unknown;
+}
+
+export type BatchEntry =
+  | { line: number; url?: string; dto: CreateDownloadDto }
+  | { line: number; url?: string; error: string };
+
+const TEXT_COLUMNS = ['url', 'type', 'filenameHint'] as const;
+
+/**
+ * Entries of a plain-text or CSV upload: one `url[,type[,filenameHint]]` per
+ * line. Blank lines, `#` comments and a leading `url,...` header are skipped.
+ */
+export function parseBatchText(text: string): BatchInput[] {
+  const inputs: BatchInput[] = [];
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) return;
+
+    const cells = line.split(',').map(cell => cell.trim().replace(/^"(.*)"$/, '$1'));
+    if (inputs.length === 0 && cells[0].toLowerCase() === 'url') return;
+
+    const input: Record<string, string> = {};
+    TEXT_COLUMNS.forEach((column, position) => {
+      if (cells[position]) input[column] = cells[position];
+    });
+    inputs.push({ line: index + 1, input });
+  });
+
+  return inputs;
+}
+
+// Bare strings in a JSON array are taken as URLs
+export function fromJsonArray(entries: unknown[]): BatchInput[] {
+  return entries.map((input, index) => ({ line: index + 1, input: typeof input === 'string' ? { url: input } : input }));
+}
+
+/** Validate each input on its own with `CreateDownloadSchema`. */
+export function validateBatch(inputs: BatchInput[]): BatchEntry[] {
+  return inputs.map(({ line, input }) => {
+    const url = inputUrl(input);
+
+    const parsed = CreateDownloadSchema.safeParse(input);
+    if (!parsed.success) {
+      const error = parsed.error.issues
+        .map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+        .join('; ');
+      return { line, url, error };
+    }
+
+    if (parsed.data.playlist) {
+      return { line, url, error: 'playlist: Playlist expansion is not available in batches' };
+    }
+
+    return { line, url, dto: parsed.data };
+  });
+}
+
+function inputUrl(input: unknown): string | undefined {
+  const url = (input as { url?: unknown } | null | undefined)?.url;
+  return typeof url === 'string' ? url : undefined;
+}
@@ -2,77 +2,206 @@ import {
   Controller,
   Post,
   Get,
+  Delete,
+  Patch,
   Param,
   Body,
   Query,
   HttpCode,
   HttpStatus,
+  UseGuards,
   UsePipes,
+  BadRequestException,
 } from '@nestjs/common';
 import { DownloadsService } from './downloads.service.js';
-import type { CreateDownloadDto } from '../../shared/dto/download.dto.js';
-import { CreateDownloadSchema } from '../../shared/dto/download.dto.js';
+import { MediaProbeService } from './media-probe.service.js';
+import { fromJsonArray, parseBatchText } from './batch.js';
+import type { BulkActionDto, ChangePriorityDto, CreateDownloadDto, DeleteJobDto, ProbeDto, RescheduleDto } from '../../shared/dto/download.dto.js';
+import { BulkActionSchema, ChangePrioritySchema, CreateDownloadSchema, DeleteJobSchema, ProbeSchema, RescheduleSchema } from '../../shared/dto/download.dto.js';
 import { ZodValidationPipe } from '../../shared/pipes/zod-validation.pipe.js';
+import { AuthGuard, CurrentUser, RequireScopes } from '../../shared/guards/auth.guard.js';
+import type { AuthUser } from '../../shared/auth/auth-user.js';
 
 @Controller('downloads')
-// @UseGuards(ApiKeyGuard) // Temporarily disabled for testing
+@UseGuards(AuthGuard)
 export class DownloadsController {
-  constructor(private downloadsService: DownloadsService) {}
+  constructor(
+    private downloadsService: DownloadsService,
+    private mediaProbe: MediaProbeService,
+  ) {}
 
   @Post()
+  @RequireScopes('downloads:create')
   @HttpCode(HttpStatus.CREATED)
   @UsePipes(new ZodValidationPipe(CreateDownloadSchema))
-  async createDownload(@Body() dto: CreateDownloadDto) {
-    return this.downloadsService.createDownload(dto);
+  async createDownload(@Body() dto: CreateDownloadDto, @CurrentUser() user: AuthUser) {
+    return this.downloadsService.createDownload(dto, user);
+  }
+
+  /**
+   * Several downloads at once: a JSON array of `CreateDownloadDto` (or bare
+   * URLs), or a `text/plain`/`text/csv` body with one `url[,type[,filenameHint]]`
+   * per line. Entries are validated one by one and reported per line.
+   */
+  @Post('batch')
+  @RequireScopes('downloads:create')
+  @HttpCode(HttpStatus.CREATED)
+  async createBatch(@Body() body: unknown, @CurrentUser() user: AuthUser) {
+    if (typeof body === 'string') {
+      return this.downloadsService.createBatch(parseBatchText(body), user);
+    }
+    if (Array.isArray(body)) {
+      return this.downloadsService.createBatch(fromJsonArray(body), user);
+    }
+    throw new BadRequestException('Expected a JSON array or a text/plain or text/csv body');
+  }
+
+  // cancel, retry or delete for a list of jobs or a list filter, with a per-job outcome
+  @Post('actions')
+  @RequireScopes('downloads:control')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(new ZodValidationPipe(BulkActionSchema))
+  async applyBulkAction(@Body() dto: BulkActionDto, @CurrentUser() user: AuthUser) {
+    return this.downloadsService.applyBulkAction(dto, user);
+  }
+
+  @Post('probe')
+  @RequireScopes('downloads:create')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(new ZodValidationPipe(ProbeSchema))
+  async probe(@Body() dto: ProbeDto) {
+    return this.mediaProbe.probe(dto.url, dto);
   }
 
   @Get()
+  @RequireScopes('downloads:create', 'downloads:control')
   async listDownloads(
+    @CurrentUser() user: AuthUser,
     @Query('page') page = '1',
     @Query('limit') limit = '20',
     @Query('status') status?: string,
     @Query('type') type?: string,
     @Query('search') search?: string,
+    @Query('parentId') parentId?: string,
   ) {
     return this.downloadsService.listDownloads(
+      user,
       parseInt(page),
       parseInt(limit),
       status,
       type,
       search,
+      parentId,
     );
   }
 
+  // Declared before :jobId so "trash" is not taken for a job id
+  @Get('trash')
+  @RequireScopes('downloads:control')
+  async listTrash(
+    @CurrentUser() user: AuthUser,
+    @Query('page') page = '1',
+    @Query('limit') limit = '20',
+  ) {
+    return this.downloadsService.listTrash(user, parseInt(page), parseInt(limit));
+  }
+
   @Get(':jobId')
-  async getDownload(@Param('jobId') jobId: string) {
-    return this.downloadsService.getDownload(jobId);
+  @RequireScopes('downloads:create', 'downloads:control')
+  async getDownload(@Param('jobId') jobId: string, @CurrentUser() user: AuthUser) {
+    return this.downloadsService.getDownload(jobId, user);
+  }
+
+  @Patch(':jobId')
+  @RequireScopes('downloads:control')
+  async rescheduleDownload(
+    @Param('jobId') jobId: string,
+    @Body(new ZodValidationPipe(RescheduleSchema)) dto: RescheduleDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.downloadsService.rescheduleDownload(jobId, dto, user);
+  }
+
+  @Delete(':jobId')
+  @RequireScopes('downloads:control')
+  @HttpCode(HttpStatus.OK)
+  async deleteDownload(
+    @Param('jobId') jobId: string,
+    @Query(new ZodValidationPipe(DeleteJobSchema)) query: DeleteJobDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    await this.downloadsService.deleteDownload(jobId, user, {
+      keepFiles: query.files === 'keep',
+      cancel: query.cancel,
+      permanent: query.permanent,
+    });
+    return { success: true };
+  }
+
+  @Post(':jobId/restore')
+  @RequireScopes('downloads:control')
+  @HttpCode(HttpStatus.OK)
+  async restoreDownload(@Param('jobId') jobId: string, @CurrentUser() user: AuthUser) {
+    await this.downloadsService.restoreDownload(jobId, user);
+    return { success: true };
+  }
+
+  @Post(':jobId/pin')
+  @RequireScopes('downloads:control')
+  @HttpCode(HttpStatus.OK)
+  async pinDownload(@Param('jobId') jobId: string, @CurrentUser() user: AuthUser) {
+    await this.downloadsService.setPinned(jobId, true, user);
+    return { success: true };
+  }
+
+  @Post(':jobId/unpin')
+  @RequireScopes('downloads:control')
+  @HttpCode(HttpStatus.OK)
+  async unpinDownload(@Param('jobId') jobId: string, @CurrentUser() user: AuthUser) {
+    await this.downloadsService.setPinned(jobId, false, user);
+    return { success: true };
+  }
+
+  @Post(':jobId/priority')
+  @RequireScopes('downloads:control')
+  @HttpCode(HttpStatus.OK)
+  async changePriority(
+    @Param('jobId') jobId: string,
+    @Body(new ZodValidationPipe(ChangePrioritySchema)) dto: ChangePriorityDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.downloadsService.changePriority(jobId, dto, user);
   }
 
   @Post(':jobId/cancel')
+  @RequireScopes('downloads:control')
   @HttpCode(HttpStatus.OK)
-  async cancelDownload(@Param('jobId') jobId: string) {
-    await this.downloadsService.cancelDownload(jobId);
+  async cancelDownload(@Param('jobId') jobId: string, @CurrentUser() user: AuthUser) {
+    await this.downloadsService.cancelDownload(jobId, user);
     return { success: true };
   }
 
   @Post(':jobId/pause')
+  @RequireScopes('downloads:control')
   @HttpCode(HttpStatus.OK)
-  async pauseDownload(@Param('jobId') jobId: string) {
-    await this.downloadsService.pauseDownload(jobId);
+  async pauseDownload(@Param('jobId') jobId: string, @CurrentUser() user: AuthUser) {
+    await this.downloadsService.pauseDownload(jobId, user);
     return { success: true };
   }
 
   @Post(':jobId/resume')
+  @RequireScopes('downloads:control')
   @HttpCode(HttpStatus.OK)
-  async resumeDownload(@Param('jobId') jobId: string) {
-    await this.downloadsService.resumeDownload(jobId);
+  async resumeDownload(@Param('jobId') jobId: string, @CurrentUser() user: AuthUser) {
+    await this.downloadsService.resumeDownload(jobId, user);
     return { success: true };
   }
 
   @Post(':jobId/retry')
+  @RequireScopes('downloads:control')
   @HttpCode(HttpStatus.OK)
-  async retryDownload(@Param('jobId') jobId: string) {
-    await this.downloadsService.retryDownload(jobId);
+  async retryDownload(@Param('jobId') jobId: string, @CurrentUser() user: AuthUser) {
+    await this.downloadsService.retryDownload(jobId, user);
     return { success: true };
   }
 }
\ No newline at end of file
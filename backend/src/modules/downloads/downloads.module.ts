@@ -1,10 +1,15 @@
 import { Module } from '@nestjs/common';
 import { DownloadsController } from './downloads.controller.js';
 import { DownloadsService } from './downloads.service.js';
+import { MediaProbeService } from './media-probe.service.js';
+import { WebhooksModule } from '../webhooks/webhooks.module.js';
+import { FilesModule } from '../files/files.module.js';
+import { SettingsModule } from '../settings/settings.module.js';
 
 @Module({
+  imports: [WebhooksModule, FilesModule, SettingsModule],
   controllers: [DownloadsController],
-  providers: [DownloadsService],
-  exports: [DownloadsService],
+  providers: [DownloadsService, MediaProbeService],
+  exports: [DownloadsService, MediaProbeService],
 })
 export class DownloadsModule {}
\ No newline at end of file
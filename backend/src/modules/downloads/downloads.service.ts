@@ -1,22 +1,162 @@
-import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Injectable, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
 import { DatabaseService } from '../../shared/database.service.js';
 import { QueueService } from '../../shared/queue.service.js';
+import type { DownloadJobData } from '../../shared/queue.service.js';
 import { Logger } from '../../shared/logger.service.js';
-import { CreateDownloadDto } from '../../shared/dto/download.dto.js';
+import { CreateDownloadDto, BULK_ACTION_MAX_JOBS, HIGHEST_PRIORITY } from '../../shared/dto/download.dto.js';
+import type { BulkActionDto, ChangePriorityDto, RescheduleDto } from '../../shared/dto/download.dto.js';
+import { MediaProbeService } from './media-probe.service.js';
+import { aggregateChildJobs } from './playlist.js';
+import { BATCH_MAX_ENTRIES, validateBatch } from './batch.js';
+import type { BatchInput } from './batch.js';
+import { WebhooksService } from '../webhooks/webhooks.service.js';
+import { FilesService } from '../files/files.service.js';
+import { SettingsService } from '../settings/settings.service.js';
 import { randomUUID } from 'crypto';
 import sanitizeFilename from 'sanitize-filename';
+import type { Job, Prisma } from '@prisma/client';
+import type { OutputFile } from '../websocket/websocket.gateway.js';
+import { getMimeType } from '../../shared/mime.js';
+import { ownerScope } from '../../shared/auth/auth-user.js';
+import { scheduledStart } from '../../shared/schedule-window.js';
+import type { AuthUser } from '../../shared/auth/auth-user.js';
+
+// Output file fields exposed by the API; paths on disk stay server-side
+const FILE_SUMMARY = { id: true, filename: true, size: true, mimeType: true } as const;
+
+const JOB_DETAILS = {
+  owner: { select: { username: true } },
+  _count: { select: { children: true } },
+  outputFiles: { select: FILE_SUMMARY, orderBy: { filename: 'asc' } },
+} satisfies Prisma.JobInclude;
+
+// Per-type options persisted as JSON in `jobs.meta`, so a retry re-enqueues the job as submitted
+type StoredJobOptions = Pick<DownloadJobData, 'format' | 'maxHeight' | 'audioOnly' | 'audio' | 'subtitles' | 'archive' | 'twitter' | 'pinterest' | 'startAt' | 'window' | 'maxSpeed' | 'proxy' | 'proxyPool'>;
+
+type JobRecord = ReturnType<DownloadsService['buildJobRecord']>;
+
+interface DeleteJobOptions {
+  // Leave data/{jobId} on disk when the job is purged
+  keepFiles?: boolean;
+  // Cancel an unfinished job instead of refusing to delete it
+  cancel?: boolean;
+  // Skip the trash
+  permanent?: boolean;
+}
+
+interface JobListFilter {
+  status?: string;
+  type?: string;
+  search?: string;
+  parentId?: string;
+}
+
+interface JobRecordContext {
+  allowedHeaders: string[];
+  proxyPools: Set<string>;
+}
+
+const FINISHED_STATUSES = new Set(['completed', 'failed', 'cancelled']);
+
+// How long deleting with cancel=true waits for the workers to let go of the job
+const CANCEL_WAIT_MS = 10_000;
+const CANCEL_POLL_MS = 500;
 
 @Injectable()
 export class DownloadsService {
+  private trashRetentionMs = parseInt(process.env.TRASH_RETENTION_DAYS || '7', 10) * 24 * 3600 * 1000;
+
   constructor(
     private database: DatabaseService,
     private queue: QueueService,
     private logger: Logger,
+    private mediaProbe: MediaProbeService,
+    private webhooks: WebhooksService,
+    private files: FilesService,
+    private settings: SettingsService,
   ) {}
 
-  async createDownload(dto: CreateDownloadDto) {
-    const jobId = randomUUID();
+  async createDownload(dto: CreateDownloadDto, user: AuthUser) {
+    const record = this.buildJobRecord(dto, user, await this.jobRecordContext());
+
+    if (dto.playlist) {
+      return this.createPlaylistDownload(dto, record);
+    }
+
+    // Create job record in database
+    const job = await this.database.job.create({ data: record });
+
+    // Add job to queue
+    await this.queue.addDownloadJob(this.toJobData(job));
+
+    this.logger.info(`Created download job ${job.id} for URL: ${dto.url}`);
+    await this.webhooks.dispatch('job.created', job.id);
+
+    return { jobId: job.id };
+  }
+
+  /**
+   * Create every valid entry of a batch in one insert and one `addBulk`.
+   * Invalid entries are reported per line and do not block the others.
+   */
+  async createBatch(inputs: BatchInput[], user: AuthUser) {
+    if (inputs.length === 0) {
+      throw new BadRequestException('Batch has no entries');
+    }
+    if (inputs.length > BATCH_MAX_ENTRIES) {
+      throw new BadRequestException(`Batch is limited to ${BATCH_MAX_ENTRIES} entries`);
+    }
+
+    const context = await this.jobRecordContext();
+    const records: JobRecord[] = [];
+    const results = validateBatch(inputs).map(entry => {
+      if ('error' in entry) {
+        return { line: entry.line, url: entry.url, error: entry.error };
+      }
+      try {
+        const record = this.buildJobRecord(entry.dto, user, context);
+        records.push(record);
+        return { line: entry.line, url: entry.url, jobId: record.id };
+      } catch (error) {
+        return { line: entry.line, url: entry.url, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    if (records.length > 0) {
+      await this.database.job.createMany({ data: records });
+
+      const jobs = await this.database.job.findMany({
+        where: { id: { in: records.map(record => record.id) } },
+      });
+      const byId = new Map(jobs.map(job => [job.id, job]));
+      await this.queue.addBulk(records.map(record => this.toJobData(byId.get(record.id)!)));
+
+      for (const record of records) {
+        await this.webhooks.dispatch('job.created', record.id);
+      }
+    }
+
+    this.logger.info(`Created ${records.length} of ${results.length} batch download jobs`);
+
+    return {
+      total: results.length,
+      created: records.length,
+      failed: results.length - records.length,
+      results,
+    };
+  }
+
+  // Admin settings a new job is checked against, loaded once per request
+  private async jobRecordContext(): Promise<JobRecordContext> {
+    const [{ allowed }, pools] = await Promise.all([
+      this.settings.getHeaders(),
+      this.database.proxyPool.findMany({ select: { name: true } }),
+    ]);
+    return { allowedHeaders: allowed, proxyPools: new Set(pools.map(pool => pool.name)) };
+  }
 
+  /** Validated row of a new job; throws `BadRequestException` for rejected options. */
+  private buildJobRecord(dto: CreateDownloadDto, user: AuthUser, context: JobRecordContext) {
     // Validate and sanitize filename hint
     let sanitizedFilename: string | undefined;
     if (dto.filenameHint) {
@@ -26,47 +166,119 @@ export class DownloadsService {
       }
     }
 
-    // Validate headers if provided
+    // Validate headers if provided (list set by admins, see SettingsService)
     if (dto.headers?.extra) {
-      const allowedHeaderKeys = ['user-agent', 'referer', 'authorization', 'cookie', 'accept'];
       for (const key of Object.keys(dto.headers.extra)) {
-        if (!allowedHeaderKeys.includes(key.toLowerCase())) {
+        if (!context.allowedHeaders.includes(key.toLowerCase())) {
           throw new BadRequestException(`Header '${key}' is not allowed`);
         }
       }
     }
 
-    // Create job record in database
-    const job = await this.database.job.create({
-      data: {
-        id: jobId,
-        url: dto.url,
-        type: dto.type,
-        status: 'queued',
-        meta: dto.transcode ? JSON.stringify(dto.transcode) : null,
-        headers: dto.headers ? JSON.stringify(dto.headers) : null,
-        filename: sanitizedFilename,
-      },
-    });
+    if (dto.audio && dto.transcode?.to) {
+      throw new BadRequestException('Audio extraction and transcode cannot be combined');
+    }
 
-    // Add job to queue
-    await this.queue.addDownloadJob({
-      jobId,
+    if (dto.proxy && dto.proxyPool) {
+      throw new BadRequestException('Use either proxy or proxyPool');
+    }
+    if (dto.proxyPool && !context.proxyPools.has(dto.proxyPool)) {
+      throw new BadRequestException(`Proxy pool '${dto.proxyPool}' does not exist`);
+    }
+
+    const options: StoredJobOptions = {
+      format: dto.format,
+      maxHeight: dto.maxHeight,
+      audioOnly: dto.audioOnly,
+      audio: dto.audio,
+      subtitles: dto.subtitles,
+      archive: dto.archive,
+      twitter: dto.twitter,
+      pinterest: dto.pinterest,
+      startAt: dto.startAt,
+      window: dto.window,
+      maxSpeed: dto.maxSpeed,
+      proxy: dto.proxy,
+      proxyPool: dto.proxyPool,
+    };
+    const scheduledAt = this.deferredStart(options);
+
+    return {
+      id: randomUUID(),
       url: dto.url,
       type: dto.type,
-      headers: dto.headers,
-      transcode: dto.transcode,
-      filenameHint: sanitizedFilename,
+      status: scheduledAt ? 'scheduled' : 'queued',
+      scheduledAt,
+      priority: dto.priority,
+      meta: JSON.stringify(options),
+      headers: dto.headers ? JSON.stringify(dto.headers) : null,
+      transcode: dto.transcode ? JSON.stringify(dto.transcode) : null,
+      filename: sanitizedFilename ?? null,
+      ownerId: user.id,
+    };
+  }
+
+  // A playlist parent is never queued itself: each entry becomes a child job
+  private async createPlaylistDownload(dto: CreateDownloadDto, record: JobRecord) {
+    if (dto.type !== 'auto' && dto.type !== 'youtube') {
+      throw new BadRequestException('Playlist mode is only available for youtube downloads');
+    }
+
+    const playlist = await this.mediaProbe.listPlaylistEntries(dto.url, dto.playlist!.maxEntries, dto);
+    if (playlist.entries.length === 0) {
+      throw new BadRequestException('Playlist has no downloadable entries');
+    }
+
+    const parentId = record.id;
+    const shared = {
+      type: 'youtube',
+      status: record.status,
+      scheduledAt: record.scheduledAt,
+      priority: record.priority,
+      meta: record.meta,
+      headers: record.headers,
+      transcode: record.transcode,
+      ownerId: record.ownerId,
+    };
+    const children = playlist.entries.map((entry, position) => ({
+      ...shared,
+      id: randomUUID(),
+      url: entry.url,
+      parentId,
+      position,
+      filename: entry.title ? sanitizeFilename(entry.title) || null : null,
+    }));
+
+    await this.database.$transaction([
+      this.database.job.create({
+        data: {
+          ...shared,
+          id: parentId,
+          url: dto.url,
+          filename: record.filename ?? (sanitizeFilename(playlist.title) || null),
+        },
+      }),
+      this.database.job.createMany({ data: children }),
+    ]);
+
+    const childJobs = await this.database.job.findMany({
+      where: { parentId },
+      orderBy: { position: 'asc' },
     });
+    for (const child of childJobs) {
+      await this.queue.addDownloadJob(this.toJobData(child));
+    }
 
-    this.logger.info(`Created download job ${jobId} for URL: ${dto.url}`);
+    this.logger.info(`Created playlist job ${parentId} with ${childJobs.length} entries for URL: ${dto.url}`);
+    await this.webhooks.dispatch('job.created', parentId);
 
-    return { jobId };
+    return { jobId: parentId, childJobIds: childJobs.map(child => child.id) };
   }
 
-  async getDownload(jobId: string) {
-    const job = await this.database.job.findUnique({
-      where: { id: jobId },
+  async getDownload(jobId: string, user: AuthUser) {
+    const job = await this.database.job.findFirst({
+      where: { id: jobId, deletedAt: null, ...ownerScope(user) },
+      include: JOB_DETAILS,
     });
 
     if (!job) {
@@ -78,6 +290,9 @@ export class DownloadsService {
       url: job.url,
       type: job.type,
       status: job.status,
+      scheduledAt: job.scheduledAt,
+      ...this.scheduleOf(job),
+      priority: job.priority,
       stage: job.stage,
       progress: job.progress,
       speed: job.speed,
@@ -88,30 +303,38 @@ export class DownloadsService {
       updatedAt: job.updatedAt,
       errorCode: job.errorCode,
       errorMessage: job.errorMessage,
+      files: this.toFileList(job.outputFiles),
+      hasThumbnail: job.thumbnailPath !== null,
+      pinned: job.pinned,
+      parentId: job.parentId,
+      childCount: job._count.children,
+      owner: job.owner?.username ?? null,
     };
   }
 
-  async listDownloads(page = 1, limit = 20, status?: string, type?: string, search?: string) {
+  async listDownloads(
+    user: AuthUser,
+    page = 1,
+    limit = 20,
+    status?: string,
+    type?: string,
+    search?: string,
+    parentId?: string,
+  ) {
     const skip = (page - 1) * limit;
 
-    const where: any = {};
-
-    if (status) where.status = status;
-    if (type) where.type = type;
-    if (search) {
-      where.OR = [
-        { url: { contains: search } },
-        { filename: { contains: search } },
-      ];
-    }
+    const where = this.listWhere(user, { status, type, search, parentId });
 
     const [jobs, total] = await Promise.all([
-      this.database.job.findMany({
-        where,
-        skip,
-        take: limit,
-        orderBy: { createdAt: 'desc' },
-      }),
+      status === 'queued' && !parentId
+        ? this.findQueuedPage(where, skip, limit)
+        : this.database.job.findMany({
+          where,
+          skip,
+          take: limit,
+          orderBy: parentId ? { position: 'asc' } : { createdAt: 'desc' },
+          include: JOB_DETAILS,
+        }),
       this.database.job.count({ where }),
     ]);
 
@@ -121,6 +344,9 @@ export class DownloadsService {
         url: job.url,
         type: job.type,
         status: job.status,
+        scheduledAt: job.scheduledAt,
+        ...this.scheduleOf(job),
+        priority: job.priority,
         stage: job.stage,
         progress: job.progress,
         speed: job.speed,
@@ -131,6 +357,12 @@ export class DownloadsService {
         updatedAt: job.updatedAt,
         errorCode: job.errorCode,
         errorMessage: job.errorMessage,
+        files: this.toFileList(job.outputFiles),
+        hasThumbnail: job.thumbnailPath !== null,
+        pinned: job.pinned,
+        parentId: job.parentId,
+        childCount: job._count.children,
+        owner: job.owner?.username ?? null,
       })),
       pagination: {
         page,
@@ -141,102 +373,405 @@ export class DownloadsService {
     };
   }
 
-  async cancelDownload(jobId: string) {
-    const job = await this.database.job.findUnique({
-      where: { id: jobId },
+  // Queued jobs are listed in the order workers pick them up, a playlist at its first waiting entry
+  private async findQueuedPage(where: Prisma.JobWhereInput, skip: number, limit: number) {
+    const waiting = await this.queue.getWaitingJobs();
+    const rank = new Map(waiting.map((job, index) => [job.id, index]));
+
+    const candidates = await this.database.job.findMany({
+      where,
+      select: { id: true, createdAt: true, children: { where: { status: 'queued' }, select: { id: true } } },
     });
+    const pageIds = candidates
+      .map(candidate => ({
+        id: candidate.id,
+        createdAt: candidate.createdAt,
+        rank: Math.min(...[candidate, ...candidate.children].map(entry => rank.get(entry.id) ?? Infinity)),
+      }))
+      // Jobs missing from the queue (being picked up) go last; Infinity - Infinity is NaN, hence `||`
+      .sort((a, b) => (a.rank - b.rank) || a.createdAt.getTime() - b.createdAt.getTime())
+      .slice(skip, skip + limit)
+      .map(candidate => candidate.id);
 
-    if (!job) {
-      throw new NotFoundException('Job not found');
+    const jobs = await this.database.job.findMany({
+      where: { id: { in: pageIds } },
+      include: JOB_DETAILS,
+    });
+    const byId = new Map(jobs.map(job => [job.id, job]));
+    return pageIds.flatMap(id => byId.get(id) ?? []);
+  }
+
+  // Playlist entries are listed under their parent, top-level jobs otherwise
+  private listWhere(user: AuthUser, filter: JobListFilter): Prisma.JobWhereInput {
+    const where: Prisma.JobWhereInput = { parentId: filter.parentId ?? null, deletedAt: null, ...ownerScope(user) };
+
+    if (filter.status) where.status = filter.status;
+    if (filter.type) where.type = filter.type;
+    if (filter.search) {
+      where.OR = [
+        { url: { contains: filter.search } },
+        { filename: { contains: filter.search } },
+      ];
+    }
+
+    return where;
+  }
+
+  /**
+   * Apply one action to several jobs, one after the other. Each job gets its
+   * own outcome: a job that cannot take the action does not stop the others.
+   */
+  async applyBulkAction(dto: BulkActionDto, user: AuthUser) {
+    const jobIds = dto.jobIds ?? await this.bulkFilterJobIds(user, dto.filter ?? {});
+
+    const results: Array<{ jobId: string; success: boolean; error?: string }> = [];
+    for (const jobId of jobIds) {
+      try {
+        if (dto.action === 'cancel') await this.cancelDownload(jobId, user);
+        else if (dto.action === 'retry') await this.retryDownload(jobId, user);
+        else await this.deleteDownload(jobId, user);
+        results.push({ jobId, success: true });
+      } catch (error) {
+        results.push({ jobId, success: false, error: error instanceof Error ? error.message : String(error) });
+      }
     }
 
-    if (job.status === 'completed') {
-      throw new BadRequestException('Cannot cancel completed job');
+    const succeeded = results.filter(result => result.success).length;
+    this.logger.info(`Bulk ${dto.action} by ${user.username}: ${succeeded}/${results.length} jobs`);
+
+    return {
+      action: dto.action,
+      total: results.length,
+      succeeded,
+      failed: results.length - succeeded,
+      results,
+    };
+  }
+
+  // Refused rather than truncated: acting on part of "every matching job" would look like a success
+  private async bulkFilterJobIds(user: AuthUser, filter: JobListFilter) {
+    const where = this.listWhere(user, filter);
+    const matching = await this.database.job.count({ where });
+    if (matching > BULK_ACTION_MAX_JOBS) {
+      throw new BadRequestException(`${matching} jobs match the filter, a bulk action takes ${BULK_ACTION_MAX_JOBS} at most; narrow the filter`);
+    }
+
+    const jobs = await this.database.job.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: BULK_ACTION_MAX_JOBS,
+      select: { id: true },
+    });
+    return jobs.map(job => job.id);
+  }
+
+  async cancelDownload(jobId: string, user: AuthUser) {
+    const job = await this.findJob(jobId, user);
+
+    if (job.status === 'completed' || job.status === 'cancelled') {
+      throw new BadRequestException(`Cannot cancel ${job.status} job`);
+    }
+
+    const children = await this.findChildren(jobId);
+    if (children.length > 0) {
+      for (const child of children) {
+        if (child.status === 'completed' || child.status === 'cancelled') continue;
+        await this.cancelDownload(child.id, user);
+      }
+      await this.refreshParent(jobId);
+      this.logger.info(`Cancelled playlist job ${jobId}`);
+      return;
+    }
+
+    // A job held by a worker is stopped there; the worker reports 'cancelled'
+    // once its subprocesses are killed and tmp/{jobId} is cleaned
+    const state = await this.queue.getJobState(jobId);
+    if (state === 'active') {
+      await this.queue.cancelJob(jobId);
+      this.logger.info(`Requested cancellation of job ${jobId}`);
+      return;
     }
 
     // Remove from queue
     await this.queue.removeJob(jobId);
 
-    // Update database
-    await this.database.job.update({
-      where: { id: jobId },
-      data: {
-        status: 'cancelled',
-        stage: null,
-      },
-    });
+    await this.setJobCancelled(jobId);
+    if (job.parentId) await this.refreshParent(job.parentId);
+    await this.webhooks.dispatch('job.cancelled', jobId);
 
     this.logger.info(`Cancelled job ${jobId}`);
   }
 
-  async pauseDownload(jobId: string) {
-    const job = await this.database.job.findUnique({
-      where: { id: jobId },
+  /**
+   * Move a job and its playlist entries to the trash, where it can be
+   * restored until purged. Unfinished jobs are refused unless `cancel` is set;
+   * `permanent` purges right away.
+   */
+  async deleteDownload(jobId: string, user: AuthUser, options: DeleteJobOptions = {}) {
+    const job = await this.findJob(jobId, user);
+    const children = await this.findChildren(jobId);
+
+    if ([job, ...children].some(entry => !FINISHED_STATUSES.has(entry.status))) {
+      if (!options.cancel) {
+        throw new BadRequestException('Job is not finished; cancel it first or delete with cancel=true');
+      }
+      await this.cancelDownload(jobId, user);
+      // Purging a job its worker still holds fails in BullMQ and deletes files under the running process
+      await this.waitUntilReleased([jobId, ...children.map(child => child.id)]);
+    }
+
+    if (options.permanent) {
+      await this.purgeJob(jobId, options.keepFiles ?? false);
+      this.logger.info(`Deleted job ${jobId} permanently`);
+    } else {
+      await this.database.job.updateMany({
+        where: { id: { in: [jobId, ...children.map(child => child.id)] } },
+        data: { deletedAt: new Date(), keepFiles: options.keepFiles ?? false },
+      });
+      this.logger.info(`Moved job ${jobId} to trash`);
+    }
+
+    if (job.parentId) await this.refreshParent(job.parentId);
+  }
+
+  async listTrash(user: AuthUser, page = 1, limit = 20) {
+    // Entries of a trashed playlist are restored with it, so only the playlist is listed
+    const where: Prisma.JobWhereInput = {
+      deletedAt: { not: null },
+      OR: [{ parentId: null }, { parent: { deletedAt: null } }],
+      ...ownerScope(user),
+    };
+
+    const [jobs, total] = await Promise.all([
+      this.database.job.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { deletedAt: 'desc' },
+        include: {
+          owner: { select: { username: true } },
+          _count: { select: { children: true } },
+        },
+      }),
+      this.database.job.count({ where }),
+    ]);
+
+    return {
+      jobs: jobs.map(job => ({
+        jobId: job.id,
+        url: job.url,
+        type: job.type,
+        status: job.status,
+        filename: job.filename,
+        totalBytes: job.totalBytes?.toString(),
+        createdAt: job.createdAt,
+        deletedAt: job.deletedAt,
+        purgeAt: new Date(job.deletedAt!.getTime() + this.trashRetentionMs),
+        keepFiles: job.keepFiles,
+        parentId: job.parentId,
+        childCount: job._count.children,
+        owner: job.owner?.username ?? null,
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async restoreDownload(jobId: string, user: AuthUser) {
+    const job = await this.database.job.findFirst({
+      where: { id: jobId, deletedAt: { not: null }, ...ownerScope(user) },
+      include: { parent: { select: { deletedAt: true } } },
     });
 
     if (!job) {
-      throw new NotFoundException('Job not found');
+      throw new NotFoundException('Job not found in trash');
     }
 
-    if (job.status !== 'running') {
-      throw new BadRequestException('Can only pause running jobs');
+    if (job.parent?.deletedAt) {
+      throw new BadRequestException('Restore the playlist this entry belongs to');
     }
 
-    await this.queue.pauseJob(jobId);
+    await this.database.job.updateMany({
+      where: { OR: [{ id: jobId }, { parentId: jobId }] },
+      data: { deletedAt: null, keepFiles: false },
+    });
+    if (job.parentId) await this.refreshParent(job.parentId);
+
+    this.logger.info(`Restored job ${jobId} from trash`);
+  }
+
+  /** Exempt a job (and its playlist entries) from the retention cleanup, or lift it. */
+  async setPinned(jobId: string, pinned: boolean, user: AuthUser) {
+    await this.findJob(jobId, user);
 
     await this.database.job.update({
       where: { id: jobId },
-      data: { status: 'paused' },
+      data: { pinned },
     });
 
-    this.logger.info(`Paused job ${jobId}`);
+    this.logger.info(`${pinned ? 'Pinned' : 'Unpinned'} job ${jobId}`);
   }
 
-  async resumeDownload(jobId: string) {
-    const job = await this.database.job.findUnique({
-      where: { id: jobId },
+  /**
+   * Purge jobs trashed for longer than `TRASH_RETENTION_DAYS`; run by the
+   * cleanup job. A dry run only counts them.
+   */
+  async purgeTrash(dryRun = false) {
+    const expired = await this.database.job.findMany({
+      where: { deletedAt: { lt: new Date(Date.now() - this.trashRetentionMs) } },
+      select: { id: true, keepFiles: true },
     });
 
-    if (!job) {
-      throw new NotFoundException('Job not found');
+    if (dryRun) {
+      return { purged: expired.length };
+    }
+
+    for (const job of expired) {
+      try {
+        await this.purgeJob(job.id, job.keepFiles);
+      } catch (error) {
+        this.logger.warn(`Failed to purge job ${job.id}:`, error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    if (expired.length > 0) {
+      this.logger.info(`Purged ${expired.length} jobs from trash`);
     }
 
+    return { purged: expired.length };
+  }
+
+  /** Waits for workers to stop cancelled jobs; 409 when one is still active after `CANCEL_WAIT_MS`. */
+  private async waitUntilReleased(jobIds: string[]) {
+    const deadline = Date.now() + CANCEL_WAIT_MS;
+    for (;;) {
+      const states = await Promise.all(jobIds.map(id => this.queue.getJobState(id)));
+      if (!states.includes('active')) return;
+      if (Date.now() >= deadline) {
+        throw new ConflictException('Job is still being cancelled by its worker; try again shortly');
+      }
+      await new Promise(resolve => setTimeout(resolve, CANCEL_POLL_MS));
+    }
+  }
+
+  // Hard delete of the row, its entries (cascade), their queue entries and, unless kept, DATA_DIR/{jobId}
+  private async purgeJob(jobId: string, keepFiles: boolean) {
+    const children = await this.database.job.findMany({
+      where: { parentId: jobId },
+      select: { id: true },
+    });
+    const jobIds = [jobId, ...children.map(child => child.id)];
+
+    for (const id of jobIds) {
+      await this.queue.removeJob(id);
+    }
+    if (!keepFiles) {
+      await this.files.removeJobData(jobIds);
+    }
+
+    // deleteMany: an entry may already be gone with its purged playlist
+    await this.database.job.deleteMany({ where: { id: jobId } });
+  }
+
+  async pauseDownload(jobId: string, user: AuthUser) {
+    const job = await this.findJob(jobId, user);
+
+    if (job.status !== 'running') {
+      throw new BadRequestException('Can only pause running jobs');
+    }
+
+    await this.assertNotPlaylist(jobId);
+
+    await this.assertJobActive(jobId);
+
+    // The worker persists the 'paused' status once the transfer is suspended
+    await this.queue.pauseJob(jobId);
+
+    this.logger.info(`Requested pause of job ${jobId}`);
+  }
+
+  async resumeDownload(jobId: string, user: AuthUser) {
+    const job = await this.findJob(jobId, user);
+
     if (job.status !== 'paused') {
       throw new BadRequestException('Can only resume paused jobs');
     }
 
-    await this.queue.resumeJob(jobId);
+    await this.assertNotPlaylist(jobId);
 
-    await this.database.job.update({
-      where: { id: jobId },
-      data: { status: 'queued' },
-    });
+    await this.assertJobActive(jobId);
+
+    // The worker persists the 'running' status once the transfer continues
+    await this.queue.resumeJob(jobId);
 
-    this.logger.info(`Resumed job ${jobId}`);
+    this.logger.info(`Requested resume of job ${jobId}`);
   }
 
-  async retryDownload(jobId: string) {
-    const job = await this.database.job.findUnique({
-      where: { id: jobId },
+  // Jobs of other users are reported as missing rather than forbidden
+  private async findJob(jobId: string, user: AuthUser) {
+    const job = await this.database.job.findFirst({
+      where: { id: jobId, deletedAt: null, ...ownerScope(user) },
     });
 
     if (!job) {
       throw new NotFoundException('Job not found');
     }
 
+    return job;
+  }
+
+  /** Whether the caller may follow the job, e.g. to join its WebSocket room. */
+  async canAccessJob(jobId: string, user: AuthUser) {
+    const count = await this.database.job.count({ where: { id: jobId, deletedAt: null, ...ownerScope(user) } });
+    return count > 0;
+  }
+
+  private async assertJobActive(jobId: string) {
+    const state = await this.queue.getJobState(jobId);
+    if (state !== 'active') {
+      throw new BadRequestException('Job is not being processed by a worker');
+    }
+  }
+
+  // Playlist entries run independently, so they are paused and resumed one by one
+  private async assertNotPlaylist(jobId: string) {
+    const childCount = await this.database.job.count({ where: { parentId: jobId } });
+    if (childCount > 0) {
+      throw new BadRequestException('Pause or resume playlist entries individually');
+    }
+  }
+
+  async retryDownload(jobId: string, user: AuthUser) {
+    const job = await this.findJob(jobId, user);
+
     if (job.status !== 'failed' && job.status !== 'cancelled') {
       throw new BadRequestException('Can only retry failed or cancelled jobs');
     }
 
-    // Parse stored metadata
-    const transcode = job.meta ? JSON.parse(job.meta) : undefined;
-    const headers = job.headers ? JSON.parse(job.headers) : undefined;
+    const children = await this.findChildren(jobId);
+    if (children.length > 0) {
+      for (const child of children) {
+        if (child.status === 'failed' || child.status === 'cancelled') {
+          await this.retryDownload(child.id, user);
+        }
+      }
+      this.logger.info(`Retrying playlist job ${jobId}`);
+      return;
+    }
+
+    // A past startAt no longer defers the job, its window still does
+    const scheduledAt = this.deferredStart(this.toJobData(job));
 
     // Reset job status in database
     await this.database.job.update({
       where: { id: jobId },
       data: {
-        status: 'queued',
+        status: scheduledAt ? 'scheduled' : 'queued',
+        scheduledAt,
         progress: 0,
         stage: null,
         speed: null,
@@ -247,17 +782,224 @@ export class DownloadsService {
       },
     });
 
-    // Re-add job to queue
-    await this.queue.addDownloadJob({
-      jobId,
+    // The finished BullMQ job keeps its id in Redis (removeOnFail, cancelled jobs complete),
+    // and BullMQ ignores an add with an existing id
+    await this.queue.removeJob(jobId);
+    await this.queue.addDownloadJob(this.toJobData(job));
+    if (job.parentId) await this.refreshParent(job.parentId);
+
+    this.logger.info(`Retrying job ${jobId}`);
+  }
+
+  /**
+   * Change the start time or window of jobs that have not started yet. The
+   * queued entries of a playlist are rescheduled together.
+   */
+  async rescheduleDownload(jobId: string, dto: RescheduleDto, user: AuthUser) {
+    const job = await this.findJob(jobId, user);
+
+    if (job.status !== 'queued' && job.status !== 'scheduled') {
+      throw new BadRequestException('Can only reschedule jobs that have not started');
+    }
+
+    const children = await this.findChildren(jobId);
+    const pending = children.length > 0
+      ? children.filter(child => child.status === 'queued' || child.status === 'scheduled')
+      : [job];
+
+    for (const entry of pending) {
+      // The queue entry is replaced; one already picked up by a worker is left alone
+      const state = await this.queue.getJobState(entry.id);
+      if (state === 'active') {
+        if (children.length === 0) {
+          throw new BadRequestException('Job has already started');
+        }
+        continue;
+      }
+
+      const updated = await this.applySchedule(entry, dto);
+      await this.queue.removeJob(entry.id);
+      await this.queue.addDownloadJob(this.toJobData(updated));
+    }
+
+    if (children.length > 0) {
+      await this.applySchedule(job, dto);
+      await this.refreshParent(jobId);
+    } else if (job.parentId) {
+      await this.refreshParent(job.parentId);
+    }
+
+    this.logger.info(`Rescheduled job ${jobId}`);
+    return this.getDownload(jobId, user);
+  }
+
+  /**
+   * Change the priority of a job that has not started, or move it to the top
+   * of the queue or next to another waiting job. The waiting entries of a
+   * playlist move together, in order.
+   */
+  async changePriority(jobId: string, dto: ChangePriorityDto, user: AuthUser) {
+    const job = await this.findJob(jobId, user);
+
+    if (job.status !== 'queued' && job.status !== 'scheduled') {
+      throw new BadRequestException('Can only reprioritize jobs that have not started');
+    }
+
+    const children = await this.findChildren(jobId);
+    const entries = (children.length > 0 ? children : [job])
+      .filter(entry => entry.status === 'queued' || entry.status === 'scheduled');
+
+    let priority: number;
+    if (dto.priority !== undefined) {
+      priority = dto.priority;
+      for (const entry of entries) {
+        await this.queue.changePriority(entry.id, priority);
+      }
+    } else if (dto.position === 'top') {
+      priority = HIGHEST_PRIORITY;
+      // Each entry is pushed to the front, so the last one goes first
+      for (const entry of [...entries].reverse()) {
+        await this.queue.changePriority(entry.id, priority, true);
+      }
+    } else {
+      const targetId = (dto.before ?? dto.after)!;
+      priority = await this.placeNextTo(entries, targetId, dto.before ? 'before' : 'after', user);
+    }
+
+    await this.database.job.updateMany({
+      where: { id: { in: [jobId, ...entries.map(entry => entry.id)] } },
+      data: { priority },
+    });
+
+    this.logger.info(`Changed priority of job ${jobId} to ${priority}`);
+    return this.getDownload(jobId, user);
+  }
+
+  /**
+   * Place `entries` just before or after the waiting job `targetId`. They take
+   * its priority and go behind the jobs of that priority, then the jobs that
+   * must come after them are pushed behind again, keeping their order.
+   */
+  private async placeNextTo(entries: Job[], targetId: string, side: 'before' | 'after', user: AuthUser) {
+    const target = await this.findJob(targetId, user);
+    const targetChildren = await this.findChildren(targetId);
+    const targetIds = new Set((targetChildren.length > 0 ? targetChildren : [target]).map(entry => entry.id));
+    const movedIds = new Set(entries.map(entry => entry.id));
+
+    const waiting = await this.queue.getWaitingJobs();
+    const positions = waiting.flatMap((queued, index) => (targetIds.has(queued.id!) ? [index] : []));
+    if (positions.length === 0) {
+      throw new BadRequestException('Target job is not waiting in the queue');
+    }
+
+    const anchor = side === 'before' ? Math.min(...positions) : Math.max(...positions);
+    if (movedIds.has(waiting[anchor].id!)) {
+      throw new BadRequestException('Cannot move a job next to itself');
+    }
+
+    const priority = waiting[anchor].priority;
+    const followers = waiting
+      .slice(side === 'before' ? anchor : anchor + 1)
+      .filter(queued => queued.priority === priority && !movedIds.has(queued.id!));
+
+    for (const entry of entries) {
+      await this.queue.changePriority(entry.id, priority);
+    }
+    for (const follower of followers) {
+      await this.queue.changePriority(follower.id!, priority);
+    }
+
+    return priority;
+  }
+
+  // Persist the new startAt/window of a job and the status they imply
+  private async applySchedule(job: Job, dto: RescheduleDto) {
+    const options = job.meta ? JSON.parse(job.meta) as StoredJobOptions : {};
+    if (dto.startAt !== undefined) options.startAt = dto.startAt ?? undefined;
+    if (dto.window !== undefined) options.window = dto.window ?? undefined;
+
+    const scheduledAt = this.deferredStart(options);
+    return this.database.job.update({
+      where: { id: job.id },
+      data: {
+        meta: JSON.stringify(options),
+        status: scheduledAt ? 'scheduled' : 'queued',
+        scheduledAt,
+      },
+    });
+  }
+
+  // Requested start and window, as submitted
+  private scheduleOf(job: Job) {
+    const options = job.meta ? JSON.parse(job.meta) as StoredJobOptions : {};
+    return { startAt: options.startAt ?? null, window: options.window ?? null };
+  }
+
+  // Start of a deferred job, null when it may start right away
+  private deferredStart(options: Pick<StoredJobOptions, 'startAt' | 'window'>) {
+    const now = new Date();
+    const start = scheduledStart(options.startAt ? new Date(options.startAt) : null, options.window, now);
+    return start > now ? start : null;
+  }
+
+  // Rebuild the queue payload from a persisted job row
+  private toJobData(job: Job): DownloadJobData {
+    const meta = job.meta ? JSON.parse(job.meta) as StoredJobOptions & { to?: string } : {};
+    // Rows created before options were stored kept the transcode settings in `meta`
+    const transcode = job.transcode ? JSON.parse(job.transcode) : (meta.to ? meta : undefined);
+
+    return {
+      ...meta,
+      jobId: job.id,
       url: job.url,
-      type: job.type as any,
-      headers,
+      type: job.type as DownloadJobData['type'],
+      headers: job.headers ? JSON.parse(job.headers) : undefined,
       transcode,
       filenameHint: job.filename || undefined,
+      priority: job.priority,
+    };
+  }
+
+  private findChildren(parentId: string) {
+    return this.database.job.findMany({
+      where: { parentId, deletedAt: null },
+      orderBy: { position: 'asc' },
     });
+  }
 
-    this.logger.info(`Retrying job ${jobId}`);
+  /**
+   * Recompute the playlist parent of a job after the job changed.
+   * Returns the parent state to relay to UI clients, or null for standalone jobs.
+   */
+  async refreshParentOf(jobId: string) {
+    const job = await this.database.job.findUnique({
+      where: { id: jobId },
+      select: { parentId: true },
+    });
+    return job?.parentId ? this.refreshParent(job.parentId) : null;
+  }
+
+  private async refreshParent(parentId: string) {
+    const children = await this.database.job.findMany({
+      where: { parentId, deletedAt: null },
+      select: { status: true, progress: true },
+    });
+    const state = aggregateChildJobs(children);
+
+    await this.database.job.update({
+      where: { id: parentId },
+      data: {
+        ...state,
+        stage: state.status === 'completed' ? 'completed' : null,
+        updatedAt: new Date(),
+      },
+    });
+
+    return { jobId: parentId, ...state };
+  }
+
+  private toFileList(files: Array<{ id: string; filename: string; size: bigint; mimeType: string }>) {
+    return files.map(file => ({ ...file, size: Number(file.size) }));
   }
 
   async updateJobProgress(
@@ -293,18 +1035,64 @@ export class DownloadsService {
     });
   }
 
-  async setJobCompleted(jobId: string, filename: string, outputPath: string, fileSize?: number) {
+  // A worker picked the job up outside its window and delayed it again
+  async setJobScheduled(jobId: string, scheduledAt: Date) {
+    await this.database.job.update({
+      where: { id: jobId },
+      data: { status: 'scheduled', scheduledAt, updatedAt: new Date() },
+    });
+  }
+
+  async setJobCancelled(jobId: string) {
     await this.database.job.update({
       where: { id: jobId },
       data: {
-        status: 'completed',
-        filename,
-        outputPath,
-        totalBytes: fileSize ? BigInt(fileSize) : undefined,
-        progress: 100,
-        stage: 'completed',
+        status: 'cancelled',
+        stage: null,
+        speed: null,
+        eta: null,
         updatedAt: new Date(),
       },
     });
   }
-}
\ No newline at end of file
+
+  async setJobCompleted(
+    jobId: string,
+    filename: string,
+    outputPath: string,
+    fileSize?: number,
+    files?: OutputFile[],
+    thumbnailPath?: string,
+  ) {
+    // Workers that predate file reporting only send the main output
+    const outputFiles: Array<Omit<OutputFile, 'sha256'> & { sha256: string | null }> =
+      files ?? [{ filename, outputPath, size: fileSize ?? 0, mimeType: getMimeType(outputPath), sha256: null }];
+
+    await this.database.$transaction([
+      this.database.jobFile.deleteMany({ where: { jobId } }),
+      this.database.jobFile.createMany({
+        data: outputFiles.map(file => ({
+          jobId,
+          filename: file.filename,
+          path: file.outputPath,
+          size: BigInt(file.size),
+          mimeType: file.mimeType,
+          sha256: file.sha256,
+        })),
+      }),
+      this.database.job.update({
+        where: { id: jobId },
+        data: {
+          status: 'completed',
+          filename,
+          outputPath,
+          thumbnailPath: thumbnailPath ?? null,
+          totalBytes: fileSize ? BigInt(fileSize) : undefined,
+          progress: 100,
+          stage: 'completed',
+          updatedAt: new Date(),
+        },
+      }),
+    ]);
+  }
+}
@@ -0,0 +1,202 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { execa } from 'execa';
+import { Logger } from '../../shared/logger.service.js';
+import { DatabaseService } from '../../shared/database.service.js';
+import { QueueService } from '../../shared/queue.service.js';
+import type { DownloadJobData } from '../../shared/queue.service.js';
+import { parseYtDlpErrorCode } from '../../workers/ytdlp-downloader.js';
+import { ProxySelector } from '../../workers/proxy-selector.js';
+import { proxySecrets, redactError } from '../../workers/command-log.js';
+
+export interface ProbeFormat {
+  formatId: string;
+  ext: string;
+  resolution?: string;
+  height?: number;
+  fps?: number;
+  vcodec?: string;
+  acodec?: string;
+  filesize?: number;
+  tbr?: number;
+  note?: string;
+  hasVideo: boolean;
+  hasAudio: boolean;
+}
+
+/** Proxy options of the job a probe or a playlist listing is made for. */
+export type ProbeProxyOptions = Pick<DownloadJobData, 'proxy' | 'proxyPool'>;
+
+export interface ProbeResult {
+  title: string;
+  duration?: number;
+  thumbnail?: string;
+  uploader?: string;
+  formats: ProbeFormat[];
+}
+
+// Subset of the `yt-dlp -J` output we rely on
+interface YtDlpFormatInfo {
+  format_id: string;
+  ext: string;
+  resolution?: string | null;
+  height?: number | null;
+  fps?: number | null;
+  vcodec?: string | null;
+  acodec?: string | null;
+  filesize?: number | null;
+  filesize_approx?: number | null;
+  tbr?: number | null;
+  format_note?: string | null;
+}
+
+export interface YtDlpInfo {
+  title?: string;
+  duration?: number | null;
+  thumbnail?: string | null;
+  uploader?: string | null;
+  channel?: string | null;
+  formats?: YtDlpFormatInfo[];
+}
+
+export interface PlaylistEntry {
+  url: string;
+  title?: string;
+  // Extractor id (YouTube video id, pin id...)
+  id?: string;
+}
+
+export interface PlaylistResult {
+  title: string;
+  entries: PlaylistEntry[];
+}
+
+// Subset of the `yt-dlp --flat-playlist -J` output
+export interface YtDlpPlaylistInfo {
+  _type?: string;
+  title?: string | null;
+  entries?: Array<{
+    id?: string | null;
+    url?: string | null;
+    webpage_url?: string | null;
+    ie_key?: string | null;
+    title?: string | null;
+  } | null>;
+}
+
+const hasCodec = (codec?: string | null) => Boolean(codec && codec !== 'none');
+
+/**
+ * Reduce yt-dlp's JSON dump to what the format picker needs.
+ * Storyboards are dropped; formats are sorted best first.
+ */
+export function summarizeYtDlpInfo(info: YtDlpInfo): ProbeResult {
+  const formats = (info.formats ?? [])
+    .filter(f => f.ext !== 'mhtml' && !(f.format_note ?? '').includes('storyboard'))
+    .map<ProbeFormat>(f => ({
+      formatId: f.format_id,
+      ext: f.ext,
+      resolution: f.resolution ?? undefined,
+      height: f.height ?? undefined,
+      fps: f.fps ?? undefined,
+      vcodec: hasCodec(f.vcodec) ? f.vcodec! : undefined,
+      acodec: hasCodec(f.acodec) ? f.acodec! : undefined,
+      filesize: f.filesize ?? f.filesize_approx ?? undefined,
+      tbr: f.tbr ?? undefined,
+      note: f.format_note ?? undefined,
+      hasVideo: hasCodec(f.vcodec),
+      hasAudio: hasCodec(f.acodec),
+    }))
+    .sort((a, b) => (b.height ?? 0) - (a.height ?? 0) || (b.tbr ?? 0) - (a.tbr ?? 0));
+
+  return {
+    title: info.title ?? 'Untitled',
+    duration: info.duration ?? undefined,
+    thumbnail: info.thumbnail ?? undefined,
+    uploader: info.uploader ?? info.channel ?? undefined,
+    formats,
+  };
+}
+
+/**
+ * Turn a flat playlist dump into downloadable entry URLs. YouTube flat entries
+ * may only carry a video id, which is expanded to a watch URL.
+ */
+export function extractPlaylistEntries(info: YtDlpPlaylistInfo): PlaylistResult {
+  const entries: PlaylistEntry[] = [];
+  for (const entry of info.entries ?? []) {
+    if (!entry) continue;
+    let url = entry.webpage_url ?? entry.url ?? undefined;
+    if (url && !/^https?:\/\//i.test(url)) url = undefined;
+    if (!url && entry.id && entry.ie_key === 'Youtube') {
+      url = `https://www.youtube.com/watch?v=${entry.id}`;
+    }
+    if (!url) continue;
+    entries.push({ url, title: entry.title ?? undefined, id: entry.id ?? undefined });
+  }
+
+  return { title: info.title ?? 'Playlist', entries };
+}
+
+@Injectable()
+export class MediaProbeService {
+  private ytdlpPath: string;
+
+  constructor(
+    private logger: Logger,
+    private database: DatabaseService,
+    private queue: QueueService,
+  ) {
+    this.ytdlpPath = process.env.YTDLP_PATH || 'yt-dlp';
+  }
+
+  async probe(url: string, proxyOptions: ProbeProxyOptions = {}): Promise<ProbeResult> {
+    const proxy = await this.resolveProxy(url, proxyOptions);
+    const info = await this.dumpJson<YtDlpInfo>(['-J', '--no-playlist', '--no-warnings', url], proxy);
+    return summarizeYtDlpInfo(info);
+  }
+
+  async listPlaylistEntries(url: string, maxEntries: number, proxyOptions: ProbeProxyOptions = {}): Promise<PlaylistResult> {
+    const proxy = await this.resolveProxy(url, proxyOptions);
+    const info = await this.dumpJson<YtDlpPlaylistInfo>([
+      '--flat-playlist', '-J', '--no-warnings',
+      '--playlist-end', String(maxEntries),
+      url,
+    ], proxy);
+    if (info._type !== 'playlist') {
+      throw new BadRequestException('URL is not a playlist or channel');
+    }
+    return extractPlaylistEntries(info);
+  }
+
+  // Same proxy as the job would get: its own or a healthy member of its pool
+  private async resolveProxy(url: string, options: ProbeProxyOptions): Promise<string | undefined> {
+    if (options.proxy && options.proxyPool) {
+      throw new BadRequestException('Use either proxy or proxyPool');
+    }
+    try {
+      const proxy = await new ProxySelector(this.queue.getRedis(), this.database).select({ url, proxy: options.proxy, proxyPool: options.proxyPool });
+      return proxy?.url;
+    } catch (error) {
+      if (error instanceof Error && 'code' in error && error.code === 'PROXY_UNAVAILABLE') {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
+  }
+
+  private async dumpJson<T>(args: string[], proxy?: string): Promise<T> {
+    try {
+      const { stdout } = await execa(this.ytdlpPath, proxy ? ['--proxy', proxy, ...args] : args, {
+        timeout: parseInt(process.env.PROBE_TIMEOUT || '60000'),
+      });
+      return JSON.parse(stdout) as T;
+    } catch (error) {
+      redactError(error, proxySecrets(proxy));
+      const stderr = error && typeof error === 'object' && 'stderr' in error ? String(error.stderr) : '';
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`yt-dlp probe failed: ${message}`);
+      const code = parseYtDlpErrorCode(stderr);
+      throw new BadRequestException(code ? `Probe failed: ${code}` : 'Probe failed: unsupported or unreachable URL');
+    }
+  }
+}
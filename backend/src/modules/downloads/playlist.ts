@@ -0,0 +1,75 @@
+export interface ChildJobState {
+  status: string;
+  progress: number;
+}
+
+export interface ParentJobState {
+  status: 'queued' | 'scheduled' | 'running' | 'completed' | 'failed' | 'cancelled';
+  progress: number;
+  errorCode: string | null;
+  errorMessage: string | null;
+}
+
+const TERMINAL_STATUSES = new Set(['completed', 'failed', 'cancelled']);
+
+/**
+ * Derive the state of a playlist parent from its child jobs. Progress is the
+ * mean over entries, finished entries counting as done whatever their outcome;
+ * the parent only fails once every entry is settled and at least one failed.
+ */
+export function aggregateChildJobs(children: ChildJobState[]): ParentJobState {
+  if (children.length === 0) {
+    return { status: 'completed', progress: 100, errorCode: null, errorMessage: null };
+  }
+
+  let progressSum = 0;
+  let settled = 0;
+  let failed = 0;
+  let cancelled = 0;
+  let started = false;
+  let scheduled = 0;
+
+  for (const child of children) {
+    if (TERMINAL_STATUSES.has(child.status)) {
+      progressSum += 100;
+      settled++;
+      if (child.status === 'failed') failed++;
+      if (child.status === 'cancelled') cancelled++;
+    } else {
+      progressSum += child.progress;
+      if (child.status === 'scheduled') scheduled++;
+      else if (child.status !== 'queued') started = true;
+    }
+  }
+
+  const progress = Math.round((progressSum / children.length) * 10) / 10;
+
+  if (settled < children.length) {
+    return {
+      status: started || settled > 0 ? 'running' : scheduled === children.length ? 'scheduled' : 'queued',
+      progress,
+      errorCode: null,
+      errorMessage: null,
+    };
+  }
+
+  if (failed > 0) {
+    return {
+      status: 'failed',
+      progress,
+      errorCode: 'PLAYLIST_ENTRIES_FAILED',
+      errorMessage: `${failed} of ${children.length} entries failed`,
+    };
+  }
+
+  if (cancelled === children.length) {
+    return { status: 'cancelled', progress, errorCode: null, errorMessage: null };
+  }
+
+  return {
+    status: 'completed',
+    progress,
+    errorCode: null,
+    errorMessage: cancelled > 0 ? `${cancelled} of ${children.length} entries cancelled` : null,
+  };
+}
@@ -0,0 +1,82 @@
+import {
+  buildMultipartRanges,
+  computeEtag,
+  isIfRangeFresh,
+  isNotModified,
+  parseRange,
+} from '../http-range.js';
+
+describe('parseRange', () => {
+  test('plage simple, ouverte et suffixe', () => {
+    expect(parseRange('bytes=0-499', 1000)).toEqual([{ start: 0, end: 499 }]);
+    expect(parseRange('bytes=500-', 1000)).toEqual([{ start: 500, end: 999 }]);
+    expect(parseRange('bytes=-200', 1000)).toEqual([{ start: 800, end: 999 }]);
+    expect(parseRange('bytes=-5000', 1000)).toEqual([{ start: 0, end: 999 }]);
+  });
+
+  test('borne la fin à la taille du fichier', () => {
+    expect(parseRange('bytes=900-5000', 1000)).toEqual([{ start: 900, end: 999 }]);
+  });
+
+  test('trie et fusionne les plages qui se chevauchent', () => {
+    expect(parseRange('bytes=500-599, 0-99, 50-149, 150-199', 1000)).toEqual([
+      { start: 0, end: 199 },
+      { start: 500, end: 599 },
+    ]);
+  });
+
+  test('ignore un en-tête absent, mal formé ou d’une autre unité', () => {
+    expect(parseRange(undefined, 1000)).toBeNull();
+    expect(parseRange('items=0-1', 1000)).toBeNull();
+    expect(parseRange('bytes=abc', 1000)).toBeNull();
+    expect(parseRange('bytes=-', 1000)).toBeNull();
+    expect(parseRange('bytes=10-5', 1000)).toBeNull();
+  });
+
+  test('signale une demande non satisfiable', () => {
+    expect(parseRange('bytes=1000-', 1000)).toBe('unsatisfiable');
+    expect(parseRange('bytes=-0', 1000)).toBe('unsatisfiable');
+    expect(parseRange('bytes=0-10', 0)).toBe('unsatisfiable');
+  });
+});
+
+describe('validateurs conditionnels', () => {
+  const mtime = new Date('2025-10-01T12:00:00.750Z');
+  const etag = computeEtag(1000, mtime);
+
+  test('If-Range accepte l’ETag fort ou la date exacte', () => {
+    expect(isIfRangeFresh(undefined, etag, mtime)).toBe(true);
+    expect(isIfRangeFresh(etag, etag, mtime)).toBe(true);
+    expect(isIfRangeFresh(`W/${etag}`, etag, mtime)).toBe(false);
+    expect(isIfRangeFresh('"autre"', etag, mtime)).toBe(false);
+    expect(isIfRangeFresh(mtime.toUTCString(), etag, mtime)).toBe(true);
+    expect(isIfRangeFresh('Wed, 01 Oct 2025 11:00:00 GMT', etag, mtime)).toBe(false);
+  });
+
+  test('If-None-Match prime sur If-Modified-Since', () => {
+    expect(isNotModified({ 'if-none-match': `"x", W/${etag}` }, etag, mtime)).toBe(true);
+    expect(isNotModified({ 'if-none-match': '"x"', 'if-modified-since': mtime.toUTCString() }, etag, mtime)).toBe(false);
+    expect(isNotModified({ 'if-modified-since': mtime.toUTCString() }, etag, mtime)).toBe(true);
+    expect(isNotModified({}, etag, mtime)).toBe(false);
+  });
+});
+
+describe('buildMultipartRanges', () => {
+  test('calcule la longueur exacte du corps', () => {
+    const body = buildMultipartRanges(
+      [{ start: 0, end: 9 }, { start: 20, end: 24 }],
+      100,
+      'video/mp4',
+      'BOUNDARY',
+    );
+
+    expect(body.parts[0].header).toBe(
+      '--BOUNDARY\r\nContent-Type: video/mp4\r\nContent-Range: bytes 0-9/100\r\n\r\n',
+    );
+    expect(body.parts[1].header.startsWith('\r\n--BOUNDARY\r\n')).toBe(true);
+    expect(body.trailer).toBe('\r\n--BOUNDARY--\r\n');
+
+    const expected = body.parts.reduce((n, p) => n + p.header.length, 0) + 10 + 5 + body.trailer.length;
+    expect(body.contentLength).toBe(expected);
+  });
+});
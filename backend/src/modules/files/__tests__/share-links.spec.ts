@@ -0,0 +1,33 @@
+import { shareLinkQuery, signShareLink, verifyShareLink } from '../share-links.js';
+
+const SECRET = 'secret-de-test';
+const SHARE_ID = '5b0e7a52-3f0c-4d3b-9d55-7f0f2b8f1c11';
+
+function parseQuery(query: string) {
+  const params = new URLSearchParams(query);
+  return { expires: params.get('expires') ?? undefined, sig: params.get('sig') ?? undefined };
+}
+
+describe('share-links', () => {
+  test('accepte un lien signé', () => {
+    const { expires, sig } = parseQuery(shareLinkQuery(SHARE_ID, new Date('2026-10-20T12:00:00Z'), SECRET));
+
+    expect(expires).toBe('1792497600');
+    expect(verifyShareLink(SHARE_ID, expires, sig, SECRET)).toBe(true);
+  });
+
+  test('rejette une expiration modifiée', () => {
+    const { sig } = parseQuery(shareLinkQuery(SHARE_ID, new Date('2026-10-20T12:00:00Z'), SECRET));
+
+    expect(verifyShareLink(SHARE_ID, '1892497600', sig, SECRET)).toBe(false);
+  });
+
+  test('rejette un autre lien, un autre secret ou une signature absente', () => {
+    const sig = signShareLink(SHARE_ID, 1792497600, SECRET);
+
+    expect(verifyShareLink('autre-lien', '1792497600', sig, SECRET)).toBe(false);
+    expect(verifyShareLink(SHARE_ID, '1792497600', sig, 'autre-secret')).toBe(false);
+    expect(verifyShareLink(SHARE_ID, '1792497600', undefined, SECRET)).toBe(false);
+    expect(verifyShareLink(SHARE_ID, 'demain', sig, SECRET)).toBe(false);
+  });
+});
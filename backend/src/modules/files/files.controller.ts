@@ -1,46 +1,144 @@
 import {
   Controller,
   Get,
+  Post,
+  Body,
   Param,
+  HttpCode,
+  HttpStatus,
+  Req,
   Res,
   UseGuards,
   Header,
 } from '@nestjs/common';
-import type { FastifyReply } from 'fastify';
+import type { FastifyReply, FastifyRequest } from 'fastify';
 import { FilesService } from './files.service.js';
-import { ApiKeyGuard, Public } from '../../shared/guards/api-key.guard.js';
-import * as fs from 'fs';
+import { SharesService } from './shares.service.js';
+import { AuthGuard, CurrentUser, RequireScopes } from '../../shared/guards/auth.guard.js';
+import type { AuthUser } from '../../shared/auth/auth-user.js';
+import { createZipArchive } from '../../shared/archive.js';
+import { ZodValidationPipe } from '../../shared/pipes/zod-validation.pipe.js';
+import { CreateShareSchema } from '../../shared/dto/share.dto.js';
+import type { CreateShareDto } from '../../shared/dto/share.dto.js';
+import { sendFile } from './send-file.js';
 
 @Controller('files')
-@UseGuards(ApiKeyGuard)
+@UseGuards(AuthGuard)
+@RequireScopes('files:read')
 export class FilesController {
-  constructor(private filesService: FilesService) {}
+  constructor(
+    private filesService: FilesService,
+    private sharesService: SharesService,
+  ) {}
 
   @Get(':jobId')
-  @Public()
-  async getFileMetadata(@Param('jobId') jobId: string) {
-    return this.filesService.getFileMetadata(jobId);
+  async getFileMetadata(@Param('jobId') jobId: string, @CurrentUser() user: AuthUser) {
+    return this.filesService.getFileMetadata(jobId, user);
+  }
+
+  @Get(':jobId/list')
+  async listFiles(@Param('jobId') jobId: string, @CurrentUser() user: AuthUser) {
+    return this.filesService.listFiles(jobId, user);
+  }
+
+  // The returned path is relative to the API and works without authentication
+  @Post(':jobId/share')
+  @HttpCode(HttpStatus.CREATED)
+  async createShare(
+    @Param('jobId') jobId: string,
+    @Body(new ZodValidationPipe(CreateShareSchema)) dto: CreateShareDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.sharesService.createShare(jobId, dto, user);
+  }
+
+  @Get(':jobId/shares')
+  async listShares(@Param('jobId') jobId: string, @CurrentUser() user: AuthUser) {
+    return this.sharesService.listShares(jobId, user);
   }
 
   @Get(':jobId/download')
-  @Public()
   @Header('Cache-Control', 'no-cache')
   async downloadFile(
     @Param('jobId') jobId: string,
+    @CurrentUser() user: AuthUser,
+    @Req() request: FastifyRequest,
     @Res() reply: FastifyReply,
   ) {
-    const fileInfo = await this.filesService.getFileStream(jobId);
+    const fileInfo = await this.filesService.getFileStream(jobId, user);
+    sendFile(request, reply, fileInfo, 'attachment');
+  }
 
-    reply.header('Content-Type', fileInfo.mimeType);
-    reply.header('Content-Length', fileInfo.size.toString());
-    reply.header('Content-Disposition', `attachment; filename="${fileInfo.filename}"`);
+  // Same file served inline, for in-browser playback and seeking
+  @Get(':jobId/stream')
+  @Header('Cache-Control', 'no-cache')
+  async streamFile(
+    @Param('jobId') jobId: string,
+    @CurrentUser() user: AuthUser,
+    @Req() request: FastifyRequest,
+    @Res() reply: FastifyReply,
+  ) {
+    const fileInfo = await this.filesService.getFileStream(jobId, user);
+    sendFile(request, reply, fileInfo, 'inline');
+  }
 
-    const stream = fs.createReadStream(fileInfo.filepath);
+  @Get(':jobId/thumbnail')
+  @Header('Cache-Control', 'no-cache')
+  async getThumbnail(
+    @Param('jobId') jobId: string,
+    @CurrentUser() user: AuthUser,
+    @Req() request: FastifyRequest,
+    @Res() reply: FastifyReply,
+  ) {
+    const fileInfo = await this.filesService.getThumbnailStream(jobId, user);
+    sendFile(request, reply, fileInfo, 'inline');
+  }
 
-    stream.on('error', (_err: NodeJS.ErrnoException | Error) => {
-      reply.code(500).send({ error: 'Failed to stream file' });
+  // Every output of the job zipped on the fly, nothing is written to disk
+  @Get(':jobId/archive')
+  @Header('Cache-Control', 'no-cache')
+  async downloadArchive(
+    @Param('jobId') jobId: string,
+    @CurrentUser() user: AuthUser,
+    @Res() reply: FastifyReply,
+  ) {
+    const { filename, entries } = await this.filesService.getArchiveEntries(jobId, user);
+    const archive = createZipArchive(entries);
+
+    reply.header('Content-Type', 'application/zip');
+    reply.header('Content-Disposition', `attachment; filename="${filename}"`);
+
+    archive.on('error', (_err: Error) => {
+      reply.raw.destroy();
     });
 
-    reply.send(stream);
+    reply.send(archive);
+    void archive.finalize();
+  }
+
+  @Get(':jobId/:fileId/download')
+  @Header('Cache-Control', 'no-cache')
+  async downloadJobFile(
+    @Param('jobId') jobId: string,
+    @Param('fileId') fileId: string,
+    @CurrentUser() user: AuthUser,
+    @Req() request: FastifyRequest,
+    @Res() reply: FastifyReply,
+  ) {
+    const fileInfo = await this.filesService.getJobFileStream(jobId, fileId, user);
+    sendFile(request, reply, fileInfo, 'attachment');
+  }
+
+  @Get(':jobId/:fileId/stream')
+  @Header('Cache-Control', 'no-cache')
+  async streamJobFile(
+    @Param('jobId') jobId: string,
+    @Param('fileId') fileId: string,
+    @CurrentUser() user: AuthUser,
+    @Req() request: FastifyRequest,
+    @Res() reply: FastifyReply,
+  ) {
+    const fileInfo = await this.filesService.getJobFileStream(jobId, fileId, user);
+    sendFile(request, reply, fileInfo, 'inline');
   }
-}
\ No newline at end of file
+}
@@ -1,10 +1,12 @@
 import { Module } from '@nestjs/common';
 import { FilesController } from './files.controller.js';
+import { SharesController } from './shares.controller.js';
 import { FilesService } from './files.service.js';
+import { SharesService } from './shares.service.js';
 
 @Module({
-  controllers: [FilesController],
-  providers: [FilesService],
+  controllers: [FilesController, SharesController],
+  providers: [FilesService, SharesService],
   exports: [FilesService],
 })
 export class FilesModule {}
\ No newline at end of file
@@ -3,6 +3,10 @@ import { DatabaseService } from '../../shared/database.service.js';
 import { Logger } from '../../shared/logger.service.js';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import type { Job, JobFile } from '@prisma/client';
+import { getMimeType } from '../../shared/mime.js';
+import { ownerScope } from '../../shared/auth/auth-user.js';
+import type { AuthUser } from '../../shared/auth/auth-user.js';
 
 @Injectable()
 export class FilesService {
@@ -15,28 +19,19 @@ export class FilesService {
     this.dataDir = process.env.DATA_DIR || './data';
   }
 
-  async getFileMetadata(jobId: string) {
-    const job = await this.database.job.findUnique({
-      where: { id: jobId },
-    });
-
-    if (!job) {
-      throw new NotFoundException('Job not found');
-    }
-
-    if (job.status !== 'completed' || !job.outputPath) {
-      throw new BadRequestException('File not ready for download');
-    }
+  async getFileMetadata(jobId: string, user: AuthUser) {
+    const job = await this.getCompletedJob(jobId, user);
 
     try {
-      const stats = await fs.stat(job.outputPath);
+      const stats = await fs.stat(job.outputPath!);
 
       return {
-        filename: job.filename || path.basename(job.outputPath),
+        filename: job.filename || path.basename(job.outputPath!),
         size: stats.size,
-        mimeType: this.getMimeType(job.outputPath),
+        mimeType: getMimeType(job.outputPath!),
         createdAt: job.createdAt,
         completedAt: job.updatedAt,
+        files: (await this.getOutputFiles(job)).map(file => this.toFileSummary(file)),
       };
     } catch (error) {
       this.logger.error(`Failed to get file metadata for job ${jobId}`, error instanceof Error ? error.message : String(error));
@@ -44,9 +39,92 @@ export class FilesService {
     }
   }
 
-  async getFileStream(jobId: string) {
-    const job = await this.database.job.findUnique({
-      where: { id: jobId },
+  async getFileStream(jobId: string, user: AuthUser) {
+    const job = await this.getCompletedJob(jobId, user);
+    this.recordAccess(jobId);
+    return this.openFile(jobId, job.outputPath!, job.filename || path.basename(job.outputPath!));
+  }
+
+  async listFiles(jobId: string, user: AuthUser) {
+    const job = await this.getCompletedJob(jobId, user);
+    return (await this.getOutputFiles(job)).map(file => this.toFileSummary(file));
+  }
+
+  async getJobFileStream(jobId: string, fileId: string, user: AuthUser) {
+    await this.getCompletedJob(jobId, user);
+
+    const file = await this.database.jobFile.findFirst({
+      where: { id: fileId, jobId },
+    });
+
+    if (!file) {
+      throw new NotFoundException('File not found for this job');
+    }
+
+    this.recordAccess(jobId);
+    return this.openFile(jobId, file.path, file.filename);
+  }
+
+  async getThumbnailStream(jobId: string, user: AuthUser) {
+    const job = await this.getCompletedJob(jobId, user);
+
+    if (!job.thumbnailPath) {
+      throw new NotFoundException('No thumbnail for this job');
+    }
+
+    return this.openFile(jobId, job.thumbnailPath, path.basename(job.thumbnailPath));
+  }
+
+  /** File behind a share link; the link itself is checked by the caller. */
+  async getSharedFileStream(jobId: string, fileId: string | null) {
+    const job = await this.database.job.findFirst({
+      where: { id: jobId, deletedAt: null },
+    });
+
+    if (!job || job.status !== 'completed' || !job.outputPath) {
+      throw new NotFoundException('Shared file is no longer available');
+    }
+
+    this.recordAccess(jobId);
+    if (!fileId) {
+      return this.openFile(jobId, job.outputPath, job.filename || path.basename(job.outputPath));
+    }
+
+    const file = await this.database.jobFile.findFirst({
+      where: { id: fileId, jobId },
+    });
+
+    if (!file) {
+      throw new NotFoundException('Shared file is no longer available');
+    }
+
+    return this.openFile(jobId, file.path, file.filename);
+  }
+
+  /** Files to bundle when a client asks for every output of a job as one zip. */
+  async getArchiveEntries(jobId: string, user: AuthUser) {
+    const job = await this.getCompletedJob(jobId, user);
+    const files = await this.getOutputFiles(job);
+
+    for (const file of files) {
+      try {
+        await fs.access(file.path);
+      } catch {
+        throw new NotFoundException(`File ${file.filename} not found on disk`);
+      }
+    }
+
+    this.recordAccess(jobId);
+    const base = job.filename ? path.basename(job.filename, path.extname(job.filename)) : jobId;
+    return {
+      filename: `${base}.zip`,
+      entries: files.map(file => ({ path: file.path, name: file.filename })),
+    };
+  }
+
+  private async getCompletedJob(jobId: string, user: AuthUser) {
+    const job = await this.database.job.findFirst({
+      where: { id: jobId, deletedAt: null, ...ownerScope(user) },
     });
 
     if (!job) {
@@ -57,18 +135,22 @@ export class FilesService {
       throw new BadRequestException('File not ready for download');
     }
 
+    return job;
+  }
+
+  private async openFile(jobId: string, filepath: string, filename: string) {
     try {
       // Verify file exists
-      await fs.access(job.outputPath);
+      await fs.access(filepath);
 
-      const stats = await fs.stat(job.outputPath);
-      const filename = job.filename || path.basename(job.outputPath);
+      const stats = await fs.stat(filepath);
 
       return {
-        filepath: job.outputPath,
+        filepath,
         filename,
         size: stats.size,
-        mimeType: this.getMimeType(job.outputPath),
+        mimeType: getMimeType(filepath),
+        mtime: stats.mtime,
       };
     } catch (error) {
       this.logger.error(`Failed to access file for job ${jobId}`, error instanceof Error ? error.message : String(error));
@@ -76,89 +158,69 @@ export class FilesService {
     }
   }
 
-  private getMimeType(filepath: string): string {
-    const ext = path.extname(filepath).toLowerCase();
-
-    const mimeTypes: Record<string, string> = {
-      '.mp4': 'video/mp4',
-      '.mkv': 'video/x-matroska',
-      '.avi': 'video/x-msvideo',
-      '.mov': 'video/quicktime',
-      '.webm': 'video/webm',
-      '.mp3': 'audio/mpeg',
-      '.wav': 'audio/wav',
-      '.flac': 'audio/flac',
-      '.m4a': 'audio/mp4',
-      '.zip': 'application/zip',
-      '.rar': 'application/x-rar-compressed',
-      '.7z': 'application/x-7z-compressed',
-      '.pdf': 'application/pdf',
-      '.txt': 'text/plain',
-      '.json': 'application/json',
-    };
-
-    return mimeTypes[ext] || 'application/octet-stream';
+  // Jobs completed before files were recorded only have `outputPath`
+  private async getOutputFiles(job: Job): Promise<Array<Omit<JobFile, 'createdAt'>>> {
+    const files = await this.database.jobFile.findMany({
+      where: { jobId: job.id },
+      orderBy: { filename: 'asc' },
+    });
+    if (files.length > 0 || !job.outputPath) return files;
+
+    return [{
+      id: job.id,
+      jobId: job.id,
+      filename: job.filename || path.basename(job.outputPath),
+      path: job.outputPath,
+      size: job.totalBytes ?? BigInt(0),
+      mimeType: getMimeType(job.outputPath),
+      sha256: null,
+    }];
   }
 
-  async cleanupOldFiles() {
-    const retentionDays = parseInt(process.env.RETENTION_DAYS || '7');
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - retentionDays);
-
-    try {
-      // Find old completed jobs
-      const oldJobs = await this.database.job.findMany({
-        where: {
-          status: 'completed',
-          createdAt: { lt: cutoffDate },
-          outputPath: { not: null },
-        },
-      });
-
-      let deletedCount = 0;
-      let deletedBytes = 0;
-
-      for (const job of oldJobs) {
-        if (job.outputPath) {
-          try {
-            const stats = await fs.stat(job.outputPath);
-            await fs.unlink(job.outputPath);
-            deletedBytes += stats.size;
-            deletedCount++;
-
-            // Also try to remove the job directory if it's empty
-            const jobDir = path.dirname(job.outputPath);
-            try {
-              await fs.rmdir(jobDir);
-            } catch {
-              // Directory not empty or doesn't exist, ignore
-            }
-
-            this.logger.debug(`Deleted old file: ${job.outputPath}`);
-          } catch (error) {
-            this.logger.warn(`Failed to delete file ${job.outputPath}:`, error instanceof Error ? error.message : String(error));
-          }
-        }
-      }
+  private toFileSummary(file: Omit<JobFile, 'createdAt'>) {
+    return {
+      id: file.id,
+      filename: file.filename,
+      size: Number(file.size),
+      mimeType: file.mimeType,
+      sha256: file.sha256,
+    };
+  }
 
-      // Update job records to mark files as deleted
-      if (oldJobs.length > 0) {
-        await this.database.job.updateMany({
-          where: { id: { in: oldJobs.map(j => j.id) } },
-          data: { outputPath: null },
-        });
+  /** Remove `DATA_DIR/{jobId}` of each job: outputs, thumbnail and anything left beside them. */
+  async removeJobData(jobIds: string[]) {
+    for (const jobId of jobIds) {
+      try {
+        await fs.rm(path.join(this.dataDir, jobId), { recursive: true, force: true });
+      } catch (error) {
+        this.logger.warn(`Failed to remove data of job ${jobId}:`, error instanceof Error ? error.message : String(error));
       }
+    }
+  }
 
-      this.logger.info(`Cleanup completed: ${deletedCount} files deleted, ${(deletedBytes / 1024 / 1024).toFixed(2)} MB freed`);
+  /**
+   * Drop the outputs of completed jobs to free disk space while keeping their
+   * rows: `DATA_DIR/{jobId}` is removed and the jobs no longer have files.
+   */
+  async releaseJobFiles(jobIds: string[]) {
+    if (jobIds.length === 0) return;
+
+    await this.removeJobData(jobIds);
+    await this.database.$transaction([
+      this.database.jobFile.deleteMany({
+        where: { jobId: { in: jobIds } },
+      }),
+      this.database.job.updateMany({
+        where: { id: { in: jobIds } },
+        data: { outputPath: null, thumbnailPath: null },
+      }),
+    ]);
+  }
 
-      return {
-        deletedCount,
-        deletedBytes,
-        cleanedJobs: oldJobs.length,
-      };
-    } catch (error) {
-      this.logger.error('File cleanup failed', error instanceof Error ? error.message : String(error));
-      throw error;
-    }
+  // Feeds the least-recently-used eviction of the cleanup job; never delays the download
+  private recordAccess(jobId: string) {
+    this.database.job.updateMany({ where: { id: jobId }, data: { lastAccessedAt: new Date() } }).catch((error: unknown) => {
+      this.logger.warn(`Failed to record access to job ${jobId}`, error instanceof Error ? error.message : String(error));
+    });
   }
 }
\ No newline at end of file
@@ -0,0 +1,157 @@
+/** Inclusive byte range, as in `Content-Range: bytes start-end/size`. */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface MultipartRangePart {
+  range: ByteRange;
+  header: string;
+}
+
+export interface MultipartRangeBody {
+  parts: MultipartRangePart[];
+  trailer: string;
+  contentLength: number;
+}
+
+// Past this many ranges the header is ignored and the whole file is served
+const MAX_RANGES = 16;
+
+/**
+ * Parse a `Range` header against a representation of `size` bytes (RFC 7233).
+ * Returns `null` when the header must be ignored (absent, other unit,
+ * malformed, too many ranges), `'unsatisfiable'` when no range overlaps the
+ * file, otherwise the ranges sorted with overlapping ones coalesced.
+ */
+export function parseRange(header: string | undefined, size: number): ByteRange[] | 'unsatisfiable' | null {
+  if (!header) return null;
+
+  const match = /^\s*bytes\s*=\s*(.+)$/i.exec(header);
+  if (!match) return null;
+
+  const specs = match[1].split(',').map(spec => spec.trim()).filter(Boolean);
+  if (specs.length === 0 || specs.length > MAX_RANGES) return null;
+
+  const ranges: ByteRange[] = [];
+
+  for (const spec of specs) {
+    const parts = /^(\d*)-(\d*)$/.exec(spec);
+    if (!parts || (parts[1] === '' && parts[2] === '')) return null;
+
+    if (parts[1] === '') {
+      // Suffix range: the last N bytes
+      const suffix = parseInt(parts[2], 10);
+      if (suffix > 0 && size > 0) {
+        ranges.push({ start: Math.max(0, size - suffix), end: size - 1 });
+      }
+      continue;
+    }
+
+    const start = parseInt(parts[1], 10);
+    const end = parts[2] === '' ? Infinity : parseInt(parts[2], 10);
+    if (end < start) return null;
+
+    if (start < size) {
+      ranges.push({ start, end: Math.min(end, size - 1) });
+    }
+  }
+
+  if (ranges.length === 0) return 'unsatisfiable';
+
+  ranges.sort((a, b) => a.start - b.start);
+  const merged: ByteRange[] = [ranges[0]];
+  for (const range of ranges.slice(1)) {
+    const last = merged[merged.length - 1];
+    if (range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push(range);
+    }
+  }
+
+  return merged;
+}
+
+/** Strong validator derived from the file size and modification time. */
+export function computeEtag(size: number, mtime: Date): string {
+  return `"${size.toString(16)}-${Math.floor(mtime.getTime()).toString(16)}"`;
+}
+
+// HTTP dates have a one-second resolution
+function toHttpSeconds(date: Date): number {
+  return Math.floor(date.getTime() / 1000);
+}
+
+/**
+ * Whether the ranges of a request carrying `If-Range` may be honoured. An
+ * entity-tag must match strongly (weak tags never do); a date must equal
+ * `Last-Modified` exactly.
+ */
+export function isIfRangeFresh(ifRange: string | undefined, etag: string, lastModified: Date): boolean {
+  if (!ifRange) return true;
+
+  const value = ifRange.trim();
+  if (value.startsWith('W/')) return false;
+  if (value.startsWith('"')) return value === etag;
+
+  const date = Date.parse(value);
+  return !Number.isNaN(date) && Math.floor(date / 1000) === toHttpSeconds(lastModified);
+}
+
+/**
+ * Conditional GET: `If-None-Match` (weak comparison) takes precedence over
+ * `If-Modified-Since`, as required by RFC 7232.
+ */
+export function isNotModified(
+  headers: { 'if-none-match'?: string | undefined; 'if-modified-since'?: string | undefined },
+  etag: string,
+  lastModified: Date,
+): boolean {
+  const ifNoneMatch = headers['if-none-match'];
+  if (ifNoneMatch) {
+    const opaque = etag.replace(/^W\//, '');
+    return ifNoneMatch.split(',').some(tag => {
+      const candidate = tag.trim();
+      return candidate === '*' || candidate.replace(/^W\//, '') === opaque;
+    });
+  }
+
+  const ifModifiedSince = headers['if-modified-since'];
+  if (ifModifiedSince) {
+    const date = Date.parse(ifModifiedSince);
+    return !Number.isNaN(date) && toHttpSeconds(lastModified) <= Math.floor(date / 1000);
+  }
+
+  return false;
+}
+
+export function formatContentRange(range: ByteRange, size: number): string {
+  return `bytes ${range.start}-${range.end}/${size}`;
+}
+
+/**
+ * Part headers and exact length of a `multipart/byteranges` body; the caller
+ * writes each header followed by the bytes of its range, then the trailer.
+ */
+export function buildMultipartRanges(
+  ranges: ByteRange[],
+  size: number,
+  contentType: string,
+  boundary: string,
+): MultipartRangeBody {
+  const parts = ranges.map((range, index) => ({
+    range,
+    header: `${index === 0 ? '' : '\r\n'}--${boundary}\r\n`
+      + `Content-Type: ${contentType}\r\n`
+      + `Content-Range: ${formatContentRange(range, size)}\r\n\r\n`,
+  }));
+  const trailer = `\r\n--${boundary}--\r\n`;
+
+  const contentLength = parts.reduce(
+    (total, part) => total + Buffer.byteLength(part.header) + part.range.end - part.range.start + 1,
+    Buffer.byteLength(trailer),
+  );
+
+  return { parts, trailer, contentLength };
+}
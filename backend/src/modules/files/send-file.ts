@@ -0,0 +1,93 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import type { FilesService } from './files.service.js';
+import {
+  buildMultipartRanges,
+  computeEtag,
+  formatContentRange,
+  isIfRangeFresh,
+  isNotModified,
+  parseRange,
+} from './http-range.js';
+import { randomBytes } from 'crypto';
+import { Readable } from 'stream';
+import * as fs from 'fs';
+
+type FileInfo = Awaited<ReturnType<FilesService['getFileStream']>>;
+
+/**
+ * Serve a file with RFC 7233 range support: `206` for one range,
+ * `multipart/byteranges` for several, `416` when none is satisfiable.
+ * Ranges are ignored when `If-Range` no longer matches the file.
+ */
+export function sendFile(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  fileInfo: FileInfo,
+  disposition: 'attachment' | 'inline',
+) {
+  const etag = computeEtag(fileInfo.size, fileInfo.mtime);
+
+  reply.header('Accept-Ranges', 'bytes');
+  reply.header('ETag', etag);
+  reply.header('Last-Modified', fileInfo.mtime.toUTCString());
+  reply.header('Content-Disposition', `${disposition}; filename="${fileInfo.filename}"`);
+
+  if (isNotModified(request.headers, etag, fileInfo.mtime)) {
+    reply.code(304).send();
+    return;
+  }
+
+  const ranges = isIfRangeFresh(request.headers['if-range'] as string | undefined, etag, fileInfo.mtime)
+    ? parseRange(request.headers.range, fileInfo.size)
+    : null;
+
+  if (ranges === 'unsatisfiable') {
+    reply.code(416);
+    reply.header('Content-Range', `bytes */${fileInfo.size}`);
+    reply.send();
+    return;
+  }
+
+  if (!ranges) {
+    reply.header('Content-Type', fileInfo.mimeType);
+    reply.header('Content-Length', fileInfo.size.toString());
+    sendStream(reply, fs.createReadStream(fileInfo.filepath));
+    return;
+  }
+
+  reply.code(206);
+
+  if (ranges.length === 1) {
+    const [range] = ranges;
+    reply.header('Content-Type', fileInfo.mimeType);
+    reply.header('Content-Range', formatContentRange(range, fileInfo.size));
+    reply.header('Content-Length', (range.end - range.start + 1).toString());
+    sendStream(reply, fs.createReadStream(fileInfo.filepath, { start: range.start, end: range.end }));
+    return;
+  }
+
+  const boundary = randomBytes(12).toString('hex');
+  const body = buildMultipartRanges(ranges, fileInfo.size, fileInfo.mimeType, boundary);
+
+  reply.header('Content-Type', `multipart/byteranges; boundary=${boundary}`);
+  reply.header('Content-Length', body.contentLength.toString());
+  sendStream(reply, Readable.from((async function* () {
+    for (const part of body.parts) {
+      yield Buffer.from(part.header);
+      yield* fs.createReadStream(fileInfo.filepath, { start: part.range.start, end: part.range.end });
+    }
+    yield Buffer.from(body.trailer);
+  })()));
+}
+
+function sendStream(reply: FastifyReply, stream: Readable) {
+  stream.on('error', (_err: NodeJS.ErrnoException | Error) => {
+    if (reply.raw.headersSent) {
+      reply.raw.destroy();
+    } else {
+      reply.code(500).send({ error: 'Failed to stream file' });
+    }
+  });
+
+  reply.send(stream);
+}
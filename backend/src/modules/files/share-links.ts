@@ -0,0 +1,25 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/** HMAC over the link id and its expiry (unix seconds), so neither can be altered. */
+export function signShareLink(shareId: string, expires: number, secret: string): string {
+  return createHmac('sha256', secret).update(`${shareId}.${expires}`).digest('base64url');
+}
+
+export function verifyShareLink(
+  shareId: string,
+  expires: string | undefined,
+  signature: string | undefined,
+  secret: string,
+): boolean {
+  if (!expires || !signature || !/^\d+$/.test(expires)) return false;
+
+  const expected = Buffer.from(signShareLink(shareId, parseInt(expires, 10), secret));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/** Query string of a share URL: `?expires=<unix seconds>&sig=<hmac>`. */
+export function shareLinkQuery(shareId: string, expiresAt: Date, secret: string): string {
+  const expires = Math.floor(expiresAt.getTime() / 1000);
+  return `expires=${expires}&sig=${signShareLink(shareId, expires, secret)}`;
+}
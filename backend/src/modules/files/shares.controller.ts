@@ -0,0 +1,57 @@
+import {
+  Controller,
+  Get,
+  Delete,
+  Param,
+  Query,
+  Req,
+  Res,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  Header,
+} from '@nestjs/common';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { SharesService } from './shares.service.js';
+import { AuthGuard, CurrentUser, Public, RequireScopes } from '../../shared/guards/auth.guard.js';
+import type { AuthUser } from '../../shared/auth/auth-user.js';
+import { sendFile } from './send-file.js';
+
+@Controller('shares')
+@UseGuards(AuthGuard)
+@RequireScopes('files:read')
+export class SharesController {
+  constructor(private sharesService: SharesService) {}
+
+  /**
+   * Download through a share link. The password, when the link has one, is
+   * sent in `x-share-password` or the `password` query parameter.
+   */
+  @Public()
+  @Get(':shareId')
+  @Header('Cache-Control', 'no-store')
+  async downloadShare(
+    @Param('shareId') shareId: string,
+    @Query() query: Record<string, string | undefined>,
+    @Req() request: FastifyRequest,
+    @Res() reply: FastifyReply,
+  ) {
+    const range = request.headers.range;
+    const fileInfo = await this.sharesService.openShare(shareId, {
+      expires: query.expires,
+      sig: query.sig,
+      password: (request.headers['x-share-password'] as string | undefined) ?? query.password,
+      ip: request.ip,
+      userAgent: request.headers['user-agent'],
+      countDownload: !range || /^bytes=0-/.test(range),
+    });
+    sendFile(request, reply, fileInfo, 'attachment');
+  }
+
+  @Delete(':shareId')
+  @HttpCode(HttpStatus.OK)
+  async revokeShare(@Param('shareId') shareId: string, @CurrentUser() user: AuthUser) {
+    await this.sharesService.revokeShare(shareId, user);
+    return { success: true };
+  }
+}
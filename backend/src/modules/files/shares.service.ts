@@ -0,0 +1,184 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  GoneException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import type { ShareLink } from '@prisma/client';
+import { DatabaseService } from '../../shared/database.service.js';
+import { Logger } from '../../shared/logger.service.js';
+import { hashPassword, verifyPassword } from '../../shared/auth/password.js';
+import { ownerScope } from '../../shared/auth/auth-user.js';
+import type { AuthUser } from '../../shared/auth/auth-user.js';
+import type { CreateShareDto } from '../../shared/dto/share.dto.js';
+import { FilesService } from './files.service.js';
+import { shareLinkQuery, verifyShareLink } from './share-links.js';
+
+// Most recent downloads returned with each link
+const AUDIT_LIMIT = 50;
+
+export interface ShareRequest {
+  expires?: string;
+  sig?: string;
+  password?: string;
+  ip?: string;
+  userAgent?: string;
+  // Range requests resuming a download are not counted again
+  countDownload: boolean;
+}
+
+@Injectable()
+export class SharesService {
+  private secret: string;
+
+  constructor(
+    private database: DatabaseService,
+    private files: FilesService,
+    private logger: Logger,
+  ) {
+    const secret = process.env.SHARE_LINK_SECRET || process.env.JWT_SECRET;
+    if (secret) {
+      this.secret = secret;
+    } else {
+      this.secret = randomBytes(32).toString('hex');
+      this.logger.warn('SHARE_LINK_SECRET is not set, share links will not survive a restart');
+    }
+  }
+
+  async createShare(jobId: string, dto: CreateShareDto, user: AuthUser) {
+    // Also checks that the caller owns the job and that it is completed
+    const files = await this.files.listFiles(jobId, user);
+    if (dto.fileId && !files.some(file => file.id === dto.fileId)) {
+      throw new NotFoundException('File not found for this job');
+    }
+
+    // Jobs without recorded outputs list their main file under the job id
+    const fileId = dto.fileId && dto.fileId !== jobId ? dto.fileId : null;
+
+    const share = await this.database.shareLink.create({
+      data: {
+        jobId,
+        fileId,
+        createdById: user.id,
+        expiresAt: new Date(Date.now() + dto.expiresIn * 1000),
+        maxDownloads: dto.maxDownloads ?? null,
+        passwordHash: dto.password ? await hashPassword(dto.password) : null,
+      },
+    });
+
+    this.logger.info(`${user.username} shared job ${jobId} until ${share.expiresAt.toISOString()}`);
+
+    return {
+      ...this.toShare(share),
+      path: `/shares/${share.id}?${shareLinkQuery(share.id, share.expiresAt, this.secret)}`,
+    };
+  }
+
+  async listShares(jobId: string, user: AuthUser) {
+    await this.files.listFiles(jobId, user);
+
+    const shares = await this.database.shareLink.findMany({
+      where: { jobId },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        createdBy: { select: { username: true } },
+        downloads: { orderBy: { createdAt: 'desc' }, take: AUDIT_LIMIT },
+      },
+    });
+
+    return shares.map(share => ({
+      ...this.toShare(share),
+      createdBy: share.createdBy?.username ?? null,
+      downloads: share.downloads.map(download => ({
+        ip: download.ip,
+        userAgent: download.userAgent,
+        createdAt: download.createdAt,
+      })),
+    }));
+  }
+
+  async revokeShare(shareId: string, user: AuthUser) {
+    const share = await this.database.shareLink.findFirst({
+      where: { id: shareId, job: ownerScope(user) },
+    });
+
+    if (!share) {
+      throw new NotFoundException('Share link not found');
+    }
+
+    await this.database.shareLink.update({
+      where: { id: shareId },
+      data: { revokedAt: new Date() },
+    });
+
+    this.logger.info(`${user.username} revoked share link ${shareId}`);
+  }
+
+  async openShare(shareId: string, request: ShareRequest) {
+    if (!verifyShareLink(shareId, request.expires, request.sig, this.secret)) {
+      throw new ForbiddenException('Invalid share link');
+    }
+
+    const share = await this.database.shareLink.findUnique({ where: { id: shareId } });
+    if (!share) {
+      throw new NotFoundException('Share link not found');
+    }
+
+    if (share.revokedAt || share.expiresAt <= new Date()) {
+      throw new GoneException('Share link has expired');
+    }
+
+    // Range requests are not counted, but an exhausted link serves nothing at all
+    if (share.maxDownloads != null && share.downloadCount >= share.maxDownloads) {
+      throw new GoneException('Download limit reached');
+    }
+
+    if (share.passwordHash) {
+      if (!request.password) {
+        throw new UnauthorizedException('Password required');
+      }
+      if (!(await verifyPassword(request.password, share.passwordHash))) {
+        throw new UnauthorizedException('Invalid password');
+      }
+    }
+
+    const fileInfo = await this.files.getSharedFileStream(share.jobId, share.fileId);
+
+    if (request.countDownload) {
+      // Conditional increment so concurrent downloads cannot exceed the limit
+      const { count } = await this.database.shareLink.updateMany({
+        where: {
+          id: shareId,
+          ...(share.maxDownloads != null ? { downloadCount: { lt: share.maxDownloads } } : {}),
+        },
+        data: { downloadCount: { increment: 1 } },
+      });
+      if (count === 0) {
+        throw new GoneException('Download limit reached');
+      }
+
+      await this.database.shareDownload.create({
+        data: { shareLinkId: shareId, ip: request.ip ?? null, userAgent: request.userAgent ?? null },
+      });
+      this.logger.info(`Share link ${shareId} downloaded from ${request.ip ?? 'unknown'}`);
+    }
+
+    return fileInfo;
+  }
+
+  private toShare(share: ShareLink) {
+    return {
+      shareId: share.id,
+      jobId: share.jobId,
+      fileId: share.fileId,
+      expiresAt: share.expiresAt,
+      maxDownloads: share.maxDownloads,
+      downloadCount: share.downloadCount,
+      passwordProtected: share.passwordHash !== null,
+      revokedAt: share.revokedAt,
+      createdAt: share.createdAt,
+    };
+  }
+}
@@ -0,0 +1,50 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Patch,
+  Delete,
+  Param,
+  Body,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import { HeaderProfilesService } from './header-profiles.service.js';
+import { AuthGuard, AdminOnly } from '../../shared/guards/auth.guard.js';
+import type { CreateHeaderProfileDto, UpdateHeaderProfileDto } from '../../shared/dto/header-profile.dto.js';
+import { CreateHeaderProfileSchema, UpdateHeaderProfileSchema } from '../../shared/dto/header-profile.dto.js';
+import { ZodValidationPipe } from '../../shared/pipes/zod-validation.pipe.js';
+
+@Controller('admin/header-profiles')
+@UseGuards(AuthGuard)
+@AdminOnly()
+export class HeaderProfilesController {
+  constructor(private headerProfilesService: HeaderProfilesService) {}
+
+  @Get()
+  async listProfiles() {
+    return this.headerProfilesService.listProfiles();
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async createProfile(@Body(new ZodValidationPipe(CreateHeaderProfileSchema)) dto: CreateHeaderProfileDto) {
+    return this.headerProfilesService.createProfile(dto);
+  }
+
+  @Patch(':profileId')
+  async updateProfile(
+    @Param('profileId') profileId: string,
+    @Body(new ZodValidationPipe(UpdateHeaderProfileSchema)) dto: UpdateHeaderProfileDto,
+  ) {
+    return this.headerProfilesService.updateProfile(profileId, dto);
+  }
+
+  @Delete(':profileId')
+  @HttpCode(HttpStatus.OK)
+  async deleteProfile(@Param('profileId') profileId: string) {
+    await this.headerProfilesService.deleteProfile(profileId);
+    return { success: true };
+  }
+}
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { HeaderProfilesController } from './header-profiles.controller.js';
+import { HeaderProfilesService } from './header-profiles.service.js';
+
+@Module({
+  controllers: [HeaderProfilesController],
+  providers: [HeaderProfilesService],
+})
+export class HeaderProfilesModule {}
@@ -0,0 +1,56 @@
+import { Injectable, ConflictException, NotFoundException } from '@nestjs/common';
+import { DatabaseService } from '../../shared/database.service.js';
+import { Logger } from '../../shared/logger.service.js';
+import type { CreateHeaderProfileDto, UpdateHeaderProfileDto } from '../../shared/dto/header-profile.dto.js';
+
+/**
+ * Admin CRUD of the per-host header profiles. Workers apply them to the jobs
+ * of the host (see HeaderProfileStore), changes apply within HOST_RULES_CACHE_MS.
+ */
+@Injectable()
+export class HeaderProfilesService {
+  constructor(
+    private database: DatabaseService,
+    private logger: Logger,
+  ) {}
+
+  async listProfiles() {
+    return this.database.headerProfile.findMany({ orderBy: { host: 'asc' } });
+  }
+
+  async createProfile(dto: CreateHeaderProfileDto) {
+    const existing = await this.database.headerProfile.findUnique({ where: { host: dto.host } });
+    if (existing) {
+      throw new ConflictException('A header profile already exists for this host');
+    }
+
+    const profile = await this.database.headerProfile.create({
+      data: {
+        host: dto.host,
+        userAgent: dto.userAgent ?? null,
+        referer: dto.referer ?? null,
+      },
+    });
+    this.logger.info(`Header profile added for ${profile.host}`);
+    return profile;
+  }
+
+  async updateProfile(profileId: string, dto: UpdateHeaderProfileDto) {
+    await this.findProfile(profileId);
+    return this.database.headerProfile.update({ where: { id: profileId }, data: dto });
+  }
+
+  async deleteProfile(profileId: string) {
+    const profile = await this.findProfile(profileId);
+    await this.database.headerProfile.delete({ where: { id: profileId } });
+    this.logger.info(`Header profile removed for ${profile.host}`);
+  }
+
+  private async findProfile(profileId: string) {
+    const profile = await this.database.headerProfile.findUnique({ where: { id: profileId } });
+    if (!profile) {
+      throw new NotFoundException('Header profile not found');
+    }
+    return profile;
+  }
+}
@@ -1,6 +1,6 @@
 import { Controller, Get } from '@nestjs/common';
 import { HealthService } from './health.service.js';
-import { Public } from '../../shared/guards/api-key.guard.js';
+import { Public } from '../../shared/guards/auth.guard.js';
 
 @Controller('health')
 export class HealthController {
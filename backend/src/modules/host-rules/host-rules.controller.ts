@@ -0,0 +1,50 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Patch,
+  Delete,
+  Param,
+  Body,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import { HostRulesService } from './host-rules.service.js';
+import { AuthGuard, AdminOnly } from '../../shared/guards/auth.guard.js';
+import type { CreateHostRuleDto, UpdateHostRuleDto } from '../../shared/dto/host-rule.dto.js';
+import { CreateHostRuleSchema, UpdateHostRuleSchema } from '../../shared/dto/host-rule.dto.js';
+import { ZodValidationPipe } from '../../shared/pipes/zod-validation.pipe.js';
+
+@Controller('admin/host-rules')
+@UseGuards(AuthGuard)
+@AdminOnly()
+export class HostRulesController {
+  constructor(private hostRulesService: HostRulesService) {}
+
+  @Get()
+  async listRules() {
+    return this.hostRulesService.listRules();
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async createRule(@Body(new ZodValidationPipe(CreateHostRuleSchema)) dto: CreateHostRuleDto) {
+    return this.hostRulesService.createRule(dto);
+  }
+
+  @Patch(':ruleId')
+  async updateRule(
+    @Param('ruleId') ruleId: string,
+    @Body(new ZodValidationPipe(UpdateHostRuleSchema)) dto: UpdateHostRuleDto,
+  ) {
+    return this.hostRulesService.updateRule(ruleId, dto);
+  }
+
+  @Delete(':ruleId')
+  @HttpCode(HttpStatus.OK)
+  async deleteRule(@Param('ruleId') ruleId: string) {
+    await this.hostRulesService.deleteRule(ruleId);
+    return { success: true };
+  }
+}
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { HostRulesController } from './host-rules.controller.js';
+import { HostRulesService } from './host-rules.service.js';
+
+@Module({
+  controllers: [HostRulesController],
+  providers: [HostRulesService],
+})
+export class HostRulesModule {}
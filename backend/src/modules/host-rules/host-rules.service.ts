@@ -0,0 +1,57 @@
+import { Injectable, ConflictException, NotFoundException } from '@nestjs/common';
+import { DatabaseService } from '../../shared/database.service.js';
+import { Logger } from '../../shared/logger.service.js';
+import type { CreateHostRuleDto, UpdateHostRuleDto } from '../../shared/dto/host-rule.dto.js';
+
+/**
+ * Admin CRUD of the per-host limits. The workers read the rules themselves
+ * (see HostLimiter), changes apply within HOST_RULES_CACHE_MS.
+ */
+@Injectable()
+export class HostRulesService {
+  constructor(
+    private database: DatabaseService,
+    private logger: Logger,
+  ) {}
+
+  async listRules() {
+    return this.database.hostRule.findMany({ orderBy: { host: 'asc' } });
+  }
+
+  async createRule(dto: CreateHostRuleDto) {
+    const existing = await this.database.hostRule.findUnique({ where: { host: dto.host } });
+    if (existing) {
+      throw new ConflictException('A rule already exists for this host');
+    }
+
+    const rule = await this.database.hostRule.create({
+      data: {
+        host: dto.host,
+        maxConcurrent: dto.maxConcurrent ?? null,
+        minDelaySeconds: dto.minDelaySeconds ?? null,
+        maxBytesPerSecond: dto.maxBytesPerSecond ?? null,
+      },
+    });
+    this.logger.info(`Host rule added for ${rule.host}`);
+    return rule;
+  }
+
+  async updateRule(ruleId: string, dto: UpdateHostRuleDto) {
+    await this.findRule(ruleId);
+    return this.database.hostRule.update({ where: { id: ruleId }, data: dto });
+  }
+
+  async deleteRule(ruleId: string) {
+    const rule = await this.findRule(ruleId);
+    await this.database.hostRule.delete({ where: { id: ruleId } });
+    this.logger.info(`Host rule removed for ${rule.host}`);
+  }
+
+  private async findRule(ruleId: string) {
+    const rule = await this.database.hostRule.findUnique({ where: { id: ruleId } });
+    if (!rule) {
+      throw new NotFoundException('Host rule not found');
+    }
+    return rule;
+  }
+}
@@ -0,0 +1,56 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Patch,
+  Delete,
+  Param,
+  Body,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import { ProxyPoolsService } from './proxy-pools.service.js';
+import { AuthGuard, AdminOnly } from '../../shared/guards/auth.guard.js';
+import type { CreateProxyPoolDto, UpdateProxyPoolDto } from '../../shared/dto/proxy-pool.dto.js';
+import { CreateProxyPoolSchema, UpdateProxyPoolSchema } from '../../shared/dto/proxy-pool.dto.js';
+import { ZodValidationPipe } from '../../shared/pipes/zod-validation.pipe.js';
+
+@Controller('admin/proxy-pools')
+@UseGuards(AuthGuard)
+@AdminOnly()
+export class ProxyPoolsController {
+  constructor(private proxyPoolsService: ProxyPoolsService) {}
+
+  @Get()
+  async listPools() {
+    return this.proxyPoolsService.listPools();
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async createPool(@Body(new ZodValidationPipe(CreateProxyPoolSchema)) dto: CreateProxyPoolDto) {
+    return this.proxyPoolsService.createPool(dto);
+  }
+
+  @Patch(':poolId')
+  async updatePool(
+    @Param('poolId') poolId: string,
+    @Body(new ZodValidationPipe(UpdateProxyPoolSchema)) dto: UpdateProxyPoolDto,
+  ) {
+    return this.proxyPoolsService.updatePool(poolId, dto);
+  }
+
+  @Delete(':poolId')
+  @HttpCode(HttpStatus.OK)
+  async deletePool(@Param('poolId') poolId: string) {
+    await this.proxyPoolsService.deletePool(poolId);
+    return { success: true };
+  }
+
+  @Post(':poolId/check')
+  @HttpCode(HttpStatus.OK)
+  async checkPool(@Param('poolId') poolId: string) {
+    return this.proxyPoolsService.checkPool(poolId);
+  }
+}
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { ProxyPoolsController } from './proxy-pools.controller.js';
+import { ProxyPoolsService } from './proxy-pools.service.js';
+
+@Module({
+  controllers: [ProxyPoolsController],
+  providers: [ProxyPoolsService],
+})
+export class ProxyPoolsModule {}
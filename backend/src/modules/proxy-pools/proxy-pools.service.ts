@@ -0,0 +1,141 @@
+import { Injectable, OnModuleInit, OnModuleDestroy, ConflictException, NotFoundException } from '@nestjs/common';
+import type { Prisma, Proxy, ProxyPool } from '@prisma/client';
+import { execa } from 'execa';
+import { DatabaseService } from '../../shared/database.service.js';
+import { Logger } from '../../shared/logger.service.js';
+import { redactProxy } from '../../shared/proxies.js';
+import type { CreateProxyPoolDto, UpdateProxyPoolDto } from '../../shared/dto/proxy-pool.dto.js';
+
+const POOL_DETAILS = {
+  proxies: { orderBy: { createdAt: 'asc' } },
+} satisfies Prisma.ProxyPoolInclude;
+
+/**
+ * Admin CRUD of the proxy pools, and the periodic health check of their
+ * members: a request to PROXY_CHECK_URL through each proxy. Workers only
+ * assign healthy members.
+ */
+@Injectable()
+export class ProxyPoolsService implements OnModuleInit, OnModuleDestroy {
+  private checkIntervalMs = parseInt(process.env.PROXY_CHECK_INTERVAL_MS || '300000', 10);
+  private checkUrl = process.env.PROXY_CHECK_URL || 'https://www.google.com/generate_204';
+  private checkTimer?: NodeJS.Timeout;
+
+  constructor(
+    private database: DatabaseService,
+    private logger: Logger,
+  ) {}
+
+  onModuleInit() {
+    if (this.checkIntervalMs > 0) {
+      this.checkTimer = setInterval(() => void this.checkAll(), this.checkIntervalMs);
+      this.checkTimer.unref();
+    }
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.checkTimer);
+  }
+
+  async listPools() {
+    const pools = await this.database.proxyPool.findMany({ include: POOL_DETAILS, orderBy: { name: 'asc' } });
+    return pools.map(pool => this.toPool(pool));
+  }
+
+  async createPool(dto: CreateProxyPoolDto) {
+    const existing = await this.database.proxyPool.findUnique({ where: { name: dto.name } });
+    if (existing) {
+      throw new ConflictException('A proxy pool with this name already exists');
+    }
+
+    const pool = await this.database.proxyPool.create({
+      data: {
+        name: dto.name,
+        strategy: dto.strategy,
+        proxies: { createMany: { data: [...new Set(dto.proxies)].map(url => ({ url })) } },
+      },
+      include: POOL_DETAILS,
+    });
+    this.logger.info(`Proxy pool ${pool.name} created with ${pool.proxies.length} proxies`);
+    return this.toPool(pool);
+  }
+
+  async updatePool(poolId: string, dto: UpdateProxyPoolDto) {
+    await this.findPool(poolId);
+
+    const urls = dto.proxies ? [...new Set(dto.proxies)] : null;
+    await this.database.$transaction([
+      this.database.proxyPool.update({ where: { id: poolId }, data: { strategy: dto.strategy } }),
+      ...(urls ? [
+        this.database.proxy.deleteMany({ where: { poolId, url: { notIn: urls } } }),
+        this.database.proxy.createMany({ data: urls.map(url => ({ poolId, url })), skipDuplicates: true }),
+      ] : []),
+    ]);
+
+    return this.toPool(await this.findPool(poolId));
+  }
+
+  async deletePool(poolId: string) {
+    const pool = await this.findPool(poolId);
+    await this.database.proxyPool.delete({ where: { id: poolId } });
+    this.logger.info(`Proxy pool ${pool.name} deleted`);
+  }
+
+  async checkPool(poolId: string) {
+    const pool = await this.findPool(poolId);
+    await Promise.all(pool.proxies.map(proxy => this.checkProxy(proxy)));
+    return this.toPool(await this.findPool(poolId));
+  }
+
+  private async checkAll() {
+    const proxies = await this.database.proxy.findMany();
+    await Promise.all(proxies.map(proxy => this.checkProxy(proxy)));
+  }
+
+  private async checkProxy(proxy: Proxy) {
+    let lastError: string | null = null;
+    try {
+      const { stdout } = await execa('curl', ['-s', '-o', '/dev/null', '-w', '%{http_code}', '--max-time', '10', '-x', proxy.url, this.checkUrl]);
+      const status = parseInt(stdout, 10);
+      if (!(status >= 200 && status < 400)) {
+        lastError = `HTTP ${stdout}`;
+      }
+    } catch (error) {
+      lastError = error instanceof Error && 'exitCode' in error ? `curl exit code ${error.exitCode}` : String(error);
+    }
+
+    const healthy = lastError === null;
+    if (healthy !== proxy.healthy) {
+      this.logger.warn(`Proxy ${redactProxy(proxy.url)} is now ${healthy ? 'healthy' : `unhealthy: ${lastError}`}`);
+    }
+    await this.database.proxy.update({
+      where: { id: proxy.id },
+      data: { healthy, lastError, lastCheckedAt: new Date() },
+    });
+  }
+
+  private async findPool(poolId: string) {
+    const pool = await this.database.proxyPool.findUnique({ where: { id: poolId }, include: POOL_DETAILS });
+    if (!pool) {
+      throw new NotFoundException('Proxy pool not found');
+    }
+    return pool;
+  }
+
+  private toPool(pool: ProxyPool & { proxies: Proxy[] }) {
+    return {
+      id: pool.id,
+      name: pool.name,
+      strategy: pool.strategy,
+      proxies: pool.proxies.map(proxy => ({
+        id: proxy.id,
+        url: proxy.url,
+        healthy: proxy.healthy,
+        lastCheckedAt: proxy.lastCheckedAt?.toISOString() ?? null,
+        lastError: proxy.lastError,
+      })),
+      createdAt: pool.createdAt.toISOString(),
+      updatedAt: pool.updatedAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,39 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Body,
+  UseGuards,
+} from '@nestjs/common';
+import { SettingsService } from './settings.service.js';
+import { AuthGuard, AdminOnly } from '../../shared/guards/auth.guard.js';
+import type { BandwidthSettingsDto, HeaderSettingsDto } from '../../shared/dto/settings.dto.js';
+import { BandwidthSettingsSchema, HeaderSettingsSchema } from '../../shared/dto/settings.dto.js';
+import { ZodValidationPipe } from '../../shared/pipes/zod-validation.pipe.js';
+
+@Controller('admin/settings')
+@UseGuards(AuthGuard)
+@AdminOnly()
+export class SettingsController {
+  constructor(private settingsService: SettingsService) {}
+
+  @Get('bandwidth')
+  async getBandwidth() {
+    return this.settingsService.getBandwidth();
+  }
+
+  @Put('bandwidth')
+  async updateBandwidth(@Body(new ZodValidationPipe(BandwidthSettingsSchema)) dto: BandwidthSettingsDto) {
+    return this.settingsService.updateBandwidth(dto);
+  }
+
+  @Get('headers')
+  async getHeaders() {
+    return this.settingsService.getHeaders();
+  }
+
+  @Put('headers')
+  async updateHeaders(@Body(new ZodValidationPipe(HeaderSettingsSchema)) dto: HeaderSettingsDto) {
+    return this.settingsService.updateHeaders(dto);
+  }
+}
@@ -0,0 +1,107 @@
+import { Injectable, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { DatabaseService } from '../../shared/database.service.js';
+import { Logger } from '../../shared/logger.service.js';
+import { BANDWIDTH_SETTING, currentBandwidthLimit, parseBandwidthSettings } from '../../shared/bandwidth.js';
+import type { BandwidthSettings } from '../../shared/bandwidth.js';
+import { HEADERS_SETTING, parseHeaderSettings } from '../../shared/header-profiles.js';
+import type { HeaderSettings } from '../../shared/header-profiles.js';
+
+// How often the day/night schedule is re-evaluated (and re-sent, in case aria2 restarted)
+const BANDWIDTH_CHECK_MS = 60 * 1000;
+
+/**
+ * Runtime settings changed by admins. Workers split the global bandwidth
+ * limit between their transfers (see BandwidthBudget); it is also pushed to
+ * aria2 with `aria2.changeGlobalOption`, as a cap over all its downloads.
+ * The allowed header list is checked when jobs are created.
+ */
+@Injectable()
+export class SettingsService implements OnModuleInit, OnModuleDestroy {
+  private aria2Url = process.env.ARIA2_RPC_URL || 'http://localhost:6800/jsonrpc';
+  private aria2Secret = process.env.ARIA2_SECRET;
+  private bandwidthTimer?: NodeJS.Timeout;
+  private appliedLimit: number | null | undefined;
+
+  constructor(
+    private database: DatabaseService,
+    private logger: Logger,
+  ) {}
+
+  async onModuleInit() {
+    await this.applyBandwidth();
+    this.bandwidthTimer = setInterval(() => void this.applyBandwidth(), BANDWIDTH_CHECK_MS);
+    this.bandwidthTimer.unref();
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.bandwidthTimer);
+  }
+
+  async getBandwidth() {
+    const settings = await this.loadBandwidth();
+    return { ...settings, currentLimit: currentBandwidthLimit(settings) };
+  }
+
+  async updateBandwidth(settings: BandwidthSettings) {
+    const value = JSON.stringify(settings);
+    await this.database.setting.upsert({
+      where: { key: BANDWIDTH_SETTING },
+      create: { key: BANDWIDTH_SETTING, value },
+      update: { value },
+    });
+    await this.applyBandwidth();
+    return this.getBandwidth();
+  }
+
+  async getHeaders(): Promise<HeaderSettings> {
+    const setting = await this.database.setting.findUnique({ where: { key: HEADERS_SETTING } });
+    return parseHeaderSettings(setting?.value);
+  }
+
+  async updateHeaders(settings: HeaderSettings) {
+    const value = JSON.stringify({ allowed: [...new Set(settings.allowed)] });
+    await this.database.setting.upsert({
+      where: { key: HEADERS_SETTING },
+      create: { key: HEADERS_SETTING, value },
+      update: { value },
+    });
+    return this.getHeaders();
+  }
+
+  private async loadBandwidth(): Promise<BandwidthSettings> {
+    const setting = await this.database.setting.findUnique({ where: { key: BANDWIDTH_SETTING } });
+    return parseBandwidthSettings(setting?.value);
+  }
+
+  private async applyBandwidth() {
+    try {
+      const limit = currentBandwidthLimit(await this.loadBandwidth());
+      await this.aria2Call('aria2.changeGlobalOption', [{ 'max-overall-download-limit': String(limit ?? 0) }]);
+
+      if (limit !== this.appliedLimit) {
+        this.logger.info(`Global download limit set to ${limit ? `${limit} B/s` : 'unlimited'}`);
+        this.appliedLimit = limit;
+      }
+    } catch (error) {
+      this.logger.warn(`Could not apply the global download limit: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private async aria2Call(method: string, params: unknown[]) {
+    const response = await fetch(this.aria2Url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        method,
+        id: 'settings',
+        params: this.aria2Secret ? [`token:${this.aria2Secret}`, ...params] : params,
+      }),
+      signal: AbortSignal.timeout(5000),
+    });
+    const body = await response.json() as { error?: { message: string } };
+    if (!response.ok || body.error) {
+      throw new Error(`aria2 ${method} failed: ${body.error?.message ?? response.status}`);
+    }
+  }
+}
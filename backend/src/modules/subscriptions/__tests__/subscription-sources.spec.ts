@@ -0,0 +1,40 @@
+import { fromPlaylistEntries, parseTwmdUrls, twitterMediaId, twmdListArgs } from '../subscription-sources.js';
+
+describe('subscription-sources', () => {
+  test('identifie les entrées par leur id, sinon par leur URL', () => {
+    expect(fromPlaylistEntries([
+      { url: 'https://www.youtube.com/watch?v=abc', title: 'First', id: 'abc' },
+      { url: 'https://www.pinterest.com/pin/42/' },
+    ])).toEqual([
+      { itemId: 'abc', url: 'https://www.youtube.com/watch?v=abc', title: 'First' },
+      { itemId: 'https://www.pinterest.com/pin/42/', url: 'https://www.pinterest.com/pin/42/' },
+    ]);
+  });
+
+  test('construit la commande twmd de listage', () => {
+    expect(twmdListArgs('nasa', 20, undefined)).toEqual(['-B', '-U', '-u', 'nasa', '-n', '20', '-a']);
+    expect(twmdListArgs('nasa', 5, { mediaType: 'videos', includeRetweets: true }))
+      .toEqual(['-B', '-U', '-u', 'nasa', '-n', '5', '-r', '-v']);
+  });
+
+  test('extrait les URLs de la sortie twmd sans doublons', () => {
+    const stdout = [
+      'Fetching tweets of nasa',
+      'https://pbs.twimg.com/media/FxAbC1.jpg?name=orig',
+      'https://video.twimg.com/ext_tw_video/1/pu/vid/720x1280/Zy9.mp4',
+      'https://pbs.twimg.com/media/FxAbC1.jpg?name=orig',
+      '',
+    ].join('\n');
+
+    expect(parseTwmdUrls(stdout)).toEqual([
+      'https://pbs.twimg.com/media/FxAbC1.jpg?name=orig',
+      'https://video.twimg.com/ext_tw_video/1/pu/vid/720x1280/Zy9.mp4',
+    ]);
+  });
+
+  test('réduit une URL de média à sa clé', () => {
+    expect(twitterMediaId('https://pbs.twimg.com/media/FxAbC1.jpg?name=orig')).toBe('FxAbC1');
+    expect(twitterMediaId('https://video.twimg.com/ext_tw_video/1/pu/vid/720x1280/Zy9.mp4')).toBe('Zy9');
+    expect(twitterMediaId('not a url')).toBe('not a url');
+  });
+});
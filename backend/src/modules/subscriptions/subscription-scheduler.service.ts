@@ -0,0 +1,239 @@
+import { Injectable, OnModuleInit, OnModuleDestroy, BadRequestException } from '@nestjs/common';
+import { Queue, Worker } from 'bullmq';
+import type { Job } from 'bullmq';
+import { Redis } from 'ioredis';
+import { execa } from 'execa';
+import * as path from 'path';
+import type { Subscription } from '@prisma/client';
+import { DatabaseService } from '../../shared/database.service.js';
+import { Logger } from '../../shared/logger.service.js';
+import type { AuthUser, UserRole } from '../../shared/auth/auth-user.js';
+import type { SubscriptionOptions, SubscriptionType } from '../../shared/dto/subscription.dto.js';
+import { DownloadsService } from '../downloads/downloads.service.js';
+import { MediaProbeService } from '../downloads/media-probe.service.js';
+import { extractUsername } from '../../workers/twitter-downloader.js';
+import { fromPlaylistEntries, parseTwmdUrls, twitterMediaId, twmdListArgs } from './subscription-sources.js';
+import type { SourceItem } from './subscription-sources.js';
+
+export interface SubscriptionCheckJobData {
+  subscriptionId: string;
+}
+
+export interface SubscriptionSource {
+  url: string;
+  type: SubscriptionType;
+  maxItems: number;
+  options: SubscriptionOptions;
+}
+
+/**
+ * Runs subscription checks from their own BullMQ queue, one repeatable job
+ * per enabled subscription following its cron pattern. A check lists the
+ * latest items of the source and creates a job for each item not seen
+ * before; seen items are recorded so every video, pin or tweet media is
+ * fetched once.
+ */
+@Injectable()
+export class SubscriptionSchedulerService implements OnModuleInit, OnModuleDestroy {
+  private redis!: Redis;
+  private queue!: Queue<SubscriptionCheckJobData>;
+  private worker!: Worker<SubscriptionCheckJobData>;
+  private twmdPath = path.resolve(process.env.TWMD_PATH || './bin/twitter-media-downloader');
+
+  constructor(
+    private database: DatabaseService,
+    private logger: Logger,
+    private downloads: DownloadsService,
+    private media: MediaProbeService,
+  ) {}
+
+  async onModuleInit() {
+    this.redis = new Redis({
+      host: process.env.REDIS_HOST || 'localhost',
+      port: parseInt(process.env.REDIS_PORT || '6379'),
+      password: process.env.REDIS_PASSWORD || undefined,
+      maxRetriesPerRequest: null,
+    });
+
+    this.queue = new Queue('subscriptions', {
+      connection: this.redis,
+      defaultJobOptions: {
+        removeOnComplete: 100,
+        removeOnFail: 100,
+      },
+    });
+
+    this.worker = new Worker('subscriptions', job => this.process(job), {
+      connection: this.redis,
+      concurrency: parseInt(process.env.SUBSCRIPTION_CONCURRENCY || '2', 10),
+    });
+
+    this.worker.on('error', (err: Error) => {
+      this.logger.error('Subscription worker error', err.message);
+    });
+
+    // The database is the source of truth, rebuild every schedule from it
+    for (const repeatable of await this.queue.getRepeatableJobs()) {
+      await this.queue.removeRepeatableByKey(repeatable.key);
+    }
+    const subscriptions = await this.database.subscription.findMany({ where: { enabled: true } });
+    for (const subscription of subscriptions) {
+      await this.queue.add(subscription.id, { subscriptionId: subscription.id }, { repeat: { pattern: subscription.schedule } });
+    }
+  }
+
+  async onModuleDestroy() {
+    await this.worker?.close();
+    await this.queue?.close();
+    await this.redis?.disconnect();
+  }
+
+  /** Replace the schedule of `subscription` after it was created or updated. */
+  async schedule(subscription: Subscription) {
+    await this.unschedule(subscription.id);
+    if (subscription.enabled) {
+      await this.queue.add(subscription.id, { subscriptionId: subscription.id }, { repeat: { pattern: subscription.schedule } });
+    }
+  }
+
+  async unschedule(subscriptionId: string) {
+    for (const repeatable of await this.queue.getRepeatableJobs()) {
+      if (repeatable.name === subscriptionId) {
+        await this.queue.removeRepeatableByKey(repeatable.key);
+      }
+    }
+  }
+
+  /** Latest items of a source, newest first; throws `BadRequestException` when it cannot be listed. */
+  async listItems(source: SubscriptionSource): Promise<SourceItem[]> {
+    if (source.type !== 'twitter') {
+      const playlist = await this.media.listPlaylistEntries(source.url, source.maxItems, source.options);
+      return fromPlaylistEntries(playlist.entries);
+    }
+
+    const username = extractUsername(source.url);
+    if (!username) {
+      throw new BadRequestException('Twitter subscriptions need a profile URL');
+    }
+
+    const args = twmdListArgs(username, source.maxItems, source.options.twitter);
+    if (process.env.TWITTER_COOKIES_PATH) {
+      args.push('-C');
+    }
+    if (process.env.TWITTER_PROXY) {
+      args.push('-p', process.env.TWITTER_PROXY);
+    }
+
+    try {
+      const { stdout } = await execa(this.twmdPath, args, {
+        timeout: parseInt(process.env.PROBE_TIMEOUT || '60000'),
+      });
+      return parseTwmdUrls(stdout).map(url => ({ itemId: twitterMediaId(url), url }));
+    } catch (error) {
+      this.logger.warn(`twmd listing failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw new BadRequestException('Could not list the tweets of this profile');
+    }
+  }
+
+  /**
+   * Create jobs for the items of `subscriptionId` not seen yet. Listing errors
+   * are kept in `lastError` rather than thrown, the next check retries.
+   */
+  async checkSubscription(subscriptionId: string) {
+    const subscription = await this.database.subscription.findUnique({
+      where: { id: subscriptionId },
+      include: { user: { select: { id: true, username: true, role: true } } },
+    });
+    if (!subscription) {
+      return null;
+    }
+
+    const options = JSON.parse(subscription.options || '{}') as SubscriptionOptions;
+    let listed: SourceItem[];
+    try {
+      listed = await this.listItems({
+        url: subscription.url,
+        type: subscription.type as SubscriptionType,
+        maxItems: subscription.maxItems,
+        options,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.database.subscription.update({
+        where: { id: subscriptionId },
+        data: { lastCheckedAt: new Date(), lastError: message },
+      });
+      this.logger.warn(`Subscription ${subscriptionId} check failed: ${message}`);
+      return { listed: 0, created: 0, failed: 0, error: message };
+    }
+
+    const seen = await this.database.subscriptionItem.findMany({
+      where: { subscriptionId, itemId: { in: listed.map(item => item.itemId) } },
+      select: { itemId: true },
+    });
+    const seenIds = new Set(seen.map(item => item.itemId));
+    // Oldest first, so jobs are created in publication order
+    const fresh = listed.filter(item => !seenIds.has(item.itemId)).reverse();
+
+    let created = 0;
+    let failed = 0;
+    let lastError: string | null = null;
+
+    if (fresh.length > 0) {
+      const owner: AuthUser = {
+        id: subscription.user.id,
+        username: subscription.user.username,
+        role: subscription.user.role as UserRole,
+      };
+      const batch = await this.downloads.createBatch(
+        fresh.map((item, index) => ({ line: index + 1, input: this.jobInput(subscription.type as SubscriptionType, options, item) })),
+        owner,
+      );
+
+      // Rejected items are not recorded, the next check tries them again
+      const items = batch.results.flatMap(result => {
+        const item = fresh[result.line - 1];
+        return 'jobId' in result && result.jobId
+          ? [{ subscriptionId, itemId: item.itemId, url: item.url, title: item.title ?? null, jobId: result.jobId }]
+          : [];
+      });
+      await this.database.subscriptionItem.createMany({ data: items, skipDuplicates: true });
+
+      created = batch.created;
+      failed = batch.failed;
+      const rejected = batch.results.find(result => 'error' in result && result.error);
+      if (rejected && 'error' in rejected) {
+        lastError = `${failed} items rejected: ${rejected.error}`;
+      }
+    }
+
+    await this.database.subscription.update({
+      where: { id: subscriptionId },
+      data: { lastCheckedAt: new Date(), lastError },
+    });
+
+    if (created > 0) {
+      this.logger.info(`Subscription ${subscriptionId} created ${created} jobs`);
+    }
+
+    return { listed: listed.length, created, failed, error: lastError };
+  }
+
+  private async process(job: Job<SubscriptionCheckJobData>) {
+    await this.checkSubscription(job.data.subscriptionId);
+  }
+
+  // Tweet media are plain files; other sources keep their own downloader
+  private jobInput(type: SubscriptionType, options: SubscriptionOptions, item: SourceItem) {
+    const common = { ...options, twitter: undefined, pinterest: undefined };
+    if (type === 'twitter') {
+      return { ...common, url: item.url, type: 'file' };
+    }
+    return {
+      ...common,
+      pinterest: type === 'pinterest' ? options.pinterest : undefined,
+      url: item.url,
+      type,
+    };
+  }
+}
@@ -0,0 +1,63 @@
+import * as path from 'path';
+import type { PlaylistEntry } from '../downloads/media-probe.service.js';
+import type { SubscriptionOptions } from '../../shared/dto/subscription.dto.js';
+
+/** One item listed by a subscription source; `itemId` is what marks it as seen. */
+export interface SourceItem {
+  itemId: string;
+  url: string;
+  title?: string;
+}
+
+// Entries without an extractor id are identified by their URL
+export function fromPlaylistEntries(entries: PlaylistEntry[]): SourceItem[] {
+  return entries.map(entry => ({
+    itemId: entry.id ?? entry.url,
+    url: entry.url,
+    ...(entry.title ? { title: entry.title } : {}),
+  }));
+}
+
+/**
+ * twmd arguments printing the media URLs of the latest `maxItems` tweets of
+ * `username` instead of downloading them.
+ */
+export function twmdListArgs(username: string, maxItems: number, options: SubscriptionOptions['twitter']): string[] {
+  const args = ['-B', '-U', '-u', username, '-n', String(maxItems)];
+  if (options?.includeRetweets) {
+    args.push('-r');
+  }
+
+  switch (options?.mediaType ?? 'all') {
+    case 'images':
+      args.push('-i');
+      break;
+    case 'videos':
+      args.push('-v');
+      break;
+    case 'all':
+      args.push('-a');
+      break;
+  }
+  return args;
+}
+
+// twmd prints one URL per line, mixed with its own status messages
+export function parseTwmdUrls(stdout: string): string[] {
+  const urls = new Set<string>();
+  for (const line of stdout.split(/\r?\n/)) {
+    const match = /https?:\/\/\S+/.exec(line);
+    if (match) urls.add(match[0]);
+  }
+  return [...urls];
+}
+
+/** Media key of a Twitter media URL: the file name without extension and query. */
+export function twitterMediaId(url: string): string {
+  try {
+    const name = path.posix.basename(new URL(url).pathname);
+    return name.replace(/\.[^.]+$/, '') || url;
+  } catch {
+    return url;
+  }
+}
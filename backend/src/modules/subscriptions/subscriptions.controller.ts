@@ -0,0 +1,76 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Patch,
+  Delete,
+  Param,
+  Body,
+  Query,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import { SubscriptionsService } from './subscriptions.service.js';
+import { AuthGuard, CurrentUser, RequireScopes } from '../../shared/guards/auth.guard.js';
+import type { AuthUser } from '../../shared/auth/auth-user.js';
+import type { CreateSubscriptionDto, UpdateSubscriptionDto } from '../../shared/dto/subscription.dto.js';
+import { CreateSubscriptionSchema, UpdateSubscriptionSchema } from '../../shared/dto/subscription.dto.js';
+import { ZodValidationPipe } from '../../shared/pipes/zod-validation.pipe.js';
+
+@Controller('subscriptions')
+@UseGuards(AuthGuard)
+@RequireScopes('subscriptions:manage')
+export class SubscriptionsController {
+  constructor(private subscriptionsService: SubscriptionsService) {}
+
+  @Get()
+  async listSubscriptions(@CurrentUser() user: AuthUser) {
+    return this.subscriptionsService.listSubscriptions(user);
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async createSubscription(
+    @Body(new ZodValidationPipe(CreateSubscriptionSchema)) dto: CreateSubscriptionDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.subscriptionsService.createSubscription(dto, user);
+  }
+
+  @Get(':subscriptionId')
+  async getSubscription(@Param('subscriptionId') subscriptionId: string, @CurrentUser() user: AuthUser) {
+    return this.subscriptionsService.getSubscription(subscriptionId, user);
+  }
+
+  @Patch(':subscriptionId')
+  async updateSubscription(
+    @Param('subscriptionId') subscriptionId: string,
+    @Body(new ZodValidationPipe(UpdateSubscriptionSchema)) dto: UpdateSubscriptionDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.subscriptionsService.updateSubscription(subscriptionId, dto, user);
+  }
+
+  @Delete(':subscriptionId')
+  @HttpCode(HttpStatus.OK)
+  async deleteSubscription(@Param('subscriptionId') subscriptionId: string, @CurrentUser() user: AuthUser) {
+    await this.subscriptionsService.deleteSubscription(subscriptionId, user);
+    return { success: true };
+  }
+
+  @Post(':subscriptionId/check')
+  @HttpCode(HttpStatus.OK)
+  async checkNow(@Param('subscriptionId') subscriptionId: string, @CurrentUser() user: AuthUser) {
+    return this.subscriptionsService.checkNow(subscriptionId, user);
+  }
+
+  @Get(':subscriptionId/items')
+  async listItems(
+    @Param('subscriptionId') subscriptionId: string,
+    @CurrentUser() user: AuthUser,
+    @Query('page') page = '1',
+  ) {
+    return this.subscriptionsService.listItems(subscriptionId, user, Math.max(1, parseInt(page) || 1));
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { SubscriptionsController } from './subscriptions.controller.js';
+import { SubscriptionsService } from './subscriptions.service.js';
+import { SubscriptionSchedulerService } from './subscription-scheduler.service.js';
+import { DownloadsModule } from '../downloads/downloads.module.js';
+
+@Module({
+  imports: [DownloadsModule],
+  controllers: [SubscriptionsController],
+  providers: [SubscriptionsService, SubscriptionSchedulerService],
+})
+export class SubscriptionsModule {}
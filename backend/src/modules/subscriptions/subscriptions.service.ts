@@ -0,0 +1,161 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import type { Subscription } from '@prisma/client';
+import { DatabaseService } from '../../shared/database.service.js';
+import { Logger } from '../../shared/logger.service.js';
+import { isAdmin } from '../../shared/auth/auth-user.js';
+import type { AuthUser } from '../../shared/auth/auth-user.js';
+import type { CreateSubscriptionDto, UpdateSubscriptionDto } from '../../shared/dto/subscription.dto.js';
+import { SubscriptionSchedulerService } from './subscription-scheduler.service.js';
+
+// Seen items returned per page of history
+const ITEMS_LIMIT = 50;
+
+@Injectable()
+export class SubscriptionsService {
+  constructor(
+    private database: DatabaseService,
+    private scheduler: SubscriptionSchedulerService,
+    private logger: Logger,
+  ) {}
+
+  async listSubscriptions(user: AuthUser) {
+    const subscriptions = await this.database.subscription.findMany({
+      where: this.userScope(user),
+      orderBy: { createdAt: 'desc' },
+      include: { _count: { select: { items: true } } },
+    });
+    return subscriptions.map(subscription => ({
+      ...this.toSubscription(subscription),
+      itemCount: subscription._count.items,
+    }));
+  }
+
+  async getSubscription(subscriptionId: string, user: AuthUser) {
+    const subscription = await this.findSubscription(subscriptionId, user);
+    const itemCount = await this.database.subscriptionItem.count({ where: { subscriptionId } });
+    return { ...this.toSubscription(subscription), itemCount };
+  }
+
+  async createSubscription(dto: CreateSubscriptionDto, user: AuthUser) {
+    // Listed up front so an unreachable source is refused rather than saved
+    const existing = dto.skipExisting ? await this.scheduler.listItems(dto) : [];
+
+    const subscription = await this.database.subscription.create({
+      data: {
+        name: dto.name ?? null,
+        url: dto.url,
+        type: dto.type,
+        schedule: dto.schedule,
+        options: JSON.stringify(dto.options),
+        maxItems: dto.maxItems,
+        enabled: dto.enabled,
+        userId: user.id,
+        lastCheckedAt: dto.skipExisting ? new Date() : null,
+        items: {
+          createMany: {
+            data: existing.map(item => ({ itemId: item.itemId, url: item.url, title: item.title ?? null })),
+            skipDuplicates: true,
+          },
+        },
+      },
+    });
+    await this.scheduler.schedule(subscription);
+
+    this.logger.info(`${user.username} subscribed to ${dto.type} ${dto.url} (${dto.schedule})`);
+
+    return { ...this.toSubscription(subscription), itemCount: existing.length };
+  }
+
+  async updateSubscription(subscriptionId: string, dto: UpdateSubscriptionDto, user: AuthUser) {
+    await this.findSubscription(subscriptionId, user);
+
+    const { options, ...fields } = dto;
+    const subscription = await this.database.subscription.update({
+      where: { id: subscriptionId },
+      data: { ...fields, ...(options ? { options: JSON.stringify(options) } : {}) },
+    });
+    await this.scheduler.schedule(subscription);
+
+    return this.getSubscription(subscriptionId, user);
+  }
+
+  async deleteSubscription(subscriptionId: string, user: AuthUser) {
+    await this.findSubscription(subscriptionId, user);
+    await this.scheduler.unschedule(subscriptionId);
+    // Jobs already created are kept
+    await this.database.subscription.delete({ where: { id: subscriptionId } });
+    this.logger.info(`${user.username} deleted subscription ${subscriptionId}`);
+  }
+
+  /** Check the source now, outside of its schedule. */
+  async checkNow(subscriptionId: string, user: AuthUser) {
+    await this.findSubscription(subscriptionId, user);
+    return this.scheduler.checkSubscription(subscriptionId);
+  }
+
+  async listItems(subscriptionId: string, user: AuthUser, page = 1) {
+    await this.findSubscription(subscriptionId, user);
+
+    const [items, total] = await Promise.all([
+      this.database.subscriptionItem.findMany({
+        where: { subscriptionId },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * ITEMS_LIMIT,
+        take: ITEMS_LIMIT,
+      }),
+      this.database.subscriptionItem.count({ where: { subscriptionId } }),
+    ]);
+
+    return {
+      items: items.map(item => ({
+        id: item.id,
+        itemId: item.itemId,
+        url: item.url,
+        title: item.title,
+        jobId: item.jobId,
+        createdAt: item.createdAt,
+      })),
+      pagination: {
+        page,
+        limit: ITEMS_LIMIT,
+        total,
+        pages: Math.ceil(total / ITEMS_LIMIT),
+      },
+    };
+  }
+
+  private async findSubscription(subscriptionId: string, user: AuthUser) {
+    const subscription = await this.database.subscription.findFirst({
+      where: { id: subscriptionId, ...this.userScope(user) },
+    });
+
+    if (!subscription) {
+      throw new NotFoundException('Subscription not found');
+    }
+
+    return subscription;
+  }
+
+  // Admins manage every subscription, users their own
+  private userScope(user: AuthUser): { userId?: string } {
+    return isAdmin(user) ? {} : { userId: user.id };
+  }
+
+  private toSubscription(subscription: Subscription) {
+    return {
+      id: subscription.id,
+      name: subscription.name,
+      url: subscription.url,
+      type: subscription.type,
+      schedule: subscription.schedule,
+      options: JSON.parse(subscription.options || '{}') as unknown,
+      maxItems: subscription.maxItems,
+      enabled: subscription.enabled,
+      userId: subscription.userId,
+      lastCheckedAt: subscription.lastCheckedAt,
+      lastError: subscription.lastError,
+      createdAt: subscription.createdAt,
+      updatedAt: subscription.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,22 @@
+import { createHmac } from 'crypto';
+import { signWebhookPayload, webhookSignatureHeader } from '../webhook-signature.js';
+
+const SECRET = 'whsec_secret-de-test';
+const BODY = JSON.stringify({ event: 'job.completed', data: { jobId: 'abc' } });
+
+describe('webhook-signature', () => {
+  test('signe le corps et son horodatage avec HMAC-SHA256', () => {
+    const expected = createHmac('sha256', SECRET).update(`1792497600.${BODY}`).digest('hex');
+
+    expect(signWebhookPayload(SECRET, 1792497600, BODY)).toBe(expected);
+    expect(webhookSignatureHeader(SECRET, 1792497600, BODY)).toBe(`t=1792497600,v1=${expected}`);
+  });
+
+  test('diffère dès que le corps, la date ou le secret change', () => {
+    const signature = signWebhookPayload(SECRET, 1792497600, BODY);
+
+    expect(signWebhookPayload(SECRET, 1792497601, BODY)).not.toBe(signature);
+    expect(signWebhookPayload(SECRET, 1792497600, `${BODY} `)).not.toBe(signature);
+    expect(signWebhookPayload('autre-secret', 1792497600, BODY)).not.toBe(signature);
+  });
+});
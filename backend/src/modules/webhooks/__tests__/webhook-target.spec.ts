@@ -0,0 +1,27 @@
+import { assertPublicWebhookTarget, isPrivateAddress, PrivateWebhookTargetError } from '../webhook-target.js';
+
+describe('webhook-target', () => {
+  test('reconnaît les adresses internes IPv4', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '172.31.255.255', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0']) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+    for (const address of ['8.8.8.8', '172.32.0.1', '100.128.0.1', '93.184.216.34']) {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  });
+
+  test('reconnaît les adresses internes IPv6, y compris les IPv4 mappées', () => {
+    for (const address of ['::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:7f00:1', '::ffff:a9fe:a9fe']) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+    expect(isPrivateAddress('2606:4700::1111')).toBe(false);
+    expect(isPrivateAddress('::ffff:808:808')).toBe(false);
+  });
+
+  test('refuse localhost et les IP internes sans résolution DNS', async () => {
+    await expect(assertPublicWebhookTarget('http://localhost:3000/hook')).rejects.toBeInstanceOf(PrivateWebhookTargetError);
+    await expect(assertPublicWebhookTarget('http://127.1/hook')).rejects.toBeInstanceOf(PrivateWebhookTargetError);
+    await expect(assertPublicWebhookTarget('http://[::ffff:169.254.169.254]/')).rejects.toBeInstanceOf(PrivateWebhookTargetError);
+    await expect(assertPublicWebhookTarget('https://93.184.216.34/hook')).resolves.toBeUndefined();
+  });
+});
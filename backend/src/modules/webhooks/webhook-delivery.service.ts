@@ -0,0 +1,159 @@
+import { Injectable, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { Queue, Worker } from 'bullmq';
+import type { Job } from 'bullmq';
+import { Redis } from 'ioredis';
+import { DatabaseService } from '../../shared/database.service.js';
+import { Logger } from '../../shared/logger.service.js';
+import { webhookSignatureHeader } from './webhook-signature.js';
+import { assertPublicWebhookTarget, PrivateWebhookTargetError } from './webhook-target.js';
+
+export interface WebhookDeliveryJobData {
+  deliveryId: string;
+}
+
+/**
+ * Sends webhook deliveries from their own BullMQ queue, processed by the API
+ * itself so the delivery history stays written by the server only. A failed
+ * attempt (network error, timeout, non-2xx answer) is retried with
+ * exponential backoff until `WEBHOOK_MAX_ATTEMPTS`.
+ */
+@Injectable()
+export class WebhookDeliveryService implements OnModuleInit, OnModuleDestroy {
+  private redis!: Redis;
+  private queue!: Queue<WebhookDeliveryJobData>;
+  private worker!: Worker<WebhookDeliveryJobData>;
+  private maxAttempts = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '6', 10);
+  private timeoutMs = parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10);
+
+  constructor(
+    private database: DatabaseService,
+    private logger: Logger,
+  ) {}
+
+  async onModuleInit() {
+    this.redis = new Redis({
+      host: process.env.REDIS_HOST || 'localhost',
+      port: parseInt(process.env.REDIS_PORT || '6379'),
+      password: process.env.REDIS_PASSWORD || undefined,
+      maxRetriesPerRequest: null,
+    });
+
+    this.queue = new Queue('webhooks', {
+      connection: this.redis,
+      defaultJobOptions: {
+        removeOnComplete: 1000,
+        removeOnFail: 1000,
+        attempts: this.maxAttempts,
+        backoff: {
+          type: 'exponential',
+          delay: 10000,
+        },
+      },
+    });
+
+    this.worker = new Worker('webhooks', job => this.deliver(job), {
+      connection: this.redis,
+      concurrency: parseInt(process.env.WEBHOOK_CONCURRENCY || '5', 10),
+    });
+
+    this.worker.on('error', (err: Error) => {
+      this.logger.error('Webhook worker error', err.message);
+    });
+  }
+
+  async onModuleDestroy() {
+    await this.worker?.close();
+    await this.queue?.close();
+    await this.redis?.disconnect();
+  }
+
+  async enqueue(deliveryId: string) {
+    // The delivery id doubles as job id, so a delivery is never queued twice
+    await this.queue.add('deliver', { deliveryId }, { jobId: deliveryId });
+  }
+
+  private async deliver(job: Job<WebhookDeliveryJobData>) {
+    const delivery = await this.database.webhookDelivery.findUnique({
+      where: { id: job.data.deliveryId },
+      include: { webhook: { include: { user: { select: { role: true } } } } },
+    });
+
+    // Deleted along with its webhook
+    if (!delivery) return;
+
+    if (!delivery.webhook.enabled) {
+      await this.database.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: { status: 'failed', lastError: 'Webhook disabled' },
+      });
+      return;
+    }
+
+    const attempt = job.attemptsMade + 1;
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+
+    try {
+      // Checked again on every attempt: the host may resolve elsewhere since the webhook was saved
+      if (delivery.webhook.user.role !== 'admin') {
+        await assertPublicWebhookTarget(delivery.webhook.url);
+      }
+
+      const response = await fetch(delivery.webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'adm-webhooks/1.0',
+          'X-Webhook-Id': delivery.webhookId,
+          'X-Webhook-Delivery': delivery.id,
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Signature': webhookSignatureHeader(
+            delivery.webhook.secret,
+            Math.floor(Date.now() / 1000),
+            delivery.payload,
+          ),
+        },
+        body: delivery.payload,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+      responseStatus = response.status;
+      await response.body?.cancel();
+      if (!response.ok) {
+        error = `HTTP ${response.status}`;
+      }
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+      // Retrying would not change the answer
+      if (e instanceof PrivateWebhookTargetError) {
+        await this.database.webhookDelivery.update({
+          where: { id: delivery.id },
+          data: { status: 'failed', attempts: attempt, lastError: error, lastAttemptAt: new Date() },
+        });
+        this.logger.warn(`Webhook delivery ${delivery.id} refused: ${error}`);
+        return;
+      }
+    }
+
+    const succeeded = error === null;
+    const exhausted = attempt >= (job.opts.attempts ?? 1);
+
+    await this.database.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: succeeded ? 'succeeded' : exhausted ? 'failed' : 'pending',
+        attempts: attempt,
+        responseStatus,
+        lastError: error,
+        lastAttemptAt: new Date(),
+        deliveredAt: succeeded ? new Date() : null,
+      },
+    });
+
+    if (!succeeded) {
+      this.logger.warn(`Webhook delivery ${delivery.id} attempt ${attempt} failed: ${error}`);
+      // Let BullMQ schedule the next attempt
+      throw new Error(error ?? 'Delivery failed');
+    }
+  }
+}
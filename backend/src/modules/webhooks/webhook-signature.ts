@@ -0,0 +1,14 @@
+import { createHmac } from 'crypto';
+
+/**
+ * `X-Webhook-Signature` header: `t=<unix seconds>,v1=<hex HMAC-SHA256>` over
+ * `<t>.<body>`. Receivers recompute it with the webhook secret and reject
+ * stale timestamps to prevent replays.
+ */
+export function webhookSignatureHeader(secret: string, timestamp: number, body: string): string {
+  return `t=${timestamp},v1=${signWebhookPayload(secret, timestamp, body)}`;
+}
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
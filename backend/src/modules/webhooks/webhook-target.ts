@@ -0,0 +1,60 @@
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+
+/** Webhook URL whose host is, or resolves to, an internal address. */
+export class PrivateWebhookTargetError extends Error {
+  constructor(host: string, address: string) {
+    super(`Webhook host ${host} resolves to a non-public address (${address})`);
+    this.name = 'PrivateWebhookTargetError';
+  }
+}
+
+/**
+ * Loopback, unspecified, private, shared (CGNAT), link-local, multicast and
+ * reserved addresses, IPv4 or IPv6 (IPv4-mapped IPv6 included).
+ */
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) {
+    const [a, b] = address.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127 || a >= 224
+      || (a === 100 && b >= 64 && b < 128)
+      || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b < 32)
+      || (a === 192 && b === 168);
+  }
+  if (version !== 6) return false;
+
+  const ip = address.toLowerCase();
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/.exec(ip);
+  if (mapped) return isPrivateAddress(mapped[1]);
+  // The URL parser writes ::ffff:127.0.0.1 as ::ffff:7f00:1
+  const mappedHex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(ip);
+  if (mappedHex) {
+    const high = parseInt(mappedHex[1], 16);
+    const low = parseInt(mappedHex[2], 16);
+    return isPrivateAddress(`${high >> 8}.${high & 0xff}.${low >> 8}.${low & 0xff}`);
+  }
+  return ip === '::' || ip === '::1'
+    || /^f[cd]/.test(ip) // unique local fc00::/7
+    || /^fe[89ab]/.test(ip) // link-local fe80::/10
+    || ip.startsWith('ff'); // multicast
+}
+
+/**
+ * Throws `PrivateWebhookTargetError` when the URL's host is localhost or one
+ * of its addresses is internal. DNS errors are passed on as they are.
+ */
+export async function assertPublicWebhookTarget(url: string): Promise<void> {
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, '').toLowerCase();
+
+  if (host === 'localhost' || host.endsWith('.localhost')) {
+    throw new PrivateWebhookTargetError(host, host);
+  }
+
+  const addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map(entry => entry.address);
+  const internal = addresses.find(isPrivateAddress);
+  if (internal) {
+    throw new PrivateWebhookTargetError(host, internal);
+  }
+}
@@ -0,0 +1,65 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Patch,
+  Delete,
+  Param,
+  Body,
+  Query,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import { WebhooksService } from './webhooks.service.js';
+import { AuthGuard, CurrentUser, RequireScopes } from '../../shared/guards/auth.guard.js';
+import type { AuthUser } from '../../shared/auth/auth-user.js';
+import type { CreateWebhookDto, UpdateWebhookDto } from '../../shared/dto/webhook.dto.js';
+import { CreateWebhookSchema, UpdateWebhookSchema } from '../../shared/dto/webhook.dto.js';
+import { ZodValidationPipe } from '../../shared/pipes/zod-validation.pipe.js';
+
+@Controller('webhooks')
+@UseGuards(AuthGuard)
+@RequireScopes('webhooks:manage')
+export class WebhooksController {
+  constructor(private webhooksService: WebhooksService) {}
+
+  @Get()
+  async listWebhooks(@CurrentUser() user: AuthUser) {
+    return this.webhooksService.listWebhooks(user);
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async createWebhook(
+    @Body(new ZodValidationPipe(CreateWebhookSchema)) dto: CreateWebhookDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.webhooksService.createWebhook(dto, user);
+  }
+
+  @Patch(':webhookId')
+  async updateWebhook(
+    @Param('webhookId') webhookId: string,
+    @Body(new ZodValidationPipe(UpdateWebhookSchema)) dto: UpdateWebhookDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.webhooksService.updateWebhook(webhookId, dto, user);
+  }
+
+  @Delete(':webhookId')
+  @HttpCode(HttpStatus.OK)
+  async deleteWebhook(@Param('webhookId') webhookId: string, @CurrentUser() user: AuthUser) {
+    await this.webhooksService.deleteWebhook(webhookId, user);
+    return { success: true };
+  }
+
+  @Get(':webhookId/deliveries')
+  async listDeliveries(
+    @Param('webhookId') webhookId: string,
+    @CurrentUser() user: AuthUser,
+    @Query('page') page = '1',
+  ) {
+    return this.webhooksService.listDeliveries(webhookId, user, Math.max(1, parseInt(page) || 1));
+  }
+}
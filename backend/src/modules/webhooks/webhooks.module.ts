@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { WebhooksController } from './webhooks.controller.js';
+import { WebhooksService } from './webhooks.service.js';
+import { WebhookDeliveryService } from './webhook-delivery.service.js';
+
+@Module({
+  controllers: [WebhooksController],
+  providers: [WebhooksService, WebhookDeliveryService],
+  exports: [WebhooksService],
+})
+export class WebhooksModule {}
\ No newline at end of file
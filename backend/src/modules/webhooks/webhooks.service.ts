@@ -0,0 +1,193 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { randomBytes, randomUUID } from 'crypto';
+import type { Prisma, Webhook } from '@prisma/client';
+import { DatabaseService } from '../../shared/database.service.js';
+import { Logger } from '../../shared/logger.service.js';
+import { isAdmin } from '../../shared/auth/auth-user.js';
+import type { AuthUser } from '../../shared/auth/auth-user.js';
+import type { CreateWebhookDto, UpdateWebhookDto, WebhookEvent } from '../../shared/dto/webhook.dto.js';
+import { WebhookDeliveryService } from './webhook-delivery.service.js';
+import { assertPublicWebhookTarget } from './webhook-target.js';
+
+// Deliveries returned per page of history
+const HISTORY_LIMIT = 50;
+
+@Injectable()
+export class WebhooksService {
+  constructor(
+    private database: DatabaseService,
+    private deliveries: WebhookDeliveryService,
+    private logger: Logger,
+  ) {}
+
+  async listWebhooks(user: AuthUser) {
+    const webhooks = await this.database.webhook.findMany({
+      where: this.userScope(user),
+      orderBy: { createdAt: 'desc' },
+    });
+    return webhooks.map(webhook => this.toWebhook(webhook));
+  }
+
+  // The secret is only part of this response
+  async createWebhook(dto: CreateWebhookDto, user: AuthUser) {
+    await this.checkTarget(dto.url, user);
+
+    const webhook = await this.database.webhook.create({
+      data: {
+        url: dto.url,
+        events: dto.events,
+        secret: dto.secret ?? `whsec_${randomBytes(24).toString('base64url')}`,
+        enabled: dto.enabled,
+        userId: user.id,
+      },
+    });
+
+    this.logger.info(`${user.username} registered webhook ${webhook.id} for ${dto.events.join(', ')}`);
+
+    return { ...this.toWebhook(webhook), secret: webhook.secret };
+  }
+
+  async updateWebhook(webhookId: string, dto: UpdateWebhookDto, user: AuthUser) {
+    await this.findWebhook(webhookId, user);
+    if (dto.url) {
+      await this.checkTarget(dto.url, user);
+    }
+
+    const webhook = await this.database.webhook.update({
+      where: { id: webhookId },
+      data: dto,
+    });
+    return this.toWebhook(webhook);
+  }
+
+  async deleteWebhook(webhookId: string, user: AuthUser) {
+    await this.findWebhook(webhookId, user);
+    await this.database.webhook.delete({ where: { id: webhookId } });
+    this.logger.info(`${user.username} deleted webhook ${webhookId}`);
+  }
+
+  async listDeliveries(webhookId: string, user: AuthUser, page = 1) {
+    await this.findWebhook(webhookId, user);
+
+    const [deliveries, total] = await Promise.all([
+      this.database.webhookDelivery.findMany({
+        where: { webhookId },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * HISTORY_LIMIT,
+        take: HISTORY_LIMIT,
+      }),
+      this.database.webhookDelivery.count({ where: { webhookId } }),
+    ]);
+
+    return {
+      deliveries: deliveries.map(delivery => ({
+        id: delivery.id,
+        event: delivery.event,
+        jobId: delivery.jobId,
+        status: delivery.status,
+        attempts: delivery.attempts,
+        responseStatus: delivery.responseStatus,
+        lastError: delivery.lastError,
+        lastAttemptAt: delivery.lastAttemptAt,
+        deliveredAt: delivery.deliveredAt,
+        createdAt: delivery.createdAt,
+      })),
+      pagination: {
+        page,
+        limit: HISTORY_LIMIT,
+        total,
+        pages: Math.ceil(total / HISTORY_LIMIT),
+      },
+    };
+  }
+
+  /**
+   * Queue `event` for every enabled webhook subscribed to it whose owner can
+   * see the job: the job owner's webhooks and every admin webhook. Never
+   * throws, a webhook problem must not fail the job update that triggered it.
+   */
+  async dispatch(event: WebhookEvent, jobId: string) {
+    try {
+      const job = await this.database.job.findUnique({
+        where: { id: jobId },
+        include: { owner: { select: { username: true } } },
+      });
+      if (!job) return;
+
+      const audience: Prisma.WebhookWhereInput[] = [{ user: { role: 'admin' } }];
+      if (job.ownerId) audience.push({ userId: job.ownerId });
+
+      const webhooks = await this.database.webhook.findMany({
+        where: { enabled: true, events: { has: event }, OR: audience },
+        select: { id: true },
+      });
+
+      for (const webhook of webhooks) {
+        const deliveryId = randomUUID();
+        const payload = JSON.stringify({
+          id: deliveryId,
+          event,
+          createdAt: new Date().toISOString(),
+          data: {
+            jobId: job.id,
+            parentId: job.parentId,
+            url: job.url,
+            type: job.type,
+            status: job.status,
+            filename: job.filename,
+            totalBytes: job.totalBytes != null ? Number(job.totalBytes) : null,
+            errorCode: job.errorCode,
+            errorMessage: job.errorMessage,
+            owner: job.owner?.username ?? null,
+          },
+        });
+
+        await this.database.webhookDelivery.create({
+          data: { id: deliveryId, webhookId: webhook.id, event, jobId, payload },
+        });
+        await this.deliveries.enqueue(deliveryId);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to dispatch ${event} for job ${jobId}`, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private async findWebhook(webhookId: string, user: AuthUser) {
+    const webhook = await this.database.webhook.findFirst({
+      where: { id: webhookId, ...this.userScope(user) },
+    });
+
+    if (!webhook) {
+      throw new NotFoundException('Webhook not found');
+    }
+
+    return webhook;
+  }
+
+  // Only admins may point a webhook at the server's own network
+  private async checkTarget(url: string, user: AuthUser) {
+    if (isAdmin(user)) return;
+    try {
+      await assertPublicWebhookTarget(url);
+    } catch (error) {
+      throw new BadRequestException(error instanceof Error ? error.message : 'Invalid webhook URL');
+    }
+  }
+
+  // Admins manage every webhook, users their own
+  private userScope(user: AuthUser): { userId?: string } {
+    return isAdmin(user) ? {} : { userId: user.id };
+  }
+
+  private toWebhook(webhook: Webhook) {
+    return {
+      id: webhook.id,
+      url: webhook.url,
+      events: webhook.events,
+      enabled: webhook.enabled,
+      userId: webhook.userId,
+      createdAt: webhook.createdAt,
+      updatedAt: webhook.updatedAt,
+    };
+  }
+}
@@ -10,6 +10,9 @@ import {
 import { Logger } from '@nestjs/common';
 import { Server, Socket } from 'socket.io';
 import { DownloadsService } from '../downloads/downloads.service.js';
+import { WebhooksService } from '../webhooks/webhooks.service.js';
+import { TokenService } from '../../shared/auth/token.service.js';
+import type { AuthUser } from '../../shared/auth/auth-user.js';
 
 export interface ProgressEvent {
   jobId: string;
@@ -27,17 +30,37 @@ export interface LogEvent {
   message: string;
 }
 
+export interface OutputFile {
+  filename: string;
+  size: number;
+  outputPath: string;
+  mimeType: string;
+  sha256: string;
+}
+
 export interface CompletedEvent {
   jobId: string;
   filename: string;
   size: number;
   outputPath: string;
+  // Every file of the job, main output first
+  files?: OutputFile[];
+  thumbnailPath?: string;
 }
 
 export interface FailedEvent {
   jobId: string;
   errorCode: string;
   message: string;
+  // Attempts run so far, this one included
+  attemptsMade: number;
+  // BullMQ runs the job again after a backoff: the job is not failed yet
+  willRetry: boolean;
+}
+
+export interface CancelledEvent {
+  jobId: string;
+  message?: string;
 }
 
 @WSGateway()  // Configuration centralisée dans SocketIOAdapter (namespace par défaut pour les clients UI)
@@ -49,11 +72,21 @@ export class WebSocketGateway implements OnGatewayConnection, OnGatewayDisconnec
 
   private readonly logger = new Logger(WebSocketGateway.name);
 
-  constructor(private downloads: DownloadsService) {}
+  constructor(
+    private downloads: DownloadsService,
+    private tokens: TokenService,
+  ) {}
 
-  handleConnection(client: Socket) {
+  // UI clients authenticate with the same token as the REST API
+  async handleConnection(client: Socket) {
+    const user = await this.authenticate(client);
+    if (!user) {
+      this.logger.warn(`Unauthenticated WebSocket client: ${client.id}`);
+      client.disconnect(true);
+      return;
+    }
     this.connectedClients.set(client.id, client);
-    this.logger.debug(`WebSocket client connected: ${client.id}`);
+    this.logger.debug(`WebSocket client connected: ${client.id} (${user.username})`);
   }
 
   handleDisconnect(client: Socket) {
@@ -62,10 +95,15 @@ export class WebSocketGateway implements OnGatewayConnection, OnGatewayDisconnec
   }
 
   @SubscribeMessage('join-job')
-  handleJoinJob(
+  async handleJoinJob(
     @MessageBody() data: { jobId: string },
     @ConnectedSocket() client: Socket,
   ) {
+    const user = await this.authenticate(client);
+    if (!user || !(await this.downloads.canAccessJob(data.jobId, user))) {
+      return { success: false, error: 'Job not found' };
+    }
+
     const room = `job:${data.jobId}`;
     client.join(room);
     this.logger.debug(`Client ${client.id} joined room ${room}`);
@@ -83,6 +121,20 @@ export class WebSocketGateway implements OnGatewayConnection, OnGatewayDisconnec
     return { success: true, room };
   }
 
+  // Resolved once per socket; join-job may arrive before handleConnection finishes
+  private async authenticate(client: Socket): Promise<AuthUser | null> {
+    if (client.data.user === undefined) {
+      const auth = client.handshake.auth as { token?: string; apiKey?: string } | undefined;
+      const token = auth?.token ?? (client.handshake.query.access_token as string | undefined);
+      if (auth?.apiKey) {
+        client.data.user = await this.tokens.resolveApiKey(auth.apiKey);
+      } else {
+        client.data.user = token ? await this.tokens.resolve(token) : null;
+      }
+    }
+    return client.data.user as AuthUser | null;
+  }
+
   // Server-side methods to emit events to clients
 
   emitProgress(event: ProgressEvent) {
@@ -108,7 +160,13 @@ export class WebSocketGateway implements OnGatewayConnection, OnGatewayDisconnec
     this.logger.error(`Job ${event.jobId} failed: ${event.message}`);
   }
 
-  emitJobUpdate(jobId: string, update: Partial<{ status: string; stage: string; progress: number }>) {
+  emitCancelled(event: CancelledEvent) {
+    const room = `job:${event.jobId}`;
+    this.server.to(room).emit('cancelled', event);
+    this.logger.log(`Job ${event.jobId} cancelled`);
+  }
+
+  emitJobUpdate(jobId: string, update: Partial<{ status: string; stage: string; progress: number; scheduledAt: string }>) {
     const room = `job:${jobId}`;
     this.server.to(room).emit('job-update', { jobId, ...update });
   }
@@ -143,6 +201,7 @@ export class WorkerEventsGateway {
   constructor(
     private downloads: DownloadsService,
     private uiGateway: WebSocketGateway, // emit to default namespace for UI clients
+    private webhooks: WebhooksService,
   ) {}
 
   // Authenticate worker connections via token
@@ -179,6 +238,7 @@ export class WorkerEventsGateway {
           buffered.eta,
           buffered.totalBytes != null ? BigInt(buffered.totalBytes) : undefined,
         );
+        await this.relayParentUpdate(buffered.jobId);
       } catch (e) {
         this.logger.warn(`DB update failed for progress ${buffered.jobId}: ${e instanceof Error ? e.message : String(e)}`);
       } finally {
@@ -196,10 +256,13 @@ export class WorkerEventsGateway {
     this.progressTimers.delete(event.jobId);
     this.progressBuffer.delete(event.jobId);
     try {
-      await this.downloads.setJobCompleted(event.jobId, event.filename, event.outputPath, event.size);
+      await this.downloads.setJobCompleted(event.jobId, event.filename, event.outputPath, event.size, event.files, event.thumbnailPath);
+      // Persisted first, so the payload carries the final state
+      await this.webhooks.dispatch('job.completed', event.jobId);
     } catch (e) {
       this.logger.warn(`DB update failed for completed ${event.jobId}: ${e instanceof Error ? e.message : String(e)}`);
     }
+    await this.relayParentUpdate(event.jobId);
     // Relay to UI namespace
     this.uiGateway.emitCompleted(event);
   }
@@ -211,19 +274,50 @@ export class WorkerEventsGateway {
     if (t) clearTimeout(t);
     this.progressTimers.delete(event.jobId);
     this.progressBuffer.delete(event.jobId);
+
+    // Only the last attempt fails the job; until then it waits for its retry
+    const status = event.willRetry ? 'queued' : 'failed';
     try {
-      await this.downloads.updateJobStatus(event.jobId, 'failed', event.errorCode, event.message);
+      await this.downloads.updateJobStatus(event.jobId, status, event.errorCode, event.message);
+      if (!event.willRetry) {
+        await this.webhooks.dispatch('job.failed', event.jobId);
+      }
     } catch (e) {
       this.logger.warn(`DB update failed for failed ${event.jobId}: ${e instanceof Error ? e.message : String(e)}`);
     }
+    await this.relayParentUpdate(event.jobId);
+    // Relay to UI namespace
+    if (event.willRetry) {
+      this.uiGateway.emitJobUpdate(event.jobId, { status });
+    } else {
+      this.uiGateway.emitFailed(event);
+    }
+  }
+
+  @SubscribeMessage('cancelled')
+  async handleCancelled(@MessageBody() event: CancelledEvent) {
+    // Flush any buffered progress for this job
+    const t = this.progressTimers.get(event.jobId);
+    if (t) clearTimeout(t);
+    this.progressTimers.delete(event.jobId);
+    this.progressBuffer.delete(event.jobId);
+    try {
+      await this.downloads.setJobCancelled(event.jobId);
+      await this.webhooks.dispatch('job.cancelled', event.jobId);
+    } catch (e) {
+      this.logger.warn(`DB update failed for cancelled ${event.jobId}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    await this.relayParentUpdate(event.jobId);
     // Relay to UI namespace
-    this.uiGateway.emitFailed(event);
+    this.uiGateway.emitCancelled(event);
   }
 
   @SubscribeMessage('job-update')
-  async handleJobUpdate(@MessageBody() data: { jobId: string; status?: string; stage?: string; progress?: number }) {
+  async handleJobUpdate(@MessageBody() data: { jobId: string; status?: string; stage?: string; progress?: number; scheduledAt?: string }) {
     try {
-      if (data.status) {
+      if (data.status === 'scheduled' && data.scheduledAt) {
+        await this.downloads.setJobScheduled(data.jobId, new Date(data.scheduledAt));
+      } else if (data.status) {
         await this.downloads.updateJobStatus(data.jobId, data.status);
       }
       if (data.stage != null || data.progress != null) {
@@ -237,6 +331,19 @@ export class WorkerEventsGateway {
       this.logger.warn(`DB update failed for job-update ${data.jobId}: ${e instanceof Error ? e.message : String(e)}`);
     }
     // Relay to UI namespace
-    this.uiGateway.emitJobUpdate(data.jobId, { status: data.status, stage: data.stage, progress: data.progress });
+    this.uiGateway.emitJobUpdate(data.jobId, { status: data.status, stage: data.stage, progress: data.progress, scheduledAt: data.scheduledAt });
+    if (data.status) await this.relayParentUpdate(data.jobId);
+  }
+
+  // Keep a playlist parent in sync with the entry that just changed
+  private async relayParentUpdate(jobId: string) {
+    try {
+      const parent = await this.downloads.refreshParentOf(jobId);
+      if (parent) {
+        this.uiGateway.emitJobUpdate(parent.jobId, { status: parent.status, progress: parent.progress });
+      }
+    } catch (e) {
+      this.logger.warn(`DB update failed for parent of ${jobId}: ${e instanceof Error ? e.message : String(e)}`);
+    }
   }
 }
@@ -1,9 +1,10 @@
 import { Module } from '@nestjs/common';
 import { WebSocketGateway, WorkerEventsGateway } from './websocket.gateway.js';
 import { DownloadsModule } from '../downloads/downloads.module.js';
+import { WebhooksModule } from '../webhooks/webhooks.module.js';
 
 @Module({
-  imports: [DownloadsModule],
+  imports: [DownloadsModule, WebhooksModule],
   providers: [WebSocketGateway, WorkerEventsGateway],
   exports: [WebSocketGateway],
 })
@@ -0,0 +1,42 @@
+import { currentBandwidthLimit, lowestRate, parseBandwidthSettings, remainingShare, startShare } from '../bandwidth.js';
+
+const at = (hours: number) => new Date(2026, 9, 18, hours);
+
+const MB = 1024 * 1024;
+
+describe('bandwidth', () => {
+  test('applique la limite de jour pendant la plage et celle de nuit en dehors', () => {
+    const settings = { limit: null, schedule: { start: '08:00', end: '19:00', limit: 2 * MB } };
+
+    expect(currentBandwidthLimit(settings, at(10))).toBe(2 * MB);
+    expect(currentBandwidthLimit(settings, at(19))).toBeNull();
+    expect(currentBandwidthLimit({ limit: 5 * MB, schedule: null }, at(10))).toBe(5 * MB);
+  });
+
+  test('lit le réglage enregistré, sans limite par défaut', () => {
+    expect(parseBandwidthSettings(null)).toEqual({ limit: null, schedule: null });
+    expect(parseBandwidthSettings('{"limit":1048576}')).toEqual({ limit: MB, schedule: null });
+  });
+
+  test('donne à un job yt-dlp une part égale des transferts en cours', () => {
+    expect(startShare(null, 3)).toBeUndefined();
+    expect(startShare(6 * MB, 3)).toBe(2 * MB);
+    expect(startShare(6 * MB, 0)).toBe(6 * MB);
+    expect(startShare(100, 3)).toBe(1024);
+  });
+
+  test('partage entre les transferts aria2 ce que laissent les parts fixées', () => {
+    expect(remainingShare(null, [MB], 2)).toBeUndefined();
+    // Deux jobs yt-dlp à 1 Mo/s et deux transferts aria2 sous une limite de 6 Mo/s
+    expect(remainingShare(6 * MB, [MB, MB], 2)).toBe(2 * MB);
+    expect(remainingShare(6 * MB, [MB, MB], 2)! * 2 + 2 * MB).toBe(6 * MB);
+    expect(remainingShare(6 * MB, [], 0)).toBe(6 * MB);
+    // Les parts fixées dépassent déjà la limite: le minimum reste
+    expect(remainingShare(2 * MB, [2 * MB, MB], 1)).toBe(1024);
+  });
+
+  test('retient la limite la plus stricte', () => {
+    expect(lowestRate(undefined, null)).toBeUndefined();
+    expect(lowestRate(4 * MB, undefined, MB)).toBe(MB);
+  });
+});
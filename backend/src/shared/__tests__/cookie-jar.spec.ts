@@ -0,0 +1,62 @@
+import {
+  cookieJarKey,
+  decryptCookies,
+  encryptCookies,
+  parseCookieFile,
+  toNetscapeCookies,
+  toTwmdCookies,
+  unexpiredCookies,
+} from '../cookie-jar.js';
+
+const NETSCAPE = [
+  '# Netscape HTTP Cookie File',
+  '.youtube.com\tTRUE\t/\tTRUE\t1893456000\tPREF\tf6=40000000',
+  '#HttpOnly_www.youtube.com\tFALSE\t/\tFALSE\t0\tSID\tabc\tdef',
+  '',
+].join('\n');
+
+describe('cookie-jar', () => {
+  test('lit un cookies.txt Netscape', () => {
+    expect(parseCookieFile(NETSCAPE)).toEqual([
+      { domain: '.youtube.com', path: '/', secure: true, httpOnly: false, expires: 1893456000, name: 'PREF', value: 'f6=40000000' },
+      { domain: 'www.youtube.com', path: '/', secure: false, httpOnly: true, expires: 0, name: 'SID', value: 'abc\tdef' },
+    ]);
+    expect(() => parseCookieFile('youtube.com\tTRUE\t/')).toThrow('Invalid cookies.txt line 1');
+  });
+
+  test('lit un export JSON de navigateur', () => {
+    const json = JSON.stringify([
+      { name: 'auth_token', value: 'x', domain: 'x.com', hostOnly: false, secure: true, httpOnly: true, expirationDate: 1893456000.5 },
+      { name: 'lang', value: 'fr', domain: 'x.com', expiry: 1893456000 },
+    ]);
+
+    expect(parseCookieFile(json)).toEqual([
+      { domain: '.x.com', path: '/', secure: true, httpOnly: true, expires: 1893456000, name: 'auth_token', value: 'x' },
+      { domain: 'x.com', path: '/', secure: false, httpOnly: false, expires: 1893456000, name: 'lang', value: 'fr' },
+    ]);
+    expect(() => parseCookieFile('[{"name":"a"}]')).toThrow('JSON cookie 1 needs a name, a value and a domain');
+  });
+
+  test('réécrit les cookies pour yt-dlp/aria2 et twmd', () => {
+    const cookies = parseCookieFile(NETSCAPE);
+
+    expect(parseCookieFile(toNetscapeCookies(cookies))).toEqual(cookies);
+    expect(JSON.parse(toTwmdCookies(cookies))[1]).toEqual({
+      Name: 'SID', Value: 'abc\tdef', Path: '/', Domain: 'www.youtube.com', Expires: '0001-01-01T00:00:00Z', Secure: false, HttpOnly: true,
+    });
+  });
+
+  test('écarte les cookies expirés et garde les cookies de session', () => {
+    const cookies = parseCookieFile(NETSCAPE);
+    expect(unexpiredCookies(cookies, new Date('2031-01-01T00:00:00Z')).map(cookie => cookie.name)).toEqual(['SID']);
+  });
+
+  test('chiffre les cookies et refuse une autre clé', () => {
+    const cookies = parseCookieFile(NETSCAPE);
+    const payload = encryptCookies(cookies, cookieJarKey('secret'));
+
+    expect(payload).not.toContain('abc');
+    expect(decryptCookies(payload, cookieJarKey('secret'))).toEqual(cookies);
+    expect(() => decryptCookies(payload, cookieJarKey('other'))).toThrow();
+  });
+});
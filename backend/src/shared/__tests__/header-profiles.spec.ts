@@ -0,0 +1,24 @@
+import { applyHeaderProfile, parseHeaderSettings } from '../header-profiles.js';
+
+const profile = { host: 'example.com', userAgent: 'Profile UA', referer: 'https://example.com/' };
+
+describe('header-profiles', () => {
+  test('complète les en-têtes du job avec le profil de l’hôte', () => {
+    expect(applyHeaderProfile(profile)).toEqual({
+      ua: 'Profile UA',
+      referer: 'https://example.com/',
+    });
+  });
+
+  test('garde les en-têtes fournis par le job', () => {
+    expect(applyHeaderProfile(profile, { ua: 'Job UA', extra: { cookie: 'mine=1', Accept: '*/*' } })).toEqual({
+      ua: 'Job UA',
+      referer: 'https://example.com/',
+      extra: { cookie: 'mine=1', Accept: '*/*' },
+    });
+  });
+
+  test('autorise les cinq en-têtes historiques par défaut', () => {
+    expect(parseHeaderSettings(null).allowed).toEqual(['user-agent', 'referer', 'authorization', 'cookie', 'accept']);
+  });
+});
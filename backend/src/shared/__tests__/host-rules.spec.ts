@@ -0,0 +1,39 @@
+import { HOST_PATTERN, jobHost, jobRateLimit, matchHostRule } from '../host-rules.js';
+
+const rule = (host: string, limits: { maxConcurrent?: number; maxBytesPerSecond?: number } = {}) => ({
+  host,
+  maxConcurrent: limits.maxConcurrent ?? null,
+  minDelaySeconds: null,
+  maxBytesPerSecond: limits.maxBytesPerSecond ?? null,
+});
+
+describe('host-rules', () => {
+  test('extrait l’hôte d’une URL', () => {
+    expect(jobHost('https://WWW.Pinterest.com:443/pin/1/')).toBe('www.pinterest.com');
+    expect(jobHost('not a url')).toBeNull();
+  });
+
+  test('applique la règle la plus précise à l’hôte et à ses sous-domaines', () => {
+    const rules = [rule('pinterest.com'), rule('i.pinimg.com'), rule('com')];
+
+    expect(matchHostRule('https://www.pinterest.com/board', rules)?.host).toBe('pinterest.com');
+    expect(matchHostRule('https://pinterest.com/', rules)?.host).toBe('pinterest.com');
+    expect(matchHostRule('https://i.pinimg.com/x.jpg', rules)?.host).toBe('i.pinimg.com');
+    expect(matchHostRule('https://notpinterest.org/', rules)).toBeNull();
+    expect(matchHostRule('https://example.com/', rules)?.host).toBe('com');
+  });
+
+  test('partage le débit de l’hôte entre ses jobs simultanés', () => {
+    expect(jobRateLimit(rule('a.com'))).toBeUndefined();
+    expect(jobRateLimit(rule('a.com', { maxBytesPerSecond: 4_000_000 }))).toBe(4_000_000);
+    expect(jobRateLimit(rule('a.com', { maxBytesPerSecond: 4_000_000, maxConcurrent: 4 }))).toBe(1_000_000);
+    expect(jobRateLimit(rule('a.com', { maxBytesPerSecond: 100, maxConcurrent: 4 }))).toBe(1024);
+  });
+
+  test('valide les noms d’hôte', () => {
+    expect(HOST_PATTERN.test('pinterest.com')).toBe(true);
+    expect(HOST_PATTERN.test('i.pinimg.com')).toBe(true);
+    expect(HOST_PATTERN.test('https://pinterest.com')).toBe(false);
+    expect(HOST_PATTERN.test('pinterest.com:443')).toBe(false);
+  });
+});
@@ -0,0 +1,39 @@
+import { isWithinWindow, nextWindowStart, scheduledStart } from '../schedule-window.js';
+
+// Local time, like the windows themselves
+const at = (day: number, hours: number, minutes = 0) => new Date(2026, 9, day, hours, minutes);
+
+const NIGHT = { start: '01:00', end: '07:00' };
+const OVERNIGHT = { start: '22:00', end: '06:00' };
+
+describe('schedule-window', () => {
+  test('situe une heure dans une fenêtre, y compris à cheval sur minuit', () => {
+    expect(isWithinWindow(at(18, 1), NIGHT)).toBe(true);
+    expect(isWithinWindow(at(18, 6, 59), NIGHT)).toBe(true);
+    expect(isWithinWindow(at(18, 7), NIGHT)).toBe(false);
+    expect(isWithinWindow(at(18, 23, 30), OVERNIGHT)).toBe(true);
+    expect(isWithinWindow(at(18, 5), OVERNIGHT)).toBe(true);
+    expect(isWithinWindow(at(18, 12), OVERNIGHT)).toBe(false);
+  });
+
+  test('attend la prochaine ouverture de la fenêtre', () => {
+    expect(nextWindowStart(at(18, 0, 30), NIGHT)).toEqual(at(18, 1));
+    expect(nextWindowStart(at(18, 14), NIGHT)).toEqual(at(19, 1));
+    expect(nextWindowStart(at(18, 3), NIGHT)).toEqual(at(18, 3));
+    expect(nextWindowStart(at(18, 12), OVERNIGHT)).toEqual(at(18, 22));
+  });
+
+  test('combine la date de départ et la fenêtre', () => {
+    const now = at(18, 14);
+
+    expect(scheduledStart(undefined, undefined, now)).toEqual(now);
+    expect(scheduledStart(at(18, 9), undefined, now)).toEqual(now);
+    expect(scheduledStart(at(20, 9), undefined, now)).toEqual(at(20, 9));
+    expect(scheduledStart(at(20, 9), NIGHT, now)).toEqual(at(21, 1));
+    expect(scheduledStart(null, NIGHT, now)).toEqual(at(19, 1));
+  });
+
+  test('rejette une heure invalide', () => {
+    expect(() => isWithinWindow(at(18, 1), { start: '25:00', end: '07:00' })).toThrow('expected HH:MM');
+  });
+});
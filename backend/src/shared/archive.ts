@@ -0,0 +1,49 @@
+import archiver from 'archiver';
+import type { Archiver, ZipEntryData } from 'archiver';
+import { createWriteStream } from 'fs';
+import * as path from 'path';
+
+export interface ZipEntry {
+  path: string;
+  name: string;
+}
+
+// Formats that are already compressed gain nothing from deflate
+const STORED_EXTENSIONS = new Set([
+  '.mp4', '.mkv', '.mov', '.webm', '.avi',
+  '.mp3', '.m4a', '.opus', '.flac',
+  '.jpg', '.jpeg', '.png', '.gif', '.webp',
+  '.zip', '.rar', '.7z',
+]);
+
+export function isStoredInZip(filename: string): boolean {
+  return STORED_EXTENSIONS.has(path.extname(filename).toLowerCase());
+}
+
+/**
+ * Zip archive over the given files: media is stored as-is, anything else is
+ * deflated at a moderate level. The caller pipes the archive, then finalizes it.
+ */
+export function createZipArchive(entries: ZipEntry[]): Archiver {
+  const archive = archiver('zip', { zlib: { level: 6 } });
+  for (const entry of entries) {
+    const data: ZipEntryData = { name: entry.name, store: isStoredInZip(entry.name) };
+    archive.file(entry.path, data);
+  }
+  return archive;
+}
+
+/** Write a zip archive to disk; resolves with its size in bytes. */
+export function writeZipFile(entries: ZipEntry[], outputPath: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const output = createWriteStream(outputPath);
+    const archive = createZipArchive(entries);
+
+    output.on('close', () => resolve(archive.pointer()));
+    archive.on('error', reject);
+    archive.on('warning', reject);
+
+    archive.pipe(output);
+    void archive.finalize();
+  });
+}
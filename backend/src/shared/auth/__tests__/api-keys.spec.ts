@@ -0,0 +1,28 @@
+import { generateApiKey, hashApiKey, hasScope } from '../api-keys.js';
+
+describe('generateApiKey', () => {
+  test('génère une clé préfixée dont seul le hachage est conservé', () => {
+    const { key, prefix, hash } = generateApiKey();
+
+    expect(key).toMatch(/^adm_[\w-]{43}$/);
+    expect(key.startsWith(prefix)).toBe(true);
+    expect(prefix).toHaveLength(12);
+    expect(hash).toBe(hashApiKey(key));
+    expect(hash).not.toContain(key);
+    expect(generateApiKey().key).not.toBe(key);
+  });
+});
+
+describe('hasScope', () => {
+  test('accepte l’une des portées requises', () => {
+    expect(hasScope(['downloads:create'], ['downloads:create', 'downloads:control'])).toBe(true);
+    expect(hasScope(['files:read'], ['downloads:control'])).toBe(false);
+  });
+
+  test('admin donne toutes les portées et une route sans exigence n’accepte que admin', () => {
+    expect(hasScope(['admin'], ['files:read'])).toBe(true);
+    expect(hasScope(['admin'], [])).toBe(true);
+    expect(hasScope(['files:read'], [])).toBe(false);
+    expect(hasScope([], [])).toBe(false);
+  });
+});
@@ -0,0 +1,27 @@
+import { signJwt, verifyJwt } from '../jwt.js';
+
+describe('signJwt / verifyJwt', () => {
+  const claims = { sub: 'u1', username: 'alice', role: 'user' };
+  const now = Date.UTC(2025, 0, 1);
+
+  test('vérifie un jeton signé avec le même secret', () => {
+    const token = signJwt(claims, 'secret', 60, now);
+    expect(verifyJwt(token, 'secret', now + 1000)).toMatchObject({ ...claims, iat: now / 1000, exp: now / 1000 + 60 });
+  });
+
+  test('rejette un jeton expiré, falsifié ou signé avec un autre secret', () => {
+    const token = signJwt(claims, 'secret', 60, now);
+    expect(verifyJwt(token, 'secret', now + 60_000)).toBeNull();
+    expect(verifyJwt(token, 'other', now)).toBeNull();
+
+    const [header, , signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify({ ...claims, role: 'admin', exp: now / 1000 + 60 })).toString('base64url');
+    expect(verifyJwt(`${header}.${forged}.${signature}`, 'secret', now)).toBeNull();
+  });
+
+  test('refuse les autres algorithmes', () => {
+    const none = Buffer.from(JSON.stringify({ alg: 'none', typ: 'JWT' })).toString('base64url');
+    const payload = Buffer.from(JSON.stringify({ ...claims, exp: now / 1000 + 60 })).toString('base64url');
+    expect(verifyJwt(`${none}.${payload}.`, 'secret', now)).toBeNull();
+  });
+});
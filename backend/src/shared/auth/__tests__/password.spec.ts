@@ -0,0 +1,22 @@
+import { hashPassword, verifyPassword } from '../password.js';
+import { ownerScope } from '../auth-user.js';
+
+describe('hashPassword / verifyPassword', () => {
+  test('sale chaque empreinte et vérifie le mot de passe', async () => {
+    const first = await hashPassword('correct horse');
+    const second = await hashPassword('correct horse');
+
+    expect(first).toMatch(/^scrypt\$/);
+    expect(first).not.toBe(second);
+    expect(await verifyPassword('correct horse', first)).toBe(true);
+    expect(await verifyPassword('wrong', first)).toBe(false);
+    expect(await verifyPassword('correct horse', 'plain')).toBe(false);
+  });
+});
+
+describe('ownerScope', () => {
+  test('limite les jobs au propriétaire sauf pour les admins', () => {
+    expect(ownerScope({ id: 'u1', username: 'alice', role: 'user' })).toEqual({ ownerId: 'u1' });
+    expect(ownerScope({ id: 'a1', username: 'root', role: 'admin' })).toEqual({});
+  });
+});
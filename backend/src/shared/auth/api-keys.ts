@@ -0,0 +1,27 @@
+import { createHash, randomBytes } from 'crypto';
+
+export const API_KEY_SCOPES = ['downloads:create', 'downloads:control', 'files:read', 'webhooks:manage', 'subscriptions:manage', 'cookies:manage', 'admin'] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+const KEY_PREFIX = 'adm_';
+
+/** New random key; returned once to the caller, only its hash is stored. */
+export function generateApiKey(): { key: string; prefix: string; hash: string } {
+  const key = `${KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+  return { key, prefix: key.slice(0, KEY_PREFIX.length + 8), hash: hashApiKey(key) };
+}
+
+// Keys are high-entropy random strings, so a plain digest is enough to look them up
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Whether `granted` satisfies a route requiring any of `required`. `admin`
+ * grants every scope; routes without requirements only accept `admin` keys.
+ */
+export function hasScope(granted: readonly string[], required: readonly ApiKeyScope[]): boolean {
+  if (granted.includes('admin')) return true;
+  return required.some(scope => granted.includes(scope));
+}
@@ -0,0 +1,21 @@
+import type { ApiKeyScope } from './api-keys.js';
+
+export type UserRole = 'admin' | 'user';
+
+/** Caller of a request, attached by `AuthGuard`. */
+export interface AuthUser {
+  id: string;
+  username: string;
+  role: UserRole;
+  // Set when authenticated with an API key; sessions are not restricted
+  scopes?: ApiKeyScope[];
+}
+
+export function isAdmin(user: AuthUser): boolean {
+  return user.role === 'admin';
+}
+
+/** Prisma `where` fragment restricting jobs to the caller; admins see every job. */
+export function ownerScope(user: AuthUser): { ownerId?: string } {
+  return isAdmin(user) ? {} : { ownerId: user.id };
+}
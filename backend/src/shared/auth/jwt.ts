@@ -0,0 +1,52 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export interface JwtPayload {
+  sub: string;
+  username: string;
+  role: string;
+  iat: number;
+  exp: number;
+}
+
+const HEADER = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+
+function sign(data: string, secret: string): string {
+  return createHmac('sha256', secret).update(data).digest('base64url');
+}
+
+/** HS256 token valid for `ttlSeconds` from now. */
+export function signJwt(
+  claims: Pick<JwtPayload, 'sub' | 'username' | 'role'>,
+  secret: string,
+  ttlSeconds: number,
+  now = Date.now(),
+): string {
+  const iat = Math.floor(now / 1000);
+  const payload = Buffer.from(JSON.stringify({ ...claims, iat, exp: iat + ttlSeconds })).toString('base64url');
+  return `${HEADER}.${payload}.${sign(`${HEADER}.${payload}`, secret)}`;
+}
+
+/**
+ * Payload of a token signed with `secret` that has not expired, null
+ * otherwise. Only HS256 tokens are accepted whatever their header says.
+ */
+export function verifyJwt(token: string, secret: string, now = Date.now()): JwtPayload | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  const [header, payload, signature] = parts;
+  if (header !== HEADER) return null;
+
+  const expected = Buffer.from(sign(`${header}.${payload}`, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as JwtPayload;
+    if (typeof claims.sub !== 'string' || typeof claims.exp !== 'number') return null;
+    if (claims.exp <= Math.floor(now / 1000)) return null;
+    return claims;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,85 @@
+import { Injectable } from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { Logger } from '../logger.service.js';
+import { DatabaseService } from '../database.service.js';
+import { signJwt, verifyJwt } from './jwt.js';
+import type { JwtPayload } from './jwt.js';
+import { hashApiKey } from './api-keys.js';
+import type { ApiKeyScope } from './api-keys.js';
+import type { AuthUser, UserRole } from './auth-user.js';
+
+// lastUsedAt is only refreshed this often, not on every request
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+@Injectable()
+export class TokenService {
+  private secret: string;
+  readonly ttlSeconds: number;
+
+  constructor(
+    private logger: Logger,
+    private database: DatabaseService,
+  ) {
+    this.ttlSeconds = parseInt(process.env.JWT_TTL || '86400', 10);
+
+    const secret = process.env.JWT_SECRET;
+    if (secret) {
+      this.secret = secret;
+    } else {
+      // Tokens then do not survive a restart nor work across API instances
+      this.secret = randomBytes(32).toString('hex');
+      this.logger.warn('JWT_SECRET is not set, using a random secret for this process');
+    }
+  }
+
+  issue(user: AuthUser): string {
+    return signJwt({ sub: user.id, username: user.username, role: user.role }, this.secret, this.ttlSeconds);
+  }
+
+  verify(token: string): JwtPayload | null {
+    return verifyJwt(token, this.secret);
+  }
+
+  /**
+   * Account behind a valid token, null otherwise. The account is reloaded so
+   * deletions and role changes apply before the token expires.
+   */
+  async resolve(token: string): Promise<AuthUser | null> {
+    const claims = this.verify(token);
+    if (!claims) return null;
+
+    const user = await this.database.user.findUnique({ where: { id: claims.sub } });
+    return user ? { id: user.id, username: user.username, role: user.role as UserRole } : null;
+  }
+
+  /**
+   * Account behind an API key that is neither revoked nor expired. The key
+   * only grants admin rights when its user is an admin and it has the
+   * `admin` scope.
+   */
+  async resolveApiKey(key: string): Promise<AuthUser | null> {
+    const apiKey = await this.database.apiKey.findUnique({
+      where: { keyHash: hashApiKey(key) },
+      include: { user: true },
+    });
+
+    const now = new Date();
+    if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt <= now)) {
+      return null;
+    }
+
+    if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+      this.database.apiKey.update({ where: { id: apiKey.id }, data: { lastUsedAt: now } }).catch((error: unknown) => {
+        this.logger.warn(`Failed to record use of API key ${apiKey.prefix}`, error instanceof Error ? error.message : String(error));
+      });
+    }
+
+    const scopes = apiKey.scopes as ApiKeyScope[];
+    return {
+      id: apiKey.user.id,
+      username: apiKey.user.username,
+      role: apiKey.user.role === 'admin' && scopes.includes('admin') ? 'admin' : 'user',
+      scopes,
+    };
+  }
+}
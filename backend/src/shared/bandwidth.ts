@@ -0,0 +1,55 @@
+import { isWithinWindow } from './schedule-window.js';
+import type { ScheduleWindow } from './schedule-window.js';
+
+// Key of the global limit in the `settings` table
+export const BANDWIDTH_SETTING = 'bandwidth';
+
+/**
+ * Global download limit in bytes per second, null for unlimited. During the
+ * `schedule` window (e.g. office hours) `schedule.limit` replaces `limit`.
+ */
+export interface BandwidthSettings {
+  limit: number | null;
+  schedule: (ScheduleWindow & { limit: number | null }) | null;
+}
+
+export const DEFAULT_BANDWIDTH_SETTINGS: BandwidthSettings = { limit: null, schedule: null };
+
+export function parseBandwidthSettings(value: string | null | undefined): BandwidthSettings {
+  return value ? { ...DEFAULT_BANDWIDTH_SETTINGS, ...JSON.parse(value) as Partial<BandwidthSettings> } : DEFAULT_BANDWIDTH_SETTINGS;
+}
+
+export function currentBandwidthLimit(settings: BandwidthSettings, now = new Date()): number | null {
+  if (settings.schedule && isWithinWindow(now, settings.schedule)) {
+    return settings.schedule.limit;
+  }
+  return settings.limit;
+}
+
+// A share never drops below this, a transfer would barely move
+const MIN_SHARE = 1024;
+
+/**
+ * Rate of a transfer that cannot change it once started (yt-dlp
+ * `--limit-rate`): an equal share of the limit between the `running`
+ * transfers of every worker, itself included.
+ */
+export function startShare(limit: number | null, running: number): number | undefined {
+  return limit ? Math.max(MIN_SHARE, Math.floor(limit / Math.max(1, running))) : undefined;
+}
+
+/**
+ * Rate of each of the `others` transfers whose share is not fixed: what the
+ * `fixedRates` of the yt-dlp jobs leave of the limit, split evenly.
+ */
+export function remainingShare(limit: number | null, fixedRates: number[], others: number): number | undefined {
+  if (!limit) return undefined;
+  const left = limit - fixedRates.reduce((sum, rate) => sum + rate, 0);
+  return Math.max(MIN_SHARE, Math.floor(left / Math.max(1, others)));
+}
+
+/** Strictest of several limits in bytes per second; unset ones are ignored. */
+export function lowestRate(...rates: Array<number | null | undefined>): number | undefined {
+  const set = rates.filter((rate): rate is number => typeof rate === 'number' && rate > 0);
+  return set.length > 0 ? Math.min(...set) : undefined;
+}
@@ -0,0 +1,176 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+/** One cookie of a jar; a domain starting with a dot also covers its subdomains. */
+export interface JarCookie {
+  domain: string;
+  path: string;
+  secure: boolean;
+  httpOnly: boolean;
+  // Unix seconds, 0 for a session cookie
+  expires: number;
+  name: string;
+  value: string;
+}
+
+const HTTP_ONLY_PREFIX = '#HttpOnly_';
+
+/**
+ * Cookies of a Netscape `cookies.txt` (curl, yt-dlp, browser extensions) or of
+ * a JSON export (array of `{ name, value, domain, ... }`, as written by
+ * Cookie-Editor, EditThisCookie or Selenium). Throws on unreadable content.
+ */
+export function parseCookieFile(content: string): JarCookie[] {
+  const trimmed = content.trim();
+  return trimmed.startsWith('[') || trimmed.startsWith('{')
+    ? parseJsonCookies(trimmed)
+    : parseNetscapeCookies(trimmed);
+}
+
+function parseNetscapeCookies(content: string): JarCookie[] {
+  const cookies: JarCookie[] = [];
+
+  for (const [index, raw] of content.split(/\r?\n/).entries()) {
+    const httpOnly = raw.startsWith(HTTP_ONLY_PREFIX);
+    const line = httpOnly ? raw.slice(HTTP_ONLY_PREFIX.length) : raw;
+    if (!line.trim() || line.startsWith('#')) continue;
+
+    const fields = line.split('\t');
+    if (fields.length < 7 || !/^\d+$/.test(fields[4])) {
+      throw new Error(`Invalid cookies.txt line ${index + 1}`);
+    }
+    const [domain, includeSubdomains, cookiePath, secure, expires, name, ...value] = fields;
+    cookies.push({
+      domain: withSubdomains(domain, includeSubdomains === 'TRUE'),
+      path: cookiePath || '/',
+      secure: secure === 'TRUE',
+      httpOnly,
+      expires: parseInt(expires, 10),
+      name,
+      value: value.join('\t'),
+    });
+  }
+
+  return cookies;
+}
+
+interface JsonCookie {
+  name?: unknown;
+  value?: unknown;
+  domain?: unknown;
+  path?: unknown;
+  secure?: unknown;
+  httpOnly?: unknown;
+  hostOnly?: unknown;
+  expirationDate?: unknown;
+  expires?: unknown;
+  expiry?: unknown;
+}
+
+function parseJsonCookies(content: string): JarCookie[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error('Invalid JSON cookies');
+  }
+  // Some exports wrap the list: { "cookies": [...] }
+  const list = Array.isArray(parsed) ? parsed : (parsed as { cookies?: unknown }).cookies;
+  if (!Array.isArray(list)) {
+    throw new Error('JSON cookies must be an array');
+  }
+
+  return list.map((cookie: JsonCookie, index) => {
+    if (typeof cookie?.name !== 'string' || typeof cookie.value !== 'string' || typeof cookie.domain !== 'string') {
+      throw new Error(`JSON cookie ${index + 1} needs a name, a value and a domain`);
+    }
+    return {
+      domain: withSubdomains(cookie.domain, cookie.hostOnly === false),
+      path: typeof cookie.path === 'string' && cookie.path ? cookie.path : '/',
+      secure: cookie.secure === true,
+      httpOnly: cookie.httpOnly === true,
+      expires: jsonExpiry(cookie.expirationDate ?? cookie.expiry ?? cookie.expires),
+      name: cookie.name,
+      value: cookie.value,
+    };
+  });
+}
+
+function withSubdomains(domain: string, includeSubdomains: boolean): string {
+  return includeSubdomains && !domain.startsWith('.') ? `.${domain}` : domain;
+}
+
+function jsonExpiry(value: unknown): number {
+  if (typeof value === 'number' && value > 0) return Math.floor(value);
+  if (typeof value === 'string' && value) {
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? 0 : Math.floor(time / 1000);
+  }
+  return 0;
+}
+
+/** Cookies still valid at `now`; session cookies are kept. */
+export function unexpiredCookies(cookies: JarCookie[], now = new Date()): JarCookie[] {
+  const seconds = Math.floor(now.getTime() / 1000);
+  return cookies.filter(cookie => cookie.expires === 0 || cookie.expires > seconds);
+}
+
+/** Netscape `cookies.txt`, read by yt-dlp (`--cookies`) and aria2 (`load-cookies`). */
+export function toNetscapeCookies(cookies: JarCookie[]): string {
+  const lines = cookies.map(cookie => [
+    `${cookie.httpOnly ? HTTP_ONLY_PREFIX : ''}${cookie.domain}`,
+    cookie.domain.startsWith('.') ? 'TRUE' : 'FALSE',
+    cookie.path,
+    cookie.secure ? 'TRUE' : 'FALSE',
+    String(cookie.expires),
+    cookie.name,
+    cookie.value,
+  ].join('\t'));
+  return ['# Netscape HTTP Cookie File', ...lines, ''].join('\n');
+}
+
+/** Selenium-style JSON list, read by pinterest-dl (`--cookies`). */
+export function toBrowserJsonCookies(cookies: JarCookie[]): string {
+  return JSON.stringify(cookies.map(cookie => ({
+    name: cookie.name,
+    value: cookie.value,
+    domain: cookie.domain,
+    path: cookie.path,
+    secure: cookie.secure,
+    httpOnly: cookie.httpOnly,
+    ...(cookie.expires ? { expiry: cookie.expires } : {}),
+  })));
+}
+
+/** Go `http.Cookie` JSON list, the `twmd_cookies.json` twmd loads with `-C`. */
+export function toTwmdCookies(cookies: JarCookie[]): string {
+  return JSON.stringify(cookies.map(cookie => ({
+    Name: cookie.name,
+    Value: cookie.value,
+    Path: cookie.path,
+    Domain: cookie.domain,
+    Expires: cookie.expires ? new Date(cookie.expires * 1000).toISOString() : '0001-01-01T00:00:00Z',
+    Secure: cookie.secure,
+    HttpOnly: cookie.httpOnly,
+  })));
+}
+
+/** AES-256 key of the jars, derived from COOKIE_JAR_SECRET. */
+export function cookieJarKey(secret: string): Buffer {
+  return createHash('sha256').update(secret).digest();
+}
+
+/** AES-256-GCM: `iv.tag.ciphertext`, base64url. */
+export function encryptCookies(cookies: JarCookie[], key: Buffer): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(cookies), 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), data].map(part => part.toString('base64url')).join('.');
+}
+
+export function decryptCookies(payload: string, key: Buffer): JarCookie[] {
+  const [iv, tag, data] = payload.split('.').map(part => Buffer.from(part, 'base64url'));
+  const decipher = createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAuthTag(tag);
+  const plain = Buffer.concat([decipher.update(data), decipher.final()]).toString('utf8');
+  return JSON.parse(plain) as JarCookie[];
+}
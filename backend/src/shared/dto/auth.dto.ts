@@ -0,0 +1,27 @@
+import { z } from 'zod';
+import { API_KEY_SCOPES } from '../auth/api-keys.js';
+
+export const LoginSchema = z.object({
+  username: z.string().min(1),
+  password: z.string().min(1),
+});
+
+export type LoginDto = z.infer<typeof LoginSchema>;
+
+export const CreateUserSchema = z.object({
+  username: z.string().min(3).max(50).regex(/^[\w.-]+$/, 'Username may only contain letters, digits, ".", "_" and "-"'),
+  password: z.string().min(8).max(200),
+  role: z.enum(['user', 'admin']).default('user'),
+});
+
+export type CreateUserDto = z.infer<typeof CreateUserSchema>;
+
+export const CreateApiKeySchema = z.object({
+  name: z.string().min(1).max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+  expiresAt: z.string().datetime().optional(),
+  // Account the key acts as; defaults to the admin creating it
+  userId: z.string().uuid().optional(),
+});
+
+export type CreateApiKeyDto = z.infer<typeof CreateApiKeySchema>;
@@ -0,0 +1,10 @@
+import { z } from 'zod';
+import { HOST_PATTERN } from '../host-rules.js';
+
+export const SaveCookieJarSchema = z.object({
+  host: z.string().trim().toLowerCase().regex(HOST_PATTERN, 'Must be a host name, e.g. youtube.com'),
+  // Netscape cookies.txt or JSON export, as a string
+  content: z.string().min(1).max(1024 * 1024),
+});
+
+export type SaveCookieJarDto = z.infer<typeof SaveCookieJarSchema>;
@@ -1,4 +1,21 @@
 import { z } from 'zod';
+import { TIME_OF_DAY_PATTERN } from '../schedule-window.js';
+import { PROXY_URL_PATTERN } from '../proxies.js';
+
+export const ScheduleWindowSchema = z.object({
+  start: z.string().regex(TIME_OF_DAY_PATTERN, 'Expected HH:MM'),
+  end: z.string().regex(TIME_OF_DAY_PATTERN, 'Expected HH:MM'),
+}).refine(window => window.start !== window.end, 'Window start and end must differ');
+
+// BullMQ priorities: 1 runs first, jobs of equal priority run in order
+export const HIGHEST_PRIORITY = 1;
+export const LOWEST_PRIORITY = 10;
+export const DEFAULT_PRIORITY = 5;
+
+const PrioritySchema = z.number().int().min(HIGHEST_PRIORITY).max(LOWEST_PRIORITY);
+
+// Download speed cap in bytes per second
+export const SpeedLimitSchema = z.number().int().min(1024).max(10 * 1024 * 1024 * 1024);
 
 export const CreateDownloadSchema = z.object({
   url: z.string().url('Must be a valid URL'),
@@ -14,6 +31,36 @@ export const CreateDownloadSchema = z.object({
     crf: z.number().min(1).max(51).default(23),
   }).optional(),
   filenameHint: z.string().optional(),
+  // Audio extraction with tags and cover art; bitrate in kbit/s (ignored for flac)
+  audio: z.object({
+    format: z.enum(['mp3', 'opus', 'm4a', 'flac']).default('mp3'),
+    bitrate: z.number().int().min(32).max(320).optional(),
+  }).optional(),
+  // Subtitles from yt-dlp: kept as sidecar files, muxed as soft tracks or burnt in (first language)
+  subtitles: z.object({
+    languages: z.array(z.string().regex(/^[\w.*-]+$/, 'Invalid language code')).min(1).max(20).default(['en']),
+    includeAuto: z.boolean().default(false),
+    format: z.enum(['srt', 'vtt']).default('srt'),
+    mode: z.enum(['sidecar', 'mux', 'burn']).default('sidecar'),
+  }).optional(),
+  // yt-dlp format selection (youtube/m3u8); `format` wins over the other two
+  format: z.string().min(1).max(200).optional(),
+  maxHeight: z.number().int().min(144).max(4320).optional(),
+  audioOnly: z.boolean().optional(),
+  // Expand a playlist/channel URL into one child job per entry
+  playlist: z.object({
+    maxEntries: z.number().int().min(1).max(500).default(100),
+  }).optional(),
+  priority: PrioritySchema.default(DEFAULT_PRIORITY),
+  maxSpeed: SpeedLimitSchema.optional(),
+  // Either a proxy URL or the name of a proxy pool
+  proxy: z.string().regex(PROXY_URL_PATTERN, 'Must be a proxy URL, e.g. socks5://127.0.0.1:1080').optional(),
+  proxyPool: z.string().min(1).max(100).optional(),
+  // Deferred start: not before startAt, then only within the daily window (server local time)
+  startAt: z.string().datetime({ offset: true }).optional(),
+  window: ScheduleWindowSchema.optional(),
+  // Multi-file results (twitter/pinterest) are zipped unless 'none'
+  archive: z.enum(['zip', 'none']).default('zip'),
   twitter: z.object({
     tweetId: z.string().optional(),
     username: z.string().optional(),
@@ -30,8 +77,63 @@ export const CreateDownloadSchema = z.object({
 
 export type CreateDownloadDto = z.infer<typeof CreateDownloadSchema>;
 
+// Omitted fields keep their value, null clears them
+export const RescheduleSchema = z.object({
+  startAt: z.string().datetime({ offset: true }).nullable().optional(),
+  window: ScheduleWindowSchema.nullable().optional(),
+}).refine(dto => dto.startAt !== undefined || dto.window !== undefined, 'Provide startAt or window');
+
+export type RescheduleDto = z.infer<typeof RescheduleSchema>;
+
+// New priority, or a place in the queue: first, or just before/after another waiting job
+export const ChangePrioritySchema = z.object({
+  priority: PrioritySchema.optional(),
+  position: z.literal('top').optional(),
+  before: z.string().uuid().optional(),
+  after: z.string().uuid().optional(),
+}).refine(
+  dto => [dto.priority, dto.position, dto.before, dto.after].filter(value => value !== undefined).length === 1,
+  'Provide one of priority, position, before or after',
+);
+
+export type ChangePriorityDto = z.infer<typeof ChangePrioritySchema>;
+
+// The proxy options of the job to come, the probe goes through the same proxy
+export const ProbeSchema = CreateDownloadSchema.pick({
+  url: true,
+  proxy: true,
+  proxyPool: true,
+});
+
+export type ProbeDto = z.infer<typeof ProbeSchema>;
+
 export const JobActionSchema = z.object({
   action: z.enum(['cancel', 'pause', 'resume', 'retry']),
 });
 
-export type JobActionDto = z.infer<typeof JobActionSchema>;
\ No newline at end of file
+export type JobActionDto = z.infer<typeof JobActionSchema>;
+
+export const BULK_ACTION_MAX_JOBS = 500;
+
+// Either explicit jobIds or every top-level job matching the list filter
+export const BulkActionSchema = z.object({
+  action: z.enum(['cancel', 'retry', 'delete']),
+  jobIds: z.array(z.string().uuid()).min(1).max(BULK_ACTION_MAX_JOBS).optional(),
+  filter: z.object({
+    status: z.string().optional(),
+    type: z.string().optional(),
+    search: z.string().optional(),
+  }).optional(),
+}).refine(dto => (dto.jobIds === undefined) !== (dto.filter === undefined), 'Provide either jobIds or filter');
+
+export type BulkActionDto = z.infer<typeof BulkActionSchema>;
+
+const QueryFlag = z.enum(['true', 'false']).default('false').transform(value => value === 'true');
+
+export const DeleteJobSchema = z.object({
+  files: z.enum(['keep', 'delete']).default('delete'),
+  cancel: QueryFlag,
+  permanent: QueryFlag,
+});
+
+export type DeleteJobDto = z.infer<typeof DeleteJobSchema>;
\ No newline at end of file
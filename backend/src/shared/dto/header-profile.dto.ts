@@ -0,0 +1,18 @@
+import { z } from 'zod';
+import { HOST_PATTERN } from '../host-rules.js';
+
+// null clears a value
+const HeaderProfileValuesSchema = z.object({
+  userAgent: z.string().min(1).max(500).nullable(),
+  referer: z.string().url().nullable(),
+});
+
+export const CreateHeaderProfileSchema = HeaderProfileValuesSchema.partial().extend({
+  host: z.string().trim().toLowerCase().regex(HOST_PATTERN, 'Must be a host name, e.g. example.com'),
+});
+
+export type CreateHeaderProfileDto = z.infer<typeof CreateHeaderProfileSchema>;
+
+export const UpdateHeaderProfileSchema = HeaderProfileValuesSchema.partial();
+
+export type UpdateHeaderProfileDto = z.infer<typeof UpdateHeaderProfileSchema>;
@@ -0,0 +1,21 @@
+import { z } from 'zod';
+import { HOST_PATTERN } from '../host-rules.js';
+
+// null clears a limit
+const Limit = (max: number) => z.number().int().min(1).max(max).nullable();
+
+const HostRuleLimitsSchema = z.object({
+  maxConcurrent: Limit(100),
+  minDelaySeconds: Limit(86_400),
+  maxBytesPerSecond: Limit(10 * 1024 * 1024 * 1024),
+});
+
+export const CreateHostRuleSchema = HostRuleLimitsSchema.partial().extend({
+  host: z.string().trim().toLowerCase().regex(HOST_PATTERN, 'Must be a host name, e.g. pinterest.com'),
+});
+
+export type CreateHostRuleDto = z.infer<typeof CreateHostRuleSchema>;
+
+export const UpdateHostRuleSchema = HostRuleLimitsSchema.partial();
+
+export type UpdateHostRuleDto = z.infer<typeof UpdateHostRuleSchema>;
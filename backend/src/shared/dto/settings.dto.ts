@@ -0,0 +1,18 @@
+import { z } from 'zod';
+import { ScheduleWindowSchema, SpeedLimitSchema } from './download.dto.js';
+
+// null: unlimited
+export const BandwidthSettingsSchema = z.object({
+  limit: SpeedLimitSchema.nullable(),
+  // Limit used instead of `limit` during the daily window (server local time)
+  schedule: ScheduleWindowSchema.and(z.object({ limit: SpeedLimitSchema.nullable() })).nullable().default(null),
+});
+
+export type BandwidthSettingsDto = z.infer<typeof BandwidthSettingsSchema>;
+
+// Extra header names accepted in `POST /downloads` (case insensitive)
+export const HeaderSettingsSchema = z.object({
+  allowed: z.array(z.string().regex(/^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/, 'Invalid header name').transform(name => name.toLowerCase())).max(100),
+});
+
+export type HeaderSettingsDto = z.infer<typeof HeaderSettingsSchema>;
@@ -0,0 +1,12 @@
+import { z } from 'zod';
+
+export const CreateShareSchema = z.object({
+  // Lifetime in seconds, one hour to 30 days
+  expiresIn: z.number().int().min(3600).max(30 * 24 * 3600).default(24 * 3600),
+  maxDownloads: z.number().int().min(1).max(10000).optional(),
+  password: z.string().min(4).max(200).optional(),
+  // Another output of the job than the main one
+  fileId: z.string().uuid().optional(),
+});
+
+export type CreateShareDto = z.infer<typeof CreateShareSchema>;
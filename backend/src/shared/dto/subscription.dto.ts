@@ -0,0 +1,65 @@
+import { z } from 'zod';
+import cronParser from 'cron-parser';
+import { CreateDownloadSchema } from './download.dto.js';
+
+export const SUBSCRIPTION_TYPES = ['youtube', 'twitter', 'pinterest'] as const;
+
+export type SubscriptionType = typeof SUBSCRIPTION_TYPES[number];
+
+const CronSchedule = z.string().min(1).max(100).refine(pattern => {
+  try {
+    cronParser.parseExpression(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}, 'Invalid cron pattern');
+
+// Applied to every job of the subscription; `twitter` filters the media listed from the timeline
+export const SubscriptionOptionsSchema = CreateDownloadSchema.pick({
+  headers: true,
+  transcode: true,
+  audio: true,
+  subtitles: true,
+  format: true,
+  maxHeight: true,
+  audioOnly: true,
+  archive: true,
+  pinterest: true,
+  window: true,
+  priority: true,
+  maxSpeed: true,
+  proxy: true,
+  proxyPool: true,
+}).partial().extend({
+  twitter: z.object({
+    mediaType: z.enum(['images', 'videos', 'all']).default('all'),
+    includeRetweets: z.boolean().default(false),
+  }).optional(),
+});
+
+export type SubscriptionOptions = z.infer<typeof SubscriptionOptionsSchema>;
+
+export const CreateSubscriptionSchema = z.object({
+  url: z.string().url('Must be a valid URL'),
+  type: z.enum(SUBSCRIPTION_TYPES),
+  name: z.string().min(1).max(200).optional(),
+  schedule: CronSchedule,
+  options: SubscriptionOptionsSchema.default({}),
+  maxItems: z.number().int().min(1).max(500).default(50),
+  enabled: z.boolean().default(true),
+  // Mark what the source lists today as seen, only later items are downloaded
+  skipExisting: z.boolean().default(false),
+});
+
+export type CreateSubscriptionDto = z.infer<typeof CreateSubscriptionSchema>;
+
+export const UpdateSubscriptionSchema = z.object({
+  name: z.string().min(1).max(200).nullable().optional(),
+  schedule: CronSchedule.optional(),
+  options: SubscriptionOptionsSchema.optional(),
+  maxItems: z.number().int().min(1).max(500).optional(),
+  enabled: z.boolean().optional(),
+});
+
+export type UpdateSubscriptionDto = z.infer<typeof UpdateSubscriptionSchema>;
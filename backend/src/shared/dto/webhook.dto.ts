@@ -0,0 +1,28 @@
+import { z } from 'zod';
+
+export const WEBHOOK_EVENTS = ['job.created', 'job.completed', 'job.failed', 'job.cancelled'] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+const WebhookUrl = z.string().url().refine(
+  url => /^https?:\/\//i.test(url),
+  'Webhook URL must use http or https',
+);
+
+export const CreateWebhookSchema = z.object({
+  url: WebhookUrl,
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1),
+  // Generated when omitted; returned once, on creation
+  secret: z.string().min(16).max(200).optional(),
+  enabled: z.boolean().default(true),
+});
+
+export type CreateWebhookDto = z.infer<typeof CreateWebhookSchema>;
+
+export const UpdateWebhookSchema = z.object({
+  url: WebhookUrl.optional(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1).optional(),
+  enabled: z.boolean().optional(),
+});
+
+export type UpdateWebhookDto = z.infer<typeof UpdateWebhookSchema>;
@@ -0,0 +1,101 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+  createParamDecorator,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { SetMetadata } from '@nestjs/common';
+import { TokenService } from '../auth/token.service.js';
+import { hasScope } from '../auth/api-keys.js';
+import type { ApiKeyScope } from '../auth/api-keys.js';
+import type { AuthUser } from '../auth/auth-user.js';
+
+export const IS_PUBLIC_KEY = 'isPublic';
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
+
+export const IS_ADMIN_KEY = 'isAdmin';
+export const AdminOnly = () => SetMetadata(IS_ADMIN_KEY, true);
+
+/** Scopes an API key needs for the route, any of them being enough. */
+export const SCOPES_KEY = 'scopes';
+export const RequireScopes = (...scopes: ApiKeyScope[]) => SetMetadata(SCOPES_KEY, scopes);
+
+/** Route open to every API key whatever its scopes, e.g. `GET /auth/me`. */
+export const ANY_API_KEY_KEY = 'anyApiKey';
+export const AnyApiKey = () => SetMetadata(ANY_API_KEY_KEY, true);
+
+/** Caller attached to the request by `AuthGuard`. */
+export const CurrentUser = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): AuthUser => context.switchToHttp().getRequest().user,
+);
+
+/**
+ * Authenticates every route not marked `@Public()`. Accepts a bearer JWT
+ * (`access_token` query parameter for links and media elements that cannot
+ * send headers) or an API key in `x-api-key`, limited to the route scopes.
+ * A route declaring no scope only accepts `admin` keys, unless `@AnyApiKey()`.
+ */
+@Injectable()
+export class AuthGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private tokens: TokenService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const targets = [context.getHandler(), context.getClass()];
+
+    if (this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, targets)) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    request.user = await this.authenticate(request);
+
+    if (this.reflector.getAllAndOverride<boolean>(IS_ADMIN_KEY, targets) && request.user.role !== 'admin') {
+      throw new ForbiddenException('Admin role required');
+    }
+
+    const scopes = this.reflector.getAllAndOverride<ApiKeyScope[]>(SCOPES_KEY, targets) ?? [];
+    const anyKey = this.reflector.getAllAndOverride<boolean>(ANY_API_KEY_KEY, targets);
+    if (request.user.scopes && !anyKey && !hasScope(request.user.scopes, scopes)) {
+      throw new ForbiddenException(`API key lacks scope ${scopes.length > 0 ? scopes.join(' or ') : 'admin'}`);
+    }
+
+    return true;
+  }
+
+  private async authenticate(request: {
+    headers: Record<string, string | string[] | undefined>;
+    query?: Record<string, unknown>;
+  }): Promise<AuthUser> {
+    const apiKey = request.headers['x-api-key'];
+    if (typeof apiKey === 'string') {
+      const keyUser = await this.tokens.resolveApiKey(apiKey);
+      if (!keyUser) {
+        throw new UnauthorizedException('Invalid, revoked or expired API key');
+      }
+      return keyUser;
+    }
+
+    const authorization = request.headers.authorization;
+    const queryToken = request.query?.access_token;
+    const token = typeof authorization === 'string' && authorization.startsWith('Bearer ')
+      ? authorization.slice('Bearer '.length)
+      : typeof queryToken === 'string' ? queryToken : undefined;
+
+    if (!token) {
+      throw new UnauthorizedException('Authentication required');
+    }
+
+    const user = await this.tokens.resolve(token);
+    if (!user) {
+      throw new UnauthorizedException('Invalid or expired token');
+    }
+
+    return user;
+  }
+}
@@ -0,0 +1,36 @@
+import type { DownloadJobData } from './queue.service.js';
+
+type JobHeaders = NonNullable<DownloadJobData['headers']>;
+
+// Key of the allowed header list in the `settings` table
+export const HEADERS_SETTING = 'headers';
+
+// Extra header names accepted in `POST /downloads` until an admin changes the list
+export const DEFAULT_ALLOWED_HEADERS = ['user-agent', 'referer', 'authorization', 'cookie', 'accept'];
+
+export interface HeaderSettings {
+  allowed: string[];
+}
+
+export function parseHeaderSettings(value: string | null | undefined): HeaderSettings {
+  return value ? JSON.parse(value) as HeaderSettings : { allowed: DEFAULT_ALLOWED_HEADERS };
+}
+
+export interface HeaderProfileValues {
+  host: string;
+  userAgent: string | null;
+  referer: string | null;
+}
+
+/**
+ * Headers of a job completed by the profile of its host; what the job sets
+ * itself wins. Profiles hold no cookies: they apply to every user's jobs,
+ * cookies belong to the owner's cookie jars.
+ */
+export function applyHeaderProfile(profile: HeaderProfileValues, headers: JobHeaders = {}): JobHeaders {
+  return {
+    ...headers,
+    ua: headers.ua ?? profile.userAgent ?? undefined,
+    referer: headers.referer ?? profile.referer ?? undefined,
+  };
+}
@@ -0,0 +1,43 @@
+/**
+ * Politeness limits of a host. A rule for `pinterest.com` also applies to
+ * `www.pinterest.com` and `i.pinterest.com`; the most specific rule wins.
+ */
+export interface HostRuleLimits {
+  host: string;
+  maxConcurrent: number | null;
+  minDelaySeconds: number | null;
+  maxBytesPerSecond: number | null;
+}
+
+// Hostname without port, lowercase, e.g. "www.pinterest.com"
+export const HOST_PATTERN = /^(?=.{1,253}$)([a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)*[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/;
+
+/** Host of a job URL, null when the URL cannot be parsed. */
+export function jobHost(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/\.$/, '') || null;
+  } catch {
+    return null;
+  }
+}
+
+/** Rule (host rule, header profile) covering the URL's host, the most specific one. */
+export function matchHostRule<T extends { host: string }>(url: string, rules: T[]): T | null {
+  const host = jobHost(url);
+  if (!host) return null;
+
+  let match: T | null = null;
+  for (const rule of rules) {
+    const covers = host === rule.host || host.endsWith(`.${rule.host}`);
+    if (covers && (!match || rule.host.length > match.host.length)) {
+      match = rule;
+    }
+  }
+  return match;
+}
+
+/** Bandwidth of one job: the host budget split between its concurrent slots. */
+export function jobRateLimit(rule: HostRuleLimits): number | undefined {
+  if (!rule.maxBytesPerSecond) return undefined;
+  return Math.max(1024, Math.floor(rule.maxBytesPerSecond / (rule.maxConcurrent ?? 1)));
+}
@@ -1,11 +1,15 @@
 import { PipeTransform, Injectable, BadRequestException } from '@nestjs/common';
+import type { ArgumentMetadata } from '@nestjs/common';
 import { ZodSchema } from 'zod';
 
 @Injectable()
 export class ZodValidationPipe implements PipeTransform {
   constructor(private schema: ZodSchema) {}
 
-  transform(value: any) {
+  transform(value: any, metadata?: ArgumentMetadata) {
+    // Method-level pipes also see custom decorators such as @CurrentUser()
+    if (metadata?.type === 'custom') return value;
+
     try {
       const parsedValue = this.schema.parse(value);
       return parsedValue;
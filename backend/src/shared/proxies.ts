@@ -0,0 +1,35 @@
+import { createHash } from 'crypto';
+
+export const PROXY_STRATEGIES = ['round-robin', 'sticky'] as const;
+
+export type ProxyStrategy = typeof PROXY_STRATEGIES[number];
+
+// Schemes understood by yt-dlp, twmd and curl; aria2 only takes http(s) proxies
+export const PROXY_URL_PATTERN = /^(https?|socks5h?|socks4a?):\/\/([^\s/@]+@)?[^\s/@:]+(:\d{1,5})?\/?$/i;
+
+/**
+ * Proxy of a pool for a job. `round-robin` takes the members in turn
+ * (`turn` is a shared counter), `sticky` always gives the same member to a
+ * host while the healthy members do not change. Members in `exclude` (they
+ * already failed for the job) are avoided unless nothing else is left.
+ */
+export function pickProxy(
+  proxies: string[],
+  strategy: ProxyStrategy,
+  options: { host: string; turn: number; exclude?: string[] },
+): string | null {
+  if (proxies.length === 0) return null;
+
+  const remaining = proxies.filter(proxy => !options.exclude?.includes(proxy));
+  const candidates = remaining.length > 0 ? remaining : proxies;
+
+  const index = strategy === 'sticky'
+    ? createHash('sha1').update(options.host).digest().readUInt32BE(0) % candidates.length
+    : options.turn % candidates.length;
+  return candidates[index];
+}
+
+/** Proxy URL without its password, for logs. */
+export function redactProxy(proxy: string): string {
+  return proxy.replace(/\/\/([^:@/]+):[^@/]+@/, '//$1:***@');
+}
@@ -1,6 +1,18 @@
 import { Injectable, OnModuleInit, OnModuleDestroy, Logger } from '@nestjs/common';
 import { Queue, Job, QueueEvents } from 'bullmq';
+import type { JobState } from 'bullmq';
 import { Redis } from 'ioredis';
+import { scheduledStart } from './schedule-window.js';
+import type { ScheduleWindow } from './schedule-window.js';
+import { DEFAULT_PRIORITY } from './dto/download.dto.js';
+
+// Redis pub/sub channel used by the API to drive jobs held by a worker
+export const JOB_CONTROL_CHANNEL = 'downloads:control';
+
+export interface JobControlMessage {
+  jobId: string;
+  action: 'pause' | 'resume' | 'cancel';
+}
 
 export interface DownloadJobData {
   jobId: string;
@@ -17,6 +29,36 @@ export interface DownloadJobData {
     crf?: number;
   };
   filenameHint?: string;
+  // Audio extraction (replaces the transcode stage)
+  audio?: {
+    format: 'mp3' | 'opus' | 'm4a' | 'flac';
+    bitrate?: number;
+  };
+  // yt-dlp subtitles (ignored with audio extraction)
+  subtitles?: {
+    languages: string[];
+    includeAuto?: boolean;
+    format?: 'srt' | 'vtt';
+    mode?: 'sidecar' | 'mux' | 'burn';
+  };
+  // yt-dlp format selection
+  format?: string;
+  maxHeight?: number;
+  audioOnly?: boolean;
+  // Deferred start (ISO datetime) and daily window; the job waits as a BullMQ delayed job
+  startAt?: string;
+  window?: ScheduleWindow;
+  // BullMQ priority, 1 runs first
+  priority?: number;
+  // Bandwidth cap in bytes per second
+  maxSpeed?: number;
+  // Proxy URL, or pool the worker picks a proxy from
+  proxy?: string;
+  proxyPool?: string;
+  // Pool proxies that failed with a network error for this job (set by the worker before a retry)
+  excludedProxies?: string[];
+  // Multi-file results (twitter/pinterest): single zip or individual files
+  archive?: 'zip' | 'none';
   // Twitter-specific options
   twitter?: {
     tweetId?: string;
@@ -98,23 +140,34 @@ export class QueueService implements OnModuleInit, OnModuleDestroy {
     this.logger.log('🔌 Queue service disconnected');
   }
 
-  async addDownloadJob(data: DownloadJobData, priority = 3): Promise<Job<DownloadJobData>> {
-    const jobOptions = {
-      jobId: data.jobId,
-      priority,
-      delay: 0,
-    };
-
-    // Set priority based on type
-    if (data.type === 'youtube') {
-      jobOptions.priority = 5; // Higher priority for YouTube
-    }
-
-    const job = await this.downloadQueue.add('download', data, jobOptions);
+  async addDownloadJob(data: DownloadJobData): Promise<Job<DownloadJobData>> {
+    const job = await this.downloadQueue.add('download', data, this.jobOptions(data));
     this.logger.log(`Added download job ${data.jobId} to queue`);
     return job;
   }
 
+  // One round trip to Redis for a whole batch
+  async addBulk(items: DownloadJobData[]): Promise<Array<Job<DownloadJobData>>> {
+    const jobs = await this.downloadQueue.addBulk(items.map(data => ({
+      name: 'download',
+      data,
+      opts: this.jobOptions(data),
+    })));
+    this.logger.log(`Added ${jobs.length} download jobs to queue`);
+    return jobs;
+  }
+
+  private jobOptions(data: DownloadJobData) {
+    const now = new Date();
+    const start = scheduledStart(data.startAt ? new Date(data.startAt) : null, data.window, now);
+
+    return {
+      jobId: data.jobId,
+      priority: data.priority ?? DEFAULT_PRIORITY,
+      delay: start.getTime() - now.getTime(),
+    };
+  }
+
   async getJob(jobId: string): Promise<Job<DownloadJobData> | undefined> {
     return this.downloadQueue.getJob(jobId);
   }
@@ -127,16 +180,54 @@ export class QueueService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  /** Jobs waiting for a worker, in the order they will be picked up. Delayed jobs are not included. */
+  async getWaitingJobs(): Promise<Array<Job<DownloadJobData>>> {
+    const [waiting, prioritized] = await Promise.all([
+      this.downloadQueue.getWaiting(),
+      this.downloadQueue.getPrioritized(),
+    ]);
+    // Jobs without priority (added before priorities were set) are picked first
+    return [...waiting, ...prioritized];
+  }
+
+  /**
+   * `first` moves the job ahead of the waiting jobs of the same priority;
+   * otherwise it goes after them. A delayed job only keeps the new priority
+   * for when it becomes waiting.
+   */
+  async changePriority(jobId: string, priority: number, first = false): Promise<void> {
+    const job = await this.getJob(jobId);
+    if (job) {
+      await job.changePriority({ priority, lifo: first });
+    }
+  }
+
+  async getJobState(jobId: string): Promise<JobState | 'unknown'> {
+    return this.downloadQueue.getJobState(jobId);
+  }
+
+  // BullMQ has no per-job pause: the worker processing the job suspends the
+  // transfer itself while keeping the job active (its lock keeps being renewed)
   async pauseJob(jobId: string): Promise<void> {
-    // Note: BullMQ doesn't support pausing individual jobs
-    // This would need to be implemented at the worker level
-    this.logger.warn(`Pause job ${jobId} not implemented yet`);
+    await this.publishControl({ jobId, action: 'pause' });
   }
 
   async resumeJob(jobId: string): Promise<void> {
-    // Note: BullMQ doesn't support resuming individual jobs
-    // This would need to be implemented at the worker level
-    this.logger.warn(`Resume job ${jobId} not implemented yet`);
+    await this.publishControl({ jobId, action: 'resume' });
+  }
+
+  // Kills the subprocesses / removes the aria2 GID of an active job
+  async cancelJob(jobId: string): Promise<void> {
+    await this.publishControl({ jobId, action: 'cancel' });
+  }
+
+  private async publishControl(message: JobControlMessage): Promise<void> {
+    const receivers = await this.redis.publish(JOB_CONTROL_CHANNEL, JSON.stringify(message));
+    if (receivers === 0) {
+      this.logger.warn(`No worker listening for ${message.action} of job ${message.jobId}`);
+    } else {
+      this.logger.log(`Sent ${message.action} to worker for job ${message.jobId}`);
+    }
   }
 
   async getQueueStatus() {
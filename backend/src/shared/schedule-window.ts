@@ -0,0 +1,50 @@
+/**
+ * Daily time window, `HH:MM` in the server's local time. A window whose end
+ * is before its start spans midnight (`22:00`-`06:00`).
+ */
+export interface ScheduleWindow {
+  start: string;
+  end: string;
+}
+
+export const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+function minutesOfDay(time: string): number {
+  const match = TIME_OF_DAY_PATTERN.exec(time);
+  if (!match) {
+    throw new Error(`Invalid time of day "${time}", expected HH:MM`);
+  }
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+}
+
+export function isWithinWindow(date: Date, window: ScheduleWindow): boolean {
+  const start = minutesOfDay(window.start);
+  const end = minutesOfDay(window.end);
+  const minutes = date.getHours() * 60 + date.getMinutes();
+
+  return start <= end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+/** `from` itself when inside the window, otherwise the next opening of the window. */
+export function nextWindowStart(from: Date, window: ScheduleWindow): Date {
+  if (isWithinWindow(from, window)) return from;
+
+  const start = minutesOfDay(window.start);
+  const opening = new Date(from);
+  opening.setHours(Math.floor(start / 60), start % 60, 0, 0);
+  if (opening <= from) {
+    opening.setDate(opening.getDate() + 1);
+  }
+  return opening;
+}
+
+/**
+ * When a job may start: not before `startAt` (nor `now`), then within the
+ * window if there is one.
+ */
+export function scheduledStart(startAt: Date | null | undefined, window: ScheduleWindow | null | undefined, now = new Date()): Date {
+  const earliest = startAt && startAt > now ? startAt : now;
+  return window ? nextWindowStart(earliest, window) : earliest;
+}
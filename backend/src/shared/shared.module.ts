@@ -3,11 +3,12 @@ import { Reflector } from '@nestjs/core';
 import { DatabaseService } from './database.service.js';
 import { Logger } from './logger.service.js';
 import { QueueService } from './queue.service.js';
-import { ApiKeyGuard } from './guards/api-key.guard.js';
+import { AuthGuard } from './guards/auth.guard.js';
+import { TokenService } from './auth/token.service.js';
 
 @Global()
 @Module({
-  providers: [DatabaseService, Logger, QueueService, ApiKeyGuard, Reflector],
-  exports: [DatabaseService, Logger, QueueService, ApiKeyGuard, Reflector],
+  providers: [DatabaseService, Logger, QueueService, TokenService, AuthGuard, Reflector],
+  exports: [DatabaseService, Logger, QueueService, TokenService, AuthGuard, Reflector],
 })
 export class SharedModule {}
\ No newline at end of file
@@ -1,23 +1,45 @@
 import 'dotenv/config';
 import 'reflect-metadata';
 import type { Job } from 'bullmq';
-import { Worker } from 'bullmq';
+import { Worker, DelayedError } from 'bullmq';
 import { Redis } from 'ioredis';
 import { PrismaClient } from '@prisma/client';
 import pino from 'pino';
-import type { DownloadJobData } from './shared/queue.service.js';
-import { YtDlpDownloader } from './workers/ytdlp-downloader.js';
+import type { DownloadJobData, JobControlMessage } from './shared/queue.service.js';
+import { JOB_CONTROL_CHANNEL } from './shared/queue.service.js';
+import { YtDlpDownloader, subtitleLanguage } from './workers/ytdlp-downloader.js';
 import { Aria2Downloader } from './workers/aria2-downloader.js';
 import { FfmpegTranscoder } from './workers/ffmpeg-transcoder.js';
 import { TwitterDownloader } from './workers/twitter-downloader.js';
 import { PinterestDownloader } from './workers/pinterest-downloader.js';
 import { WebSocketClient } from './workers/websocket-client.js';
+import { JobControl, killSupervisedProcesses } from './workers/job-control.js';
+import { describeOutputFile } from './workers/output-files.js';
+import { isWithinWindow, nextWindowStart } from './shared/schedule-window.js';
+import { jobRateLimit } from './shared/host-rules.js';
+import { lowestRate } from './shared/bandwidth.js';
+import { BandwidthBudget } from './workers/bandwidth-budget.js';
+import type { Transfer } from './workers/bandwidth-budget.js';
+import { HostLimiter } from './workers/host-limiter.js';
+import type { HostSlot } from './workers/host-limiter.js';
+import { HeaderProfileStore } from './workers/header-profile-store.js';
+import { CookieJarStore } from './workers/cookie-jar-store.js';
+import { ProxySelector } from './workers/proxy-selector.js';
+import type { JobProxy } from './workers/proxy-selector.js';
+import { redactProxy } from './shared/proxies.js';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
 class DownloadWorker {
   private worker!: Worker;
   private redis: Redis;
+  private controlSubscriber: Redis;
+  private controls = new Map<string, JobControl>();
+  private hostLimiter: HostLimiter;
+  private headerProfiles: HeaderProfileStore;
+  private cookieJars: CookieJarStore;
+  private proxies: ProxySelector;
+  private bandwidth: BandwidthBudget;
   private db: PrismaClient;
   private logger: pino.Logger;
   private wsClient: WebSocketClient;
@@ -47,8 +69,15 @@ class DownloadWorker {
       password: process.env.REDIS_PASSWORD || undefined,
       maxRetriesPerRequest: null,
     });
+    // Subscriber mode blocks regular commands, so control messages get their own connection
+    this.controlSubscriber = this.redis.duplicate();
 
     this.db = new PrismaClient();
+    this.hostLimiter = new HostLimiter(this.redis, this.db);
+    this.headerProfiles = new HeaderProfileStore(this.db);
+    this.cookieJars = new CookieJarStore(this.db, this.logger);
+    this.proxies = new ProxySelector(this.redis, this.db);
+    this.bandwidth = new BandwidthBudget(this.redis, this.db, this.logger);
     this.wsClient = new WebSocketClient(this.logger);
     this.ytdlp = new YtDlpDownloader(this.logger, this.wsClient);
     this.aria2 = new Aria2Downloader(this.logger, this.wsClient);
@@ -67,11 +96,8 @@ class DownloadWorker {
       this.processJob.bind(this),
       {
         connection: this.redis,
+        // Per-host limits are applied when a job is picked up (see HostLimiter)
         concurrency: parseInt(process.env.MAX_CONCURRENT_JOBS || '3'),
-        limiter: {
-          max: parseInt(process.env.MAX_CONCURRENT_JOBS || '3'),
-          duration: 1000,
-        },
         stalledInterval: 30000,
         maxStalledCount: 1,
       }
@@ -89,9 +115,17 @@ class DownloadWorker {
       this.logger.warn(`⚠️  Job ${jobId} stalled`);
     });
 
+    // Listen for pause/resume requests sent by the API
+    await this.controlSubscriber.subscribe(JOB_CONTROL_CHANNEL);
+    this.controlSubscriber.on('message', (_channel: string, raw: string) => {
+      void this.handleControlMessage(raw);
+    });
+
     // Ensure directories exist
     await this.ensureDirectories();
 
+    this.bandwidth.start();
+
     this.logger.info(`🚀 Download worker started with concurrency: ${process.env.MAX_CONCURRENT_JOBS || '3'}`);
   }
 
@@ -105,10 +139,72 @@ class DownloadWorker {
     this.logger.info(`📁 Directories ensured: ${dataDir}, ${tempDir}`);
   }
 
-  private async processJob(job: Job<DownloadJobData>) {
-    const { jobId, url, type, headers, transcode, filenameHint, twitter, pinterest } = job.data;
+  private async handleControlMessage(raw: string) {
+    let message: JobControlMessage;
+    try {
+      message = JSON.parse(raw) as JobControlMessage;
+    } catch {
+      this.logger.warn(`Ignoring malformed control message: ${raw}`);
+      return;
+    }
+
+    // Another worker may hold the job
+    const control = this.controls.get(message.jobId);
+    if (!control) return;
+
+    try {
+      switch (message.action) {
+        case 'pause':
+          await control.pause();
+          this.wsClient.emitJobUpdate(message.jobId, { status: 'paused' });
+          this.logger.info(`⏸️  Job ${message.jobId} paused`);
+          break;
+        case 'resume':
+          await control.resume();
+          this.wsClient.emitJobUpdate(message.jobId, { status: 'running' });
+          this.logger.info(`▶️  Job ${message.jobId} resumed`);
+          break;
+        case 'cancel':
+          await control.cancel();
+          this.logger.info(`🛑 Cancelling job ${message.jobId}`);
+          break;
+      }
+    } catch (error) {
+      this.logger.error(`Failed to ${message.action} job ${message.jobId}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private async processJob(job: Job<DownloadJobData>, token?: string) {
+    const { jobId, url, type, headers: jobHeaders, transcode, filenameHint, format, maxHeight, audioOnly, audio, subtitles, archive, twitter, pinterest, maxSpeed } = job.data;
+
+    // A backlog may hand over a job after its window closed: wait for the next opening
+    if (job.data.window && !isWithinWindow(new Date(), job.data.window)) {
+      const opening = nextWindowStart(new Date(), job.data.window);
+      await job.moveToDelayed(opening.getTime(), token);
+      this.wsClient.emitJobUpdate(jobId, { status: 'scheduled', scheduledAt: opening.toISOString() });
+      this.logger.info(`⏰ Job ${jobId} is outside its window, delayed until ${opening.toISOString()}`);
+      throw new DelayedError();
+    }
+
+    const control = new JobControl(jobId);
+    this.controls.set(jobId, control);
+    let slot: HostSlot | null = null;
+    let cookiesFile: string | null = null;
+    let jobProxy: JobProxy | null = null;
+    let transfer: Transfer | null = null;
 
     try {
+      const headers = await this.headerProfiles.resolve(url, jobHeaders);
+
+      // A saturated host sends the job back to wait instead of failing it
+      slot = await this.hostLimiter.acquire(jobId, url);
+      if (!slot.acquired) {
+        await job.moveToDelayed(slot.retryAt.getTime(), token);
+        this.logger.info(`🚦 Host ${slot.rule.host} is busy, job ${jobId} delayed until ${slot.retryAt.toISOString()}`);
+        throw new DelayedError();
+      }
+      const rateLimit = lowestRate(maxSpeed, slot.rule ? jobRateLimit(slot.rule) : undefined);
+
       // Update job status to running (server-only writer)
       this.wsClient.emitJobUpdate(jobId, { status: 'running' });
 
@@ -124,7 +220,28 @@ class DownloadWorker {
       await fs.mkdir(tempJobDir, { recursive: true });
       await fs.mkdir(dataJobDir, { recursive: true });
 
-      let downloadResult: { filename: string; filepath: string; size?: number };
+      // The owner's cookie jar for the host, in the format of the tool running the job
+      const cookieFormat = type === 'twitter' ? 'twmd' : type === 'pinterest' ? 'json' : 'netscape';
+      cookiesFile = await this.cookieJars.materialize(jobId, url, tempJobDir, cookieFormat);
+
+      jobProxy = await this.proxies.select(job.data);
+      if (jobProxy) {
+        this.logger.info(`🌐 Job ${jobId} goes through ${redactProxy(jobProxy.url)}${jobProxy.pool ? ` (pool ${jobProxy.pool})` : ''}`);
+      }
+
+      // Share of the global limit: aria2 follows it as downloads start and end, yt-dlp keeps its start rate
+      const transferKind = type === 'youtube' || type === 'm3u8' ? 'fixed' : type === 'twitter' || type === 'pinterest' ? 'unthrottled' : 'adjustable';
+      transfer = await this.bandwidth.join(jobId, transferKind);
+
+      let downloadResult: {
+        filename: string;
+        filepath: string;
+        size?: number;
+        infoJsonPath?: string;
+        thumbnailPath?: string;
+        subtitlePaths?: string[];
+        files?: string[];
+      };
 
       // Stage 1: Download
       this.wsClient.emitProgress({
@@ -142,6 +259,15 @@ class DownloadWorker {
             jobId,
             headers,
             filenameHint,
+            format,
+            maxHeight,
+            audioOnly: audioOnly || (Boolean(audio) && !format),
+            writeMetadata: Boolean(audio),
+            subtitles: audio ? undefined : subtitles,
+            rateLimit: lowestRate(rateLimit, transfer.rate),
+            cookiesFile: cookiesFile ?? undefined,
+            proxy: jobProxy?.url,
+            control,
           });
           break;
 
@@ -152,7 +278,16 @@ class DownloadWorker {
             jobId,
             headers,
             filenameHint,
-            format: 'best[ext=mp4]',
+            format,
+            maxHeight,
+            audioOnly: audioOnly || (Boolean(audio) && !format),
+            writeMetadata: Boolean(audio),
+            subtitles: audio ? undefined : subtitles,
+            defaultFormat: 'best[ext=mp4]',
+            rateLimit: lowestRate(rateLimit, transfer.rate),
+            cookiesFile: cookiesFile ?? undefined,
+            proxy: jobProxy?.url,
+            control,
           });
           break;
 
@@ -166,8 +301,10 @@ class DownloadWorker {
             mediaType: twitter?.mediaType,
             includeRetweets: twitter?.includeRetweets,
             maxTweets: twitter?.maxTweets,
-            cookiesPath: process.env.TWITTER_COOKIES_PATH,
-            proxy: process.env.TWITTER_PROXY,
+            cookiesPath: cookiesFile ?? process.env.TWITTER_COOKIES_PATH,
+            proxy: jobProxy?.url ?? process.env.TWITTER_PROXY,
+            archive,
+            control,
           });
           break;
 
@@ -179,7 +316,10 @@ class DownloadWorker {
             maxImages: pinterest?.maxImages,
             includeVideos: pinterest?.includeVideos,
             resolution: pinterest?.resolution,
-            cookiesPath: process.env.PINTEREST_COOKIES_PATH,
+            cookiesPath: cookiesFile ?? process.env.PINTEREST_COOKIES_PATH,
+            proxy: jobProxy?.url,
+            archive,
+            control,
           });
           break;
 
@@ -192,13 +332,43 @@ class DownloadWorker {
             jobId,
             headers,
             filenameHint,
+            rateLimit: lowestRate(rateLimit, transfer.rate),
+            cookiesFile: cookiesFile ?? undefined,
+            proxy: jobProxy?.url,
+            control,
+            onStarted: gid => transfer?.follow(share => this.aria2.changeRateLimit(gid, lowestRate(rateLimit, share))),
           });
           break;
       }
 
-      // Stage 2: Transcode (if needed)
-      let finalFile = downloadResult;
-      if (transcode && transcode.to) {
+      // Post-processing does not use the network: the share goes back to the other transfers
+      await transfer.release();
+
+      // Stage 2: Audio extraction or transcode (if needed), single-file outputs only
+      let finalFile: { filename: string; filepath: string; size?: number } = downloadResult;
+      const multiFile = Boolean(downloadResult.files);
+      if (multiFile && (audio || transcode?.to)) {
+        this.logger.warn(`Job ${jobId} produced several files, skipping audio extraction/transcode`);
+      }
+      if (audio && !multiFile) {
+        await control.checkpoint();
+        this.wsClient.emitProgress({
+          jobId,
+          stage: 'transcode',
+          progress: 0,
+        });
+
+        finalFile = await this.ffmpeg.extractAudio({
+          inputPath: downloadResult.filepath,
+          outputDir: tempJobDir,
+          jobId,
+          options: audio,
+          infoJsonPath: downloadResult.infoJsonPath,
+          coverPath: downloadResult.thumbnailPath,
+          control,
+        });
+      } else if (transcode && transcode.to && !multiFile) {
+        await control.checkpoint();
         this.wsClient.emitProgress({
           jobId,
           stage: 'transcode',
@@ -210,10 +380,41 @@ class DownloadWorker {
           outputDir: tempJobDir,
           jobId,
           options: transcode,
+          control,
         });
       }
 
+      // Stage 2b: Subtitles, kept as sidecar files or merged into the video
+      const subtitleTracks = (downloadResult.subtitlePaths ?? []).map(p => ({ path: p, language: subtitleLanguage(p) }));
+      let sidecars: typeof subtitleTracks = [];
+      if (subtitles && !audio) {
+        if (subtitleTracks.length === 0) {
+          this.logger.warn(`No subtitles found for job ${jobId} (${subtitles.languages.join(',')})`);
+        } else if (subtitles.mode === 'mux' || subtitles.mode === 'burn') {
+          await control.checkpoint();
+          this.wsClient.emitProgress({
+            jobId,
+            stage: 'transcode',
+            progress: 0,
+          });
+
+          const subtitleOptions = {
+            inputPath: finalFile.filepath,
+            outputDir: tempJobDir,
+            jobId,
+            subtitles: subtitleTracks,
+            control,
+          };
+          finalFile = subtitles.mode === 'mux'
+            ? await this.ffmpeg.muxSubtitles(subtitleOptions)
+            : await this.ffmpeg.burnSubtitles(subtitleOptions);
+        } else {
+          sidecars = subtitleTracks;
+        }
+      }
+
       // Stage 3: Finalize - Move to final location
+      await control.checkpoint();
       this.wsClient.emitProgress({
         jobId,
         stage: 'finalize',
@@ -222,9 +423,35 @@ class DownloadWorker {
 
       const finalPath = path.join(dataJobDir, finalFile.filename);
       await fs.rename(finalFile.filepath, finalPath);
+      const finalPaths = [finalPath];
+
+      // Other files of an unarchived multi-file download keep their names
+      for (const filepath of downloadResult.files ?? []) {
+        if (filepath === finalFile.filepath) continue;
+        const outputPath = path.join(dataJobDir, path.basename(filepath));
+        await fs.rename(filepath, outputPath);
+        finalPaths.push(outputPath);
+      }
+
+      // Sidecar subtitles are named after the video: video.en.srt
+      const baseName = path.basename(finalFile.filename, path.extname(finalFile.filename));
+      for (const track of sidecars) {
+        const outputPath = path.join(dataJobDir, `${baseName}.${track.language}${path.extname(track.path)}`);
+        await fs.rename(track.path, outputPath);
+        finalPaths.push(outputPath);
+      }
 
-      // Get final file stats
-      const stats = await fs.stat(finalPath);
+      // Checksums are computed here; the server records the files on completion
+      const files = [];
+      for (const filepath of finalPaths) {
+        files.push(await describeOutputFile(filepath));
+      }
+      const stats = files[0];
+
+      // Poster frame for previews, next to the outputs but not one of them
+      const thumbnailPath = /^(video|audio|image)\//.test(stats.mimeType)
+        ? await this.ffmpeg.createThumbnail(finalPath, path.join(dataJobDir, '.thumbnail.jpg'))
+        : null;
 
       // Server-only writer will persist completion
 
@@ -234,6 +461,8 @@ class DownloadWorker {
         filename: finalFile.filename,
         size: stats.size,
         outputPath: finalPath,
+        files,
+        thumbnailPath: thumbnailPath ?? undefined,
       });
 
       // Clean up temp directory
@@ -242,21 +471,61 @@ class DownloadWorker {
       this.logger.info(`✅ Job ${jobId} completed: ${finalFile.filename} (${stats.size} bytes)`);
 
     } catch (error) {
+      // Back to waiting, not a failure
+      if (error instanceof DelayedError) throw error;
+
+      if (control.isCancelled) {
+        await this.finalizeCancelledJob(jobId);
+        return; // Cancelled jobs are terminal, never retried
+      }
+
       this.logger.error(`❌ Job ${jobId} failed:`, error instanceof Error ? error.message : String(error));
 
       const errorCode = error instanceof Error && 'code' in error ? (error as any).code : 'UNKNOWN_ERROR';
       const errorMessage = error instanceof Error ? error.message : String(error);
 
+      // The retry BullMQ schedules next avoids the pool proxy that just failed
+      if (errorCode === 'NETWORK_ERROR' && jobProxy?.pool) {
+        await job.updateData({ ...job.data, excludedProxies: [...(job.data.excludedProxies ?? []), jobProxy.url] });
+        this.logger.warn(`🌐 Proxy ${redactProxy(jobProxy.url)} failed for job ${jobId}, a retry will use another member of ${jobProxy.pool}`);
+      }
+
+      // attemptsMade only counts the attempts that already failed
+      const attemptsMade = job.attemptsMade + 1;
+      const willRetry = attemptsMade < (job.opts.attempts ?? 1);
+
       this.wsClient.emitFailed({
         jobId,
         errorCode,
         message: errorMessage,
+        attemptsMade,
+        willRetry,
       });
 
       throw error; // Let BullMQ handle retry logic
+    } finally {
+      this.controls.delete(jobId);
+      if (slot?.acquired) await slot.release();
+      await transfer?.release();
+      // Decrypted cookies never outlive the run, even when tmp/{jobId} is kept for a retry
+      if (cookiesFile) {
+        await fs.rm(path.dirname(cookiesFile), { recursive: true, force: true });
+      }
     }
   }
 
+  private async finalizeCancelledJob(jobId: string) {
+    const tempDir = path.resolve(process.env.TEMP_DIR || './tmp');
+    const dataDir = path.resolve(process.env.DATA_DIR || './data');
+
+    // Drop partial data; nothing was moved to data/{jobId} yet
+    await fs.rm(path.join(tempDir, jobId), { recursive: true, force: true });
+    await fs.rm(path.join(dataDir, jobId), { recursive: true, force: true });
+
+    this.wsClient.emitCancelled({ jobId, message: 'Cancelled by user' });
+    this.logger.info(`🛑 Job ${jobId} cancelled`);
+  }
+
   private async updateJobStatus(
     jobId: string,
     status: string,
@@ -277,7 +546,11 @@ class DownloadWorker {
   }
 
   async stop() {
+    // Subprocesses run in their own process groups and would outlive the worker
+    killSupervisedProcesses();
+    this.bandwidth.stop();
     await this.worker?.close();
+    await this.controlSubscriber?.disconnect();
     await this.redis?.disconnect();
     await this.db?.$disconnect();
     this.logger.info('🛑 Worker stopped');
@@ -292,6 +565,9 @@ worker.start().catch((error) => {
   process.exit(1);
 });
 
+// Last resort when the worker dies without going through stop()
+process.on('exit', killSupervisedProcesses);
+
 // Graceful shutdown
 process.on('SIGINT', async () => {
   console.log('Received SIGINT, shutting down gracefully...');
@@ -1,4 +1,4 @@
-import { computeAria2Progress, type Aria2Status } from '../aria2-downloader.js';
+import { buildAria2HeaderOptions, computeAria2Progress, parseAria2ErrorCode, type Aria2Status } from '../aria2-downloader.js';
 
 describe('computeAria2Progress', () => {
   test('calcule progress/eta/speed/totalBytes', () => {
@@ -39,3 +39,30 @@ describe('computeAria2Progress', () => {
     expect(computeAria2Progress(status)).toBeNull();
   });
 });
+
+describe('buildAria2HeaderOptions', () => {
+  test('transmet chaque en-tête supplémentaire à aria2', () => {
+    expect(buildAria2HeaderOptions({
+      ua: 'UA',
+      referer: 'https://example.com/',
+      extra: { Authorization: 'Bearer x', Cookie: 'a=1; b=2', Accept: '' },
+    })).toEqual({
+      'user-agent': 'UA',
+      'referer': 'https://example.com/',
+      'header': ['Authorization: Bearer x', 'Cookie: a=1; b=2'],
+    });
+  });
+
+  test('n’ajoute rien sans en-têtes', () => {
+    expect(buildAria2HeaderOptions(undefined)).toEqual({});
+  });
+});
+
+describe('parseAria2ErrorCode', () => {
+  test('reconnaît les erreurs réseau d’aria2', () => {
+    expect(parseAria2ErrorCode('6')).toBe('NETWORK_ERROR');
+    expect(parseAria2ErrorCode('19')).toBe('NETWORK_ERROR');
+    expect(parseAria2ErrorCode('3')).toBeUndefined();
+    expect(parseAria2ErrorCode(undefined)).toBeUndefined();
+  });
+});
@@ -1,4 +1,14 @@
-import { parseFfmpegOutTimeMs } from '../ffmpeg-transcoder.js';
+import {
+  audioTagsFromInfo,
+  buildAudioExtractArgs,
+  buildSubtitleBurnArgs,
+  buildSubtitleMuxArgs,
+  buildThumbnailArgs,
+  parseFfmpegDuration,
+  parseFfmpegOutTimeMs,
+  subtitleContainer,
+  thumbnailOffset,
+} from '../ffmpeg-transcoder.js';
 
 describe('parseFfmpegOutTimeMs', () => {
   test('calcule 50% pour out_time_ms à mi-parcours', () => {
@@ -27,3 +37,113 @@ describe('parseFfmpegOutTimeMs', () => {
     expect(pct!).toBeCloseTo(100, 6);
   });
 });
+
+describe('audioTagsFromInfo', () => {
+  test('préfère les champs musicaux et retombe sur titre/uploader', () => {
+    expect(audioTagsFromInfo({
+      title: 'Episode 12',
+      uploader: 'Some Podcast',
+      playlist_title: 'Season 2',
+      upload_date: '20240315',
+    })).toEqual({ title: 'Episode 12', artist: 'Some Podcast', album: 'Season 2', date: '2024' });
+
+    expect(audioTagsFromInfo({
+      title: 'Song (Official Video)',
+      track: 'Song',
+      artist: 'Band',
+      album: 'Record',
+      release_year: 2019,
+      uploader: 'BandVEVO',
+    })).toEqual({ title: 'Song', artist: 'Band', album: 'Record', date: '2019' });
+  });
+});
+
+describe('buildAudioExtractArgs', () => {
+  test('mp3 avec pochette, tags et débit par défaut', () => {
+    const args = buildAudioExtractArgs({
+      inputPath: '/tmp/j/in.webm',
+      outputPath: '/tmp/j/in.mp3',
+      format: 'mp3',
+      tags: { title: 'T', artist: 'A', album: undefined },
+      coverPath: '/tmp/j/.meta/cover.jpg',
+    });
+
+    expect(args.slice(0, 4)).toEqual(['-i', '/tmp/j/in.webm', '-i', '/tmp/j/.meta/cover.jpg']);
+    expect(args.join(' ')).toContain('-map 0:a:0 -map 1:v:0 -c:v mjpeg -disposition:v:0 attached_pic');
+    expect(args.join(' ')).toContain('-c:a libmp3lame -b:a 192k');
+    expect(args).toContain('title=T');
+    expect(args).toContain('artist=A');
+    expect(args.some(a => a.startsWith('album='))).toBe(false);
+    expect(args.join(' ')).toContain('-id3v2_version 3');
+    expect(args[args.length - 1]).toBe('/tmp/j/in.mp3');
+  });
+
+  test('opus ignore la pochette et flac ignore le débit', () => {
+    const opus = buildAudioExtractArgs({
+      inputPath: 'in.webm',
+      outputPath: 'in.opus',
+      format: 'opus',
+      bitrate: 96,
+      coverPath: 'cover.jpg',
+    });
+    expect(opus).not.toContain('cover.jpg');
+    expect(opus.join(' ')).toContain('-c:a libopus -b:a 96k');
+
+    const flac = buildAudioExtractArgs({ inputPath: 'in.m4a', outputPath: 'in.flac', format: 'flac', bitrate: 320 });
+    expect(flac.join(' ')).toContain('-c:a flac');
+    expect(flac).not.toContain('-b:a');
+  });
+});
+
+describe('buildSubtitleMuxArgs', () => {
+  test('ajoute chaque piste avec sa langue et le codec du conteneur', () => {
+    const args = buildSubtitleMuxArgs({
+      inputPath: '/tmp/j/v.mp4',
+      outputPath: '/tmp/j/v_subtitled.mp4',
+      subtitles: [
+        { path: '/tmp/j/.subs/subs.en.srt', language: 'en' },
+        { path: '/tmp/j/.subs/subs.fr.srt', language: 'fr' },
+      ],
+    });
+
+    expect(args.join(' ')).toContain('-i /tmp/j/v.mp4 -i /tmp/j/.subs/subs.en.srt -i /tmp/j/.subs/subs.fr.srt');
+    expect(args.join(' ')).toContain('-map 0 -map 1:0 -map 2:0 -c copy -c:s mov_text');
+    expect(args.join(' ')).toContain('-metadata:s:s:0 language=en -metadata:s:s:1 language=fr');
+  });
+
+  test('choisit le conteneur de sortie', () => {
+    expect(subtitleContainer('a.webm')).toBe('webm');
+    expect(subtitleContainer('a.MKV')).toBe('mkv');
+    expect(subtitleContainer('a.flv')).toBe('mkv');
+  });
+});
+
+describe('buildSubtitleBurnArgs', () => {
+  test('réencode la vidéo avec le filtre subtitles et copie l’audio', () => {
+    const args = buildSubtitleBurnArgs({ inputPath: '/v.webm', outputPath: '/v_subtitled.mp4', subtitleFilename: 'subs.en.srt' });
+    expect(args.join(' ')).toContain('-vf subtitles=subs.en.srt -c:v libx264 -crf 23');
+    expect(args.join(' ')).toContain('-c:a copy');
+  });
+});
+
+describe('miniature', () => {
+  test('lit la durée annoncée par le conteneur', () => {
+    expect(parseFfmpegDuration('  Duration: 01:02:03.50, start: 0.000000, bitrate: 1000 kb/s')).toBeCloseTo(3723.5, 2);
+    expect(parseFfmpegDuration('Input #0, png_pipe')).toBe(0);
+  });
+
+  test('se place à 10% de la durée, 30s au plus', () => {
+    expect(thumbnailOffset(0)).toBe(0);
+    expect(thumbnailOffset(60)).toBe(6);
+    expect(thumbnailOffset(3600)).toBe(30);
+  });
+
+  test('extrait une seule image redimensionnée', () => {
+    const args = buildThumbnailArgs({ inputPath: '/d/v.mp4', outputPath: '/d/.thumbnail.jpg', offset: 6 });
+    expect(args.join(' ')).toContain('-ss 6 -i /d/v.mp4 -map 0:v:0 -frames:v 1');
+    expect(args[args.length - 1]).toBe('/d/.thumbnail.jpg');
+
+    const still = buildThumbnailArgs({ inputPath: '/d/p.png', outputPath: '/d/t.jpg', offset: 0 });
+    expect(still).not.toContain('-ss');
+  });
+});
@@ -0,0 +1,124 @@
+import { EventEmitter } from 'events';
+import { jest } from '@jest/globals';
+import type { ExecaChildProcess } from 'execa';
+import { JobCancelledError, JobControl, superviseProcess } from '../job-control.js';
+
+describe('JobControl', () => {
+  function createHandle() {
+    return {
+      pause: jest.fn<() => void>(),
+      resume: jest.fn<() => void>(),
+      cancel: jest.fn<() => void>(),
+    };
+  }
+
+  test('transmet pause/resume au handle attaché', async () => {
+    const control = new JobControl('job-1');
+    const handle = createHandle();
+    control.attach(handle);
+
+    await control.pause();
+    expect(control.isPaused).toBe(true);
+    expect(handle.pause).toHaveBeenCalledTimes(1);
+
+    await control.resume();
+    expect(control.isPaused).toBe(false);
+    expect(handle.resume).toHaveBeenCalledTimes(1);
+  });
+
+  test('suspend immédiatement un handle attaché pendant une pause', async () => {
+    const control = new JobControl('job-2');
+    await control.pause();
+
+    const handle = createHandle();
+    control.attach(handle);
+    expect(handle.pause).toHaveBeenCalledTimes(1);
+  });
+
+  test('ignore un handle détaché', async () => {
+    const control = new JobControl('job-3');
+    const handle = createHandle();
+    const detach = control.attach(handle);
+    detach();
+
+    await control.pause();
+    expect(handle.pause).not.toHaveBeenCalled();
+  });
+
+  test('cancel réveille une étape en pause et checkpoint lève JobCancelledError', async () => {
+    const control = new JobControl('job-5');
+    const handle = createHandle();
+    control.attach(handle);
+
+    await control.pause();
+    const checkpoint = control.checkpoint();
+
+    await control.cancel();
+    expect(handle.cancel).toHaveBeenCalledTimes(1);
+    expect(control.isCancelled).toBe(true);
+    await expect(checkpoint).rejects.toBeInstanceOf(JobCancelledError);
+  });
+
+  test('annule immédiatement un handle attaché après annulation', async () => {
+    const control = new JobControl('job-6');
+    await control.cancel();
+
+    const handle = createHandle();
+    control.attach(handle);
+    expect(handle.cancel).toHaveBeenCalledTimes(1);
+    expect(handle.pause).not.toHaveBeenCalled();
+  });
+
+  test('waitUntilResumed attend la reprise entre deux étapes', async () => {
+    const control = new JobControl('job-4');
+    await expect(control.waitUntilResumed()).resolves.toBeUndefined();
+
+    await control.pause();
+    let resumed = false;
+    const waiting = control.waitUntilResumed().then(() => { resumed = true; });
+
+    await Promise.resolve();
+    expect(resumed).toBe(false);
+
+    await control.resume();
+    await waiting;
+    expect(resumed).toBe(true);
+  });
+});
+
+describe('superviseProcess', () => {
+  // Without a pid no signal is sent, only the timeout bookkeeping runs
+  function fakeSubprocess() {
+    return Object.assign(new EventEmitter(), { pid: undefined, kill: jest.fn() }) as unknown as ExecaChildProcess;
+  }
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('ne compte pas le temps passé en pause dans le timeout', () => {
+    jest.useFakeTimers();
+    const supervised = superviseProcess(fakeSubprocess(), 1000);
+
+    jest.advanceTimersByTime(600);
+    void supervised.pause();
+    jest.advanceTimersByTime(10_000);
+    expect(supervised.timedOut).toBe(false);
+
+    void supervised.resume();
+    jest.advanceTimersByTime(399);
+    expect(supervised.timedOut).toBe(false);
+    jest.advanceTimersByTime(2);
+    expect(supervised.timedOut).toBe(true);
+  });
+
+  test('arrête le timeout quand le processus se termine', () => {
+    jest.useFakeTimers();
+    const subprocess = fakeSubprocess();
+    const supervised = superviseProcess(subprocess, 1000);
+
+    subprocess.emit('exit', 0);
+    jest.advanceTimersByTime(5000);
+    expect(supervised.timedOut).toBe(false);
+  });
+});
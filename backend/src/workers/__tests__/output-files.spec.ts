@@ -0,0 +1,31 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { describeOutputFile } from '../output-files.js';
+
+describe('describeOutputFile', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'adm-output-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('calcule taille, type MIME et sha256', async () => {
+    const filepath = path.join(dir, 'photo.JPG');
+    await fs.writeFile(filepath, 'hello');
+
+    const file = await describeOutputFile(filepath);
+
+    expect(file).toEqual({
+      filename: 'photo.JPG',
+      size: 5,
+      outputPath: filepath,
+      mimeType: 'image/jpeg',
+      sha256: '2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824',
+    });
+  });
+});
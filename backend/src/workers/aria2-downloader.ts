@@ -2,6 +2,7 @@ import type pino from 'pino';
 import * as path from 'path';
 import sanitizeFilename from 'sanitize-filename';
 import type { WebSocketClient } from './websocket-client.js';
+import type { JobControl } from './job-control.js';
 
 export interface Aria2Options {
   url: string;
@@ -13,10 +14,46 @@ export interface Aria2Options {
     extra?: Record<string, string>;
   };
   filenameHint?: string;
+  // Bandwidth cap in bytes per second
+  rateLimit?: number;
+  // Netscape cookies file
+  cookiesFile?: string;
+  proxy?: string;
+  control?: JobControl;
+  // Called with the GID once aria2 took the download, e.g. to change its rate later
+  onStarted?: (gid: string) => void;
   // Optional callback to persist progress in DB
   onProgress?: (update: { progress: number; stage: 'download'; speed?: string; eta?: number; totalBytes?: number }) => Promise<void> | void;
 }
 
+// aria2 exit codes worth another route: timeout, network problem, name resolution failure
+const ARIA2_NETWORK_ERROR_CODES = new Set(['2', '6', '19']);
+
+export function parseAria2ErrorCode(errorCode: string | undefined): 'NETWORK_ERROR' | undefined {
+  return errorCode && ARIA2_NETWORK_ERROR_CODES.has(errorCode) ? 'NETWORK_ERROR' : undefined;
+}
+
+/**
+ * aria2 options for the request headers. `header` is repeatable in aria2 and
+ * takes an array over RPC: one `Name: value` entry per extra header.
+ */
+export function buildAria2HeaderOptions(headers: Aria2Options['headers']): Record<string, string | string[]> {
+  const options: Record<string, string | string[]> = {};
+  if (headers?.ua) {
+    options['user-agent'] = headers.ua;
+  }
+  if (headers?.referer) {
+    options['referer'] = headers.referer;
+  }
+  const extra = Object.entries(headers?.extra ?? {})
+    .filter(([, value]) => value)
+    .map(([key, value]) => `${key}: ${value}`);
+  if (extra.length > 0) {
+    options['header'] = extra;
+  }
+  return options;
+}
+
 export class Aria2Downloader {
   private aria2Url: string;
   private aria2Secret: string | undefined;
@@ -30,10 +67,10 @@ export class Aria2Downloader {
   }
 
   async download(options: Aria2Options): Promise<{ filename: string; filepath: string; size?: number }> {
-    const { url, outputDir, headers, filenameHint, jobId, onProgress } = options;
+    const { url, outputDir, headers, filenameHint, rateLimit, cookiesFile, proxy, jobId, control, onStarted, onProgress } = options;
 
     // Prepare aria2 options
-    const aria2Options: Record<string, string> = {
+    const aria2Options: Record<string, string | string[]> = {
       'dir': outputDir,
       'max-connection-per-server': '5',
       'split': '5',
@@ -41,6 +78,15 @@ export class Aria2Downloader {
       'max-tries': '3',
       'retry-wait': '5',
     };
+    if (rateLimit) {
+      aria2Options['max-download-limit'] = String(rateLimit);
+    }
+    if (cookiesFile) {
+      aria2Options['load-cookies'] = cookiesFile;
+    }
+    if (proxy) {
+      aria2Options['all-proxy'] = proxy;
+    }
 
     // Set custom filename if provided
     if (filenameHint) {
@@ -51,23 +97,22 @@ export class Aria2Downloader {
       aria2Options['out'] = `${sanitized}${ext}`;
     }
 
-    // Add headers
-    if (headers?.ua) {
-      aria2Options['user-agent'] = headers.ua;
-    }
-    if (headers?.referer) {
-      aria2Options['referer'] = headers.referer;
-    }
-    if (headers?.extra) {
-      for (const [key, value] of Object.entries(headers.extra)) {
-        aria2Options['header'] = `${key}: ${value}`;
-      }
-    }
+    Object.assign(aria2Options, buildAria2HeaderOptions(headers));
+
+    let detachControl: (() => void) | undefined;
 
     try {
       // Start download
       const gid = await this.addDownload(url, aria2Options);
       this.logger.info(`Started aria2 download with GID: ${gid}`);
+      onStarted?.(gid);
+
+      // aria2 keeps the partial data while the GID is paused
+      detachControl = control?.attach({
+        pause: () => this.pause(gid),
+        resume: () => this.unpause(gid),
+        cancel: () => this.remove(gid),
+      });
 
       // Monitor progress
       const result = await this.monitorDownload(gid, jobId, onProgress);
@@ -80,10 +125,12 @@ export class Aria2Downloader {
       const trace = error instanceof Error ? error.stack : undefined;
       this.logger.error(`aria2 download failed: ${errorMessage}`, trace);
       throw error;
+    } finally {
+      detachControl?.();
     }
   }
 
-  private async addDownload(url: string, options: Record<string, string>): Promise<string> {
+  private async addDownload(url: string, options: Record<string, string | string[]>): Promise<string> {
     const params: unknown[] = this.aria2Secret ? [`token:${this.aria2Secret}`, [url], options] : [[url], options];
 
     return this.rpcCall<string>('aria2.addUri', params);
@@ -96,15 +143,20 @@ export class Aria2Downloader {
   ): Promise<{ filename: string; filepath: string; size: number }> {
     const pollInterval = 2000; // 2 seconds
     const timeout = parseInt(process.env.JOB_TIMEOUT || '7200000'); // 2 hours
-    const startTime = Date.now();
+    let deadline = Date.now() + timeout;
 
     while (true) {
-      if (Date.now() - startTime > timeout) {
+      if (Date.now() > deadline) {
         throw new Error('Download timeout');
       }
 
       const status = await this.getDownloadStatus(gid);
 
+      // Time spent paused does not count against the job timeout
+      if (status.status === 'paused') {
+        deadline += pollInterval;
+      }
+
       // Update progress
       const metrics = computeAria2Progress(status);
       if (metrics) {
@@ -128,7 +180,10 @@ export class Aria2Downloader {
       }
 
       if (status.status === 'error') {
-        throw new Error(`Download failed: ${status.errorMessage || 'Unknown error'}`);
+        const error = new Error(`Download failed: ${status.errorMessage || 'Unknown error'}`) as Error & { code?: string };
+        const code = parseAria2ErrorCode(status.errorCode);
+        if (code) error.code = code;
+        throw error;
       }
 
       if (status.status === 'removed') {
@@ -140,6 +195,28 @@ export class Aria2Downloader {
     }
   }
 
+  async pause(gid: string): Promise<void> {
+    const params: unknown[] = this.aria2Secret ? [`token:${this.aria2Secret}`, gid] : [gid];
+    await this.rpcCall<string>('aria2.pause', params);
+  }
+
+  async unpause(gid: string): Promise<void> {
+    const params: unknown[] = this.aria2Secret ? [`token:${this.aria2Secret}`, gid] : [gid];
+    await this.rpcCall<string>('aria2.unpause', params);
+  }
+
+  /** Bandwidth cap of a running download in bytes per second, none when undefined. */
+  async changeRateLimit(gid: string, rateLimit: number | undefined): Promise<void> {
+    const options = { 'max-download-limit': String(rateLimit ?? 0) };
+    const params: unknown[] = this.aria2Secret ? [`token:${this.aria2Secret}`, gid, options] : [gid, options];
+    await this.rpcCall<string>('aria2.changeOption', params);
+  }
+
+  async remove(gid: string): Promise<void> {
+    const params: unknown[] = this.aria2Secret ? [`token:${this.aria2Secret}`, gid] : [gid];
+    await this.rpcCall<string>('aria2.remove', params);
+  }
+
   private async getDownloadStatus(gid: string): Promise<Aria2Status> {
     const params: unknown[] = this.aria2Secret ? [`token:${this.aria2Secret}`, gid] : [gid];
     return this.rpcCall<Aria2Status>('aria2.tellStatus', params);
@@ -194,6 +271,7 @@ export interface Aria2Status {
   completedLength: string;
   downloadSpeed?: string;
   files: Aria2FileEntry[];
+  errorCode?: string;
   errorMessage?: string;
 }
 
@@ -0,0 +1,137 @@
+import type pino from 'pino';
+import type { Redis } from 'ioredis';
+import type { PrismaClient } from '@prisma/client';
+import { BANDWIDTH_SETTING, currentBandwidthLimit, parseBandwidthSettings, remainingShare, startShare } from '../shared/bandwidth.js';
+
+// Transfers running on every worker (score: last renewal), and the rates yt-dlp jobs got at start
+const TRANSFERS_KEY = 'downloads:bandwidth:transfers';
+const FIXED_RATES_KEY = 'downloads:bandwidth:fixed-rates';
+
+// A transfer whose worker stopped renewing it (crash) no longer counts after this long
+const TRANSFER_LEASE_MS = 60 * 1000;
+// Also follows the transfers of other workers and the day/night schedule
+const REBALANCE_MS = 10 * 1000;
+
+/**
+ * How a transfer takes its share: `adjustable` follows every change (aria2
+ * GID), `fixed` gets it once when it starts (yt-dlp `--limit-rate`),
+ * `unthrottled` is only counted (twmd and pinterest-dl have no rate option).
+ */
+export type TransferKind = 'adjustable' | 'fixed' | 'unthrottled';
+
+export interface Transfer {
+  // Share of the global limit when the transfer starts, undefined when unlimited
+  rate: number | undefined;
+  // Called with each new share of an adjustable transfer
+  follow: (apply: (rate: number | undefined) => Promise<void>) => void;
+  release: () => Promise<void>;
+}
+
+interface LocalTransfer {
+  kind: TransferKind;
+  apply?: (rate: number | undefined) => Promise<void>;
+  applied?: number;
+}
+
+/**
+ * Splits the global bandwidth limit between the downloads running on every
+ * worker, whatever the tool. Transfers are tracked in Redis with a lease, like
+ * host slots; each worker re-applies the shares of its own aria2 transfers
+ * when a transfer starts or ends here, and every `REBALANCE_MS`.
+ */
+export class BandwidthBudget {
+  private transfers = new Map<string, LocalTransfer>();
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private redis: Redis,
+    private db: PrismaClient,
+    private logger: pino.Logger,
+  ) {}
+
+  start() {
+    this.timer = setInterval(() => void this.rebalance(), REBALANCE_MS);
+    this.timer.unref();
+  }
+
+  stop() {
+    clearInterval(this.timer);
+  }
+
+  async join(jobId: string, kind: TransferKind): Promise<Transfer> {
+    await this.redis.zadd(TRANSFERS_KEY, Date.now(), jobId);
+
+    const { limit, running, fixedRates } = await this.snapshot();
+    const local: LocalTransfer = { kind };
+    let rate: number | undefined;
+    if (kind === 'fixed') {
+      rate = startShare(limit, running.length);
+      if (rate) await this.redis.hset(FIXED_RATES_KEY, jobId, rate);
+    } else if (kind === 'adjustable') {
+      rate = remainingShare(limit, fixedRates, running.length - fixedRates.length);
+      local.applied = rate;
+    }
+    this.transfers.set(jobId, local);
+
+    // The running aria2 transfers make room for this one
+    await this.rebalance();
+
+    return {
+      rate,
+      follow: apply => {
+        local.apply = apply;
+      },
+      release: () => this.leave(jobId),
+    };
+  }
+
+  private async leave(jobId: string) {
+    if (!this.transfers.delete(jobId)) return;
+    await this.redis.zrem(TRANSFERS_KEY, jobId);
+    await this.redis.hdel(FIXED_RATES_KEY, jobId);
+    await this.rebalance();
+  }
+
+  private async snapshot() {
+    await this.redis.zremrangebyscore(TRANSFERS_KEY, '-inf', Date.now() - TRANSFER_LEASE_MS);
+    const [running, rates, setting] = await Promise.all([
+      this.redis.zrange(TRANSFERS_KEY, 0, -1),
+      this.redis.hgetall(FIXED_RATES_KEY),
+      this.db.setting.findUnique({ where: { key: BANDWIDTH_SETTING } }),
+    ]);
+
+    // Rates left behind by a crashed worker go with its expired transfers
+    const stale = Object.keys(rates).filter(jobId => !running.includes(jobId));
+    if (stale.length > 0) await this.redis.hdel(FIXED_RATES_KEY, ...stale);
+
+    return {
+      limit: currentBandwidthLimit(parseBandwidthSettings(setting?.value)),
+      running,
+      fixedRates: running.filter(jobId => jobId in rates).map(jobId => Number(rates[jobId])),
+    };
+  }
+
+  private async rebalance() {
+    try {
+      const now = Date.now();
+      for (const jobId of this.transfers.keys()) {
+        await this.redis.zadd(TRANSFERS_KEY, 'XX', now, jobId);
+      }
+
+      const { limit, running, fixedRates } = await this.snapshot();
+      const share = remainingShare(limit, fixedRates, running.length - fixedRates.length);
+      for (const [jobId, transfer] of this.transfers) {
+        if (transfer.kind !== 'adjustable' || !transfer.apply || transfer.applied === share) continue;
+        try {
+          await transfer.apply(share);
+          transfer.applied = share;
+        } catch (error) {
+          // The transfer may have ended in the meantime
+          this.logger.debug(`Could not change the rate of job ${jobId}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+    } catch (error) {
+      this.logger.warn(`Could not rebalance the bandwidth shares: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
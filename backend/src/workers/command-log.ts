@@ -0,0 +1,45 @@
+import { redactProxy } from '../shared/proxies.js';
+
+/**
+ * Secret arguments of a subprocess (cookie headers, proxy credentials) mapped
+ * to what logs and error messages show instead.
+ */
+export type ArgSecrets = Map<string, string>;
+
+/** A proxy URL given as an argument, when it carries credentials. */
+export function proxySecrets(proxy: string | undefined): ArgSecrets {
+  const secrets: ArgSecrets = new Map();
+  if (proxy && redactProxy(proxy) !== proxy) {
+    secrets.set(proxy, redactProxy(proxy));
+  }
+  return secrets;
+}
+
+export function redactArgs(args: string[], secrets: ArgSecrets): string[] {
+  return args.map(arg => secrets.get(arg) ?? arg);
+}
+
+/** Mask the secrets in a text, e.g. an execa error message, which holds the whole command line. */
+export function redactText(text: string, secrets: ArgSecrets): string {
+  let redacted = text;
+  for (const [secret, replacement] of secrets) {
+    redacted = redacted.split(secret).join(replacement);
+  }
+  return redacted;
+}
+
+// Text fields of an execa error that repeat the command line or the output
+const ERROR_TEXT_FIELDS = ['message', 'stack', 'shortMessage', 'originalMessage', 'command', 'escapedCommand', 'stderr', 'stdout', 'all'];
+
+/**
+ * Mask the secrets in every text field of an error before it is logged,
+ * stored on the job or copied onto a downloader error.
+ */
+export function redactError(error: unknown, secrets: ArgSecrets): void {
+  if (!(error instanceof Error) || secrets.size === 0) return;
+  const fields = error as unknown as Record<string, unknown>;
+  for (const field of ERROR_TEXT_FIELDS) {
+    const value = fields[field];
+    if (typeof value === 'string') fields[field] = redactText(value, secrets);
+  }
+}
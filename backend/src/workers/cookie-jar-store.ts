@@ -0,0 +1,75 @@
+import type pino from 'pino';
+import type { PrismaClient } from '@prisma/client';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { matchHostRule } from '../shared/host-rules.js';
+import {
+  cookieJarKey,
+  decryptCookies,
+  toBrowserJsonCookies,
+  toNetscapeCookies,
+  toTwmdCookies,
+  unexpiredCookies,
+} from '../shared/cookie-jar.js';
+import type { JarCookie } from '../shared/cookie-jar.js';
+
+// Hidden dir of tmp/{jobId}: downloaders skip dot entries when collecting their outputs
+const COOKIES_DIR = '.cookies';
+
+// File layout each tool reads; twmd looks for its file in its working directory
+const COOKIE_FILES = {
+  netscape: { filename: 'cookies.txt', format: toNetscapeCookies },
+  twmd: { filename: 'twmd_cookies.json', format: toTwmdCookies },
+  json: { filename: 'cookies.json', format: toBrowserJsonCookies },
+};
+
+export type CookieFileFormat = keyof typeof COOKIE_FILES;
+
+/**
+ * Writes the cookie jar of a job's owner for the job's host into the job's
+ * temp dir, decrypted, in the format of the tool that runs the job.
+ */
+export class CookieJarStore {
+  private key: Buffer | null;
+
+  constructor(
+    private db: PrismaClient,
+    private logger: pino.Logger,
+  ) {
+    const secret = process.env.COOKIE_JAR_SECRET || process.env.JWT_SECRET;
+    this.key = secret ? cookieJarKey(secret) : null;
+  }
+
+  /**
+   * Path of the written file, in `dir/.cookies`, null when the owner has no jar
+   * for the host. The caller removes the file's dir once the tool has run.
+   */
+  async materialize(jobId: string, url: string, dir: string, format: CookieFileFormat): Promise<string | null> {
+    if (!this.key) return null;
+
+    const job = await this.db.job.findUnique({ where: { id: jobId }, select: { ownerId: true } });
+    if (!job?.ownerId) return null;
+
+    const jars = await this.db.cookieJar.findMany({
+      where: { userId: job.ownerId },
+      select: { host: true, data: true },
+    });
+    const jar = matchHostRule(url, jars);
+    if (!jar) return null;
+
+    let cookies: JarCookie[];
+    try {
+      cookies = unexpiredCookies(decryptCookies(jar.data, this.key));
+    } catch {
+      this.logger.warn(`🍪 Cookie jar for ${jar.host} cannot be decrypted (COOKIE_JAR_SECRET changed?), job ${jobId} runs without it`);
+      return null;
+    }
+    if (cookies.length === 0) return null;
+
+    await fs.mkdir(path.join(dir, COOKIES_DIR), { recursive: true, mode: 0o700 });
+    const file = path.join(dir, COOKIES_DIR, COOKIE_FILES[format].filename);
+    await fs.writeFile(file, COOKIE_FILES[format].format(cookies), { mode: 0o600 });
+    this.logger.info(`🍪 Using ${cookies.length} cookies for ${jar.host} (job ${jobId})`);
+    return file;
+  }
+}
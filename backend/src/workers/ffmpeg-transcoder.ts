@@ -3,6 +3,9 @@ import type pino from 'pino';
 import * as path from 'path';
 import * as fs from 'fs/promises';
 import type { WebSocketClient } from './websocket-client.js';
+import type { JobControl } from './job-control.js';
+import { superviseProcess } from './job-control.js';
+import type { SupervisedProcess } from './job-control.js';
 
 export interface TranscodeOptions {
   inputPath: string;
@@ -13,9 +16,228 @@ export interface TranscodeOptions {
     codec?: string;
     crf?: number;
   };
+  control?: JobControl;
   onProgress?: (update: { progress: number; stage: 'transcode' }) => Promise<void> | void;
 }
 
+export type AudioFormat = 'mp3' | 'opus' | 'm4a' | 'flac';
+
+export interface AudioExtractOptions {
+  inputPath: string;
+  outputDir: string;
+  jobId: string;
+  options: {
+    format: AudioFormat;
+    bitrate?: number;
+  };
+  // yt-dlp side files, when the source provided them
+  infoJsonPath?: string;
+  coverPath?: string;
+  control?: JobControl;
+  onProgress?: (update: { progress: number; stage: 'transcode' }) => Promise<void> | void;
+}
+
+export interface AudioTags {
+  title?: string;
+  artist?: string;
+  album?: string;
+  date?: string;
+}
+
+const AUDIO_CODECS: Record<AudioFormat, { codec: string; defaultBitrate?: number }> = {
+  mp3: { codec: 'libmp3lame', defaultBitrate: 192 },
+  opus: { codec: 'libopus', defaultBitrate: 128 },
+  m4a: { codec: 'aac', defaultBitrate: 192 },
+  flac: { codec: 'flac' },
+};
+
+/** Map yt-dlp's info JSON to the tags written in the audio file. */
+export function audioTagsFromInfo(info: Record<string, unknown>): AudioTags {
+  const str = (...keys: string[]) => {
+    for (const key of keys) {
+      const value = info[key];
+      if (typeof value === 'string' && value.trim()) return value.trim();
+    }
+    return undefined;
+  };
+
+  const uploadDate = str('release_date', 'upload_date');
+  const year = typeof info.release_year === 'number' ? String(info.release_year) : uploadDate?.slice(0, 4);
+
+  return {
+    title: str('track', 'title'),
+    artist: str('artist', 'creator', 'uploader', 'channel'),
+    album: str('album', 'playlist_title', 'series'),
+    date: year,
+  };
+}
+
+/**
+ * Build the ffmpeg arguments for audio extraction. Source tags are kept and
+ * overridden by `tags`; the cover is attached for containers that support it
+ * (Ogg/Opus does not take an attached picture stream).
+ */
+export function buildAudioExtractArgs(params: {
+  inputPath: string;
+  outputPath: string;
+  format: AudioFormat;
+  bitrate?: number;
+  tags?: AudioTags;
+  coverPath?: string;
+}): string[] {
+  const { inputPath, outputPath, format, bitrate, tags, coverPath } = params;
+  const { codec, defaultBitrate } = AUDIO_CODECS[format];
+  const withCover = Boolean(coverPath) && format !== 'opus';
+
+  const args = ['-i', inputPath];
+  if (withCover) args.push('-i', coverPath!);
+
+  args.push('-map', '0:a:0');
+  if (withCover) {
+    args.push(
+      '-map', '1:v:0',
+      '-c:v', 'mjpeg',
+      '-disposition:v:0', 'attached_pic',
+      '-metadata:s:v', 'title=Album cover',
+      '-metadata:s:v', 'comment=Cover (front)',
+    );
+  }
+
+  args.push('-c:a', codec);
+  if (defaultBitrate) {
+    args.push('-b:a', `${bitrate ?? defaultBitrate}k`);
+  }
+
+  args.push('-map_metadata', '0');
+  for (const [key, value] of Object.entries(tags ?? {})) {
+    if (value) args.push('-metadata', `${key}=${value}`);
+  }
+  if (format === 'mp3') {
+    args.push('-id3v2_version', '3');
+  }
+
+  args.push(
+    '-progress', 'pipe:2',
+    '-nostats',
+    '-loglevel', 'error',
+    '-y', outputPath,
+  );
+  return args;
+}
+
+export interface SubtitleTrack {
+  path: string;
+  language: string;
+}
+
+export interface SubtitleOptions {
+  inputPath: string;
+  outputDir: string;
+  jobId: string;
+  subtitles: SubtitleTrack[];
+  control?: JobControl;
+  onProgress?: (update: { progress: number; stage: 'transcode' }) => Promise<void> | void;
+}
+
+// Soft subtitle codec per container; other containers are remuxed to mkv
+const SUBTITLE_CODECS: Record<string, string> = {
+  mp4: 'mov_text',
+  m4v: 'mov_text',
+  mov: 'mov_text',
+  webm: 'webvtt',
+  mkv: 'copy',
+};
+
+export function subtitleContainer(inputPath: string): string {
+  const ext = path.extname(inputPath).slice(1).toLowerCase();
+  return ext in SUBTITLE_CODECS ? ext : 'mkv';
+}
+
+/** Add subtitle files as soft tracks without re-encoding audio or video. */
+export function buildSubtitleMuxArgs(params: {
+  inputPath: string;
+  outputPath: string;
+  subtitles: SubtitleTrack[];
+}): string[] {
+  const { inputPath, outputPath, subtitles } = params;
+  const container = subtitleContainer(outputPath);
+
+  const args = ['-i', inputPath];
+  for (const track of subtitles) args.push('-i', track.path);
+
+  args.push('-map', '0');
+  subtitles.forEach((_, index) => args.push('-map', `${index + 1}:0`));
+  args.push('-c', 'copy', '-c:s', SUBTITLE_CODECS[container]);
+  subtitles.forEach((track, index) => {
+    args.push(`-metadata:s:s:${index}`, `language=${track.language}`);
+  });
+
+  args.push(
+    '-progress', 'pipe:2',
+    '-nostats',
+    '-loglevel', 'error',
+    '-y', outputPath,
+  );
+  return args;
+}
+
+/**
+ * Render a subtitle file into the picture. The subtitle is referenced by its
+ * base name (ffmpeg runs in its directory) to avoid filtergraph escaping.
+ */
+export function buildSubtitleBurnArgs(params: {
+  inputPath: string;
+  outputPath: string;
+  subtitleFilename: string;
+  crf?: number;
+}): string[] {
+  const { inputPath, outputPath, subtitleFilename, crf } = params;
+  return [
+    '-i', inputPath,
+    '-vf', `subtitles=${subtitleFilename}`,
+    '-c:v', 'libx264',
+    '-crf', String(crf ?? 23),
+    '-preset', 'medium',
+    '-c:a', 'copy',
+    '-progress', 'pipe:2',
+    '-nostats',
+    '-loglevel', 'error',
+    '-y', outputPath,
+  ];
+}
+
+// Poster frames are taken a little into the video to skip black intros
+const THUMBNAIL_WIDTH = 640;
+const THUMBNAIL_MAX_OFFSET = 30;
+
+/** Where to grab the poster frame: 10% into the media, at most 30s, 0 for stills. */
+export function thumbnailOffset(duration: number): number {
+  if (duration <= 0) return 0;
+  return Math.min(Math.round(duration * 10) / 100, THUMBNAIL_MAX_OFFSET);
+}
+
+/**
+ * Single JPEG frame scaled down to 640px wide. Works for videos, still images
+ * and audio files carrying cover art (their first video stream).
+ */
+export function buildThumbnailArgs(params: {
+  inputPath: string;
+  outputPath: string;
+  offset: number;
+}): string[] {
+  const { inputPath, outputPath, offset } = params;
+  return [
+    ...(offset > 0 ? ['-ss', String(offset)] : []),
+    '-i', inputPath,
+    '-map', '0:v:0',
+    '-frames:v', '1',
+    '-vf', `scale='min(${THUMBNAIL_WIDTH},iw)':-2`,
+    '-q:v', '4',
+    '-loglevel', 'error',
+    '-y', outputPath,
+  ];
+}
+
 export class FfmpegTranscoder {
   private ffmpegPath: string;
 
@@ -27,7 +249,7 @@ export class FfmpegTranscoder {
   }
 
   async transcode(options: TranscodeOptions): Promise<{ filename: string; filepath: string; size?: number }> {
-    const { inputPath, outputDir, options: transcodeOptions, jobId, onProgress } = options;
+    const { inputPath, outputDir, options: transcodeOptions, jobId, control, onProgress } = options;
 
     const inputFilename = path.basename(inputPath, path.extname(inputPath));
     const outputExt = transcodeOptions.to || 'mp4';
@@ -63,13 +285,110 @@ export class FfmpegTranscoder {
 
     this.logger.info(`Starting ffmpeg transcode: ${this.ffmpegPath} ${args.join(' ')}`);
 
+    return this.run(args, { inputPath, outputPath, jobId, control, onProgress });
+  }
+
+  async extractAudio(options: AudioExtractOptions): Promise<{ filename: string; filepath: string; size?: number }> {
+    const { inputPath, outputDir, options: audioOptions, jobId, infoJsonPath, coverPath, control, onProgress } = options;
+
+    const inputFilename = path.basename(inputPath, path.extname(inputPath));
+    let outputFilename = `${inputFilename}.${audioOptions.format}`;
+    if (path.join(outputDir, outputFilename) === inputPath) {
+      outputFilename = `${inputFilename}_audio.${audioOptions.format}`;
+    }
+    const outputPath = path.join(outputDir, outputFilename);
+
+    let tags: AudioTags | undefined;
+    if (infoJsonPath) {
+      try {
+        tags = audioTagsFromInfo(JSON.parse(await fs.readFile(infoJsonPath, 'utf8')));
+      } catch (error) {
+        this.logger.warn(`Could not read source metadata ${infoJsonPath}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    const args = buildAudioExtractArgs({
+      inputPath,
+      outputPath,
+      format: audioOptions.format,
+      bitrate: audioOptions.bitrate,
+      tags,
+      coverPath,
+    });
+
+    this.logger.info(`Starting ffmpeg audio extraction: ${this.ffmpegPath} ${args.join(' ')}`);
+
+    return this.run(args, { inputPath, outputPath, jobId, control, onProgress });
+  }
+
+  async muxSubtitles(options: SubtitleOptions): Promise<{ filename: string; filepath: string; size?: number }> {
+    const { inputPath, outputDir, jobId, subtitles, control, onProgress } = options;
+
+    const inputFilename = path.basename(inputPath, path.extname(inputPath));
+    const outputPath = path.join(outputDir, `${inputFilename}_subtitled.${subtitleContainer(inputPath)}`);
+    const args = buildSubtitleMuxArgs({ inputPath, outputPath, subtitles });
+
+    this.logger.info(`Starting ffmpeg subtitle mux: ${this.ffmpegPath} ${args.join(' ')}`);
+
+    return this.run(args, { inputPath, outputPath, jobId, control, onProgress });
+  }
+
+  async burnSubtitles(options: SubtitleOptions): Promise<{ filename: string; filepath: string; size?: number }> {
+    const { inputPath, outputDir, jobId, subtitles, control, onProgress } = options;
+    const [subtitle] = subtitles;
+
+    // libx264 output does not fit in webm
+    const inputExt = path.extname(inputPath).slice(1).toLowerCase();
+    const outputExt = ['mp4', 'mkv', 'mov'].includes(inputExt) ? inputExt : 'mp4';
+    const inputFilename = path.basename(inputPath, path.extname(inputPath));
+    const outputPath = path.join(outputDir, `${inputFilename}_subtitled.${outputExt}`);
+    const args = buildSubtitleBurnArgs({ inputPath, outputPath, subtitleFilename: path.basename(subtitle.path) });
+
+    this.logger.info(`Starting ffmpeg subtitle burn-in: ${this.ffmpegPath} ${args.join(' ')}`);
+
+    return this.run(args, { inputPath, outputPath, jobId, control, onProgress, cwd: path.dirname(subtitle.path) });
+  }
+
+  /**
+   * Grab a poster frame for previews. Best effort: returns null when the file
+   * has no picture to show rather than failing the job.
+   */
+  async createThumbnail(inputPath: string, outputPath: string): Promise<string | null> {
+    const offset = thumbnailOffset(await this.getContainerDuration(inputPath));
+    const args = buildThumbnailArgs({ inputPath, outputPath, offset });
+
+    try {
+      await execa(this.ffmpegPath, args, { timeout: 60000 });
+      await fs.access(outputPath);
+      return outputPath;
+    } catch (error) {
+      this.logger.warn(`No thumbnail for ${path.basename(inputPath)}: ${error instanceof Error ? error.message : String(error)}`);
+      await fs.unlink(outputPath).catch(() => undefined);
+      return null;
+    }
+  }
+
+  private async run(
+    args: string[],
+    context: Pick<TranscodeOptions, 'inputPath' | 'jobId' | 'control' | 'onProgress'> & { outputPath: string; cwd?: string },
+  ): Promise<{ filename: string; filepath: string; size?: number }> {
+    const { inputPath, outputPath, jobId, control, onProgress, cwd } = context;
+    const outputFilename = path.basename(outputPath);
+
+    const timeout = parseInt(process.env.JOB_TIMEOUT || '7200000'); // 2 hours
+    let supervised: SupervisedProcess | undefined;
+    let detachControl: (() => void) | undefined;
+
     try {
       // Get input duration first
       const duration = await this.getVideoDuration(inputPath);
 
       const subprocess = execa(this.ffmpegPath, args, {
-        timeout: parseInt(process.env.JOB_TIMEOUT || '7200000'), // 2 hours
+        cwd,
+        detached: true,
       });
+      supervised = superviseProcess(subprocess, timeout);
+      detachControl = control?.attach(supervised);
 
       // Parse progress from stderr
       subprocess.stderr?.on('data', (data) => {
@@ -84,7 +403,7 @@ export class FfmpegTranscoder {
       // Verify output file exists and get stats
       const stats = await fs.stat(outputPath);
 
-      this.logger.info(`ffmpeg transcode completed: ${outputFilename} (${stats.size} bytes)`);
+      this.logger.info(`ffmpeg completed: ${outputFilename} (${stats.size} bytes)`);
 
       return {
         filename: outputFilename,
@@ -93,7 +412,7 @@ export class FfmpegTranscoder {
       };
 
     } catch (error) {
-      this.logger.error('ffmpeg transcode failed:', error);
+      this.logger.error('ffmpeg failed:', error);
 
       // Clean up partial output file
       try {
@@ -102,7 +421,12 @@ export class FfmpegTranscoder {
         // Ignore cleanup errors
       }
 
+      if (supervised?.timedOut) {
+        throw new Error(`ffmpeg timed out after ${timeout} ms`);
+      }
       throw error;
+    } finally {
+      detachControl?.();
     }
   }
 
@@ -116,14 +440,20 @@ export class FfmpegTranscoder {
         timeout: 30000,
       });
 
-      // Parse duration from stderr
-      const durationMatch = result.stderr.match(/Duration: (\d{2}):(\d{2}):(\d{2})\.(\d{2})/);
-      if (durationMatch) {
-        const [, hours, minutes, seconds, centiseconds] = durationMatch;
-        return parseInt(hours) * 3600 + parseInt(minutes) * 60 + parseInt(seconds) + parseInt(centiseconds) / 100;
-      }
-
+      return parseFfmpegDuration(result.stderr);
+    } catch {
       return 0;
+    }
+  }
+
+  // Duration announced by the container header, without decoding the streams
+  private async getContainerDuration(inputPath: string): Promise<number> {
+    try {
+      const result = await execa(this.ffmpegPath, ['-hide_banner', '-i', inputPath], {
+        reject: false,
+        timeout: 30000,
+      });
+      return parseFfmpegDuration(result.stderr);
     } catch {
       return 0;
     }
@@ -155,3 +485,11 @@ export function parseFfmpegOutTimeMs(line: string, totalDuration: number): numbe
   const pct = Math.min((currentTimeSeconds / totalDuration) * 100, 100);
   return pct;
 }
+
+/** Seconds from the `Duration: HH:MM:SS.cc` line of ffmpeg's stderr, 0 when absent. */
+export function parseFfmpegDuration(stderr: string): number {
+  const durationMatch = stderr.match(/Duration: (\d{2}):(\d{2}):(\d{2})\.(\d{2})/);
+  if (!durationMatch) return 0;
+  const [, hours, minutes, seconds, centiseconds] = durationMatch;
+  return parseInt(hours) * 3600 + parseInt(minutes) * 60 + parseInt(seconds) + parseInt(centiseconds) / 100;
+}
@@ -0,0 +1,33 @@
+import type { PrismaClient } from '@prisma/client';
+import { matchHostRule } from '../shared/host-rules.js';
+import { applyHeaderProfile } from '../shared/header-profiles.js';
+import type { HeaderProfileValues } from '../shared/header-profiles.js';
+import type { DownloadJobData } from '../shared/queue.service.js';
+
+/**
+ * Header profiles of the hosts, read from the database and cached briefly
+ * like the host rules.
+ */
+export class HeaderProfileStore {
+  private profiles: HeaderProfileValues[] = [];
+  private loadedAt = 0;
+  private cacheMs = parseInt(process.env.HOST_RULES_CACHE_MS || '30000', 10);
+
+  constructor(private db: PrismaClient) {}
+
+  /** Job headers completed by the profile matching `url`, if any. */
+  async resolve(url: string, headers: DownloadJobData['headers']): Promise<DownloadJobData['headers']> {
+    const profile = matchHostRule(url, await this.loadProfiles());
+    return profile ? applyHeaderProfile(profile, headers) : headers;
+  }
+
+  private async loadProfiles(): Promise<HeaderProfileValues[]> {
+    if (Date.now() - this.loadedAt > this.cacheMs) {
+      this.profiles = await this.db.headerProfile.findMany({
+        select: { host: true, userAgent: true, referer: true },
+      });
+      this.loadedAt = Date.now();
+    }
+    return this.profiles;
+  }
+}
@@ -0,0 +1,103 @@
+import type { Redis } from 'ioredis';
+import type { PrismaClient } from '@prisma/client';
+import { matchHostRule } from '../shared/host-rules.js';
+import type { HostRuleLimits } from '../shared/host-rules.js';
+
+const NO_SLOT = async (): Promise<void> => undefined;
+
+// A slot whose worker stopped renewing it (crash) is freed after this long
+const SLOT_LEASE_MS = 5 * 60 * 1000;
+const SLOT_RENEW_MS = 60 * 1000;
+
+/**
+ * Take a slot of a host, atomically across workers.
+ * KEYS[1] zset of the jobs holding a slot (score: last renewal), KEYS[2] time of the last start
+ * ARGV: jobId, now, maxConcurrent (0: none), minDelayMs (0: none), leaseMs
+ * Returns 0 when the slot is taken, -1 when the host is full, otherwise when to try again.
+ */
+const ACQUIRE_SCRIPT = `
+local now = tonumber(ARGV[2])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - tonumber(ARGV[5]))
+if redis.call('ZSCORE', KEYS[1], ARGV[1]) then
+  return 0
+end
+local maxConcurrent = tonumber(ARGV[3])
+if maxConcurrent > 0 and redis.call('ZCARD', KEYS[1]) >= maxConcurrent then
+  return -1
+end
+local minDelay = tonumber(ARGV[4])
+local last = tonumber(redis.call('GET', KEYS[2]))
+if minDelay > 0 and last and now - last < minDelay then
+  return last + minDelay
+end
+redis.call('ZADD', KEYS[1], now, ARGV[1])
+redis.call('PEXPIRE', KEYS[1], ARGV[5])
+if minDelay > 0 then
+  redis.call('SET', KEYS[2], now, 'PX', minDelay)
+end
+return 0
+`;
+
+export type HostSlot =
+  | { acquired: true; rule: HostRuleLimits | null; release: () => Promise<void> }
+  | { acquired: false; rule: HostRuleLimits; retryAt: Date };
+
+/**
+ * Enforces the `HostRule` limits when a worker picks up a job: at most
+ * `maxConcurrent` jobs per host across all workers and `minDelaySeconds`
+ * between two starts. Rules are read from the database and cached briefly.
+ */
+export class HostLimiter {
+  private rules: HostRuleLimits[] = [];
+  private loadedAt = 0;
+  private cacheMs = parseInt(process.env.HOST_RULES_CACHE_MS || '30000', 10);
+  private retryMs = parseInt(process.env.HOST_BUSY_RETRY_MS || '15000', 10);
+
+  constructor(
+    private redis: Redis,
+    private db: PrismaClient,
+  ) {}
+
+  async acquire(jobId: string, url: string): Promise<HostSlot> {
+    const rule = matchHostRule(url, await this.loadRules());
+    if (!rule || (!rule.maxConcurrent && !rule.minDelaySeconds)) {
+      return { acquired: true, rule, release: NO_SLOT };
+    }
+
+    const slotsKey = `downloads:hosts:${rule.host}:slots`;
+    const lastStartKey = `downloads:hosts:${rule.host}:last-start`;
+    const now = Date.now();
+    const result = Number(await this.redis.eval(
+      ACQUIRE_SCRIPT, 2, slotsKey, lastStartKey,
+      jobId, now, rule.maxConcurrent ?? 0, (rule.minDelaySeconds ?? 0) * 1000, SLOT_LEASE_MS,
+    ));
+
+    if (result !== 0) {
+      return { acquired: false, rule, retryAt: new Date(result > 0 ? result : now + this.retryMs) };
+    }
+
+    // Long downloads keep their slot as long as the worker is alive
+    const renew = setInterval(() => {
+      void this.redis.zadd(slotsKey, 'XX', Date.now(), jobId).catch(() => undefined);
+    }, SLOT_RENEW_MS);
+
+    return {
+      acquired: true,
+      rule,
+      release: async () => {
+        clearInterval(renew);
+        await this.redis.zrem(slotsKey, jobId);
+      },
+    };
+  }
+
+  private async loadRules(): Promise<HostRuleLimits[]> {
+    if (Date.now() - this.loadedAt > this.cacheMs) {
+      this.rules = await this.db.hostRule.findMany({
+        select: { host: true, maxConcurrent: true, minDelaySeconds: true, maxBytesPerSecond: true },
+      });
+      this.loadedAt = Date.now();
+    }
+    return this.rules;
+  }
+}
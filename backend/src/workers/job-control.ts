@@ -0,0 +1,197 @@
+import type { ExecaChildProcess } from 'execa';
+
+/**
+ * Hooks exposed by the stage currently running for a job (aria2 transfer,
+ * yt-dlp/ffmpeg/twmd/pinterest-dl subprocess) so it can be driven from the API.
+ */
+export interface ControlHandle {
+  pause(): Promise<void> | void;
+  resume(): Promise<void> | void;
+  cancel(): Promise<void> | void;
+}
+
+/** Thrown when a job is cancelled from the API; never retried by BullMQ. */
+export class JobCancelledError extends Error {
+  readonly code = 'CANCELLED';
+
+  constructor(jobId: string) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = 'JobCancelledError';
+  }
+}
+
+/**
+ * Per-job control state kept by the worker while a job is being processed.
+ * Downloaders attach a handle for the duration of their stage; pause, resume
+ * and cancel requests received on the control channel are forwarded to it.
+ */
+export class JobControl {
+  private handle: ControlHandle | null = null;
+  private paused = false;
+  private cancelled = false;
+  private resumeWaiters: Array<() => void> = [];
+
+  constructor(readonly jobId: string) {}
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  get isCancelled(): boolean {
+    return this.cancelled;
+  }
+
+  /**
+   * Register the handle of the running stage. If a pause or cancel was
+   * requested before the stage started, it is applied to the handle right away.
+   * Returns a function that detaches the handle once the stage is over.
+   */
+  attach(handle: ControlHandle): () => void {
+    this.handle = handle;
+    if (this.cancelled) {
+      void handle.cancel();
+    } else if (this.paused) {
+      void handle.pause();
+    }
+    return () => {
+      if (this.handle === handle) {
+        this.handle = null;
+      }
+    };
+  }
+
+  async pause(): Promise<void> {
+    if (this.paused || this.cancelled) return;
+    this.paused = true;
+    await this.handle?.pause();
+  }
+
+  async resume(): Promise<void> {
+    if (!this.paused) return;
+    this.paused = false;
+    await this.handle?.resume();
+    this.wakeWaiters();
+  }
+
+  async cancel(): Promise<void> {
+    if (this.cancelled) return;
+    this.cancelled = true;
+    this.paused = false;
+    await this.handle?.cancel();
+    // Stages waiting for a resume must wake up to notice the cancellation
+    this.wakeWaiters();
+  }
+
+  throwIfCancelled(): void {
+    if (this.cancelled) {
+      throw new JobCancelledError(this.jobId);
+    }
+  }
+
+  /** Called between stages: waits out a pause, then bails out if cancelled. */
+  async checkpoint(): Promise<void> {
+    await this.waitUntilResumed();
+    this.throwIfCancelled();
+  }
+
+  /** Resolves immediately unless the job was paused between two stages. */
+  waitUntilResumed(): Promise<void> {
+    if (!this.paused) return Promise.resolve();
+    return new Promise(resolve => this.resumeWaiters.push(resolve));
+  }
+
+  private wakeWaiters(): void {
+    const waiters = this.resumeWaiters;
+    this.resumeWaiters = [];
+    for (const wake of waiters) wake();
+  }
+}
+
+/**
+ * Send a signal to a subprocess and its children. Subprocesses are spawned
+ * detached so they lead their own process group (yt-dlp forks ffmpeg for HLS
+ * and merges); falls back to the direct child if the group is gone.
+ */
+export function signalProcessTree(subprocess: ExecaChildProcess, signal: NodeJS.Signals): void {
+  if (!subprocess.pid) return;
+  try {
+    process.kill(-subprocess.pid, signal);
+  } catch {
+    subprocess.kill(signal);
+  }
+}
+
+/** Control handle of a detached subprocess, see `superviseProcess`. */
+export interface SupervisedProcess extends ControlHandle {
+  /** True once the subprocess was killed for running longer than its timeout. */
+  readonly timedOut: boolean;
+}
+
+// Detached subprocesses outlive the worker unless their groups are killed
+const supervisedProcesses = new Set<ExecaChildProcess>();
+
+/**
+ * Suspend/continue a subprocess in place; partial output stays in tmp/{jobId}.
+ * `timeoutMs` only counts the time the subprocess is not paused (execa's
+ * `timeout` keeps running through SIGSTOP). The subprocess is tracked until it
+ * exits so `killSupervisedProcesses` can stop it when the worker shuts down.
+ */
+export function superviseProcess(subprocess: ExecaChildProcess, timeoutMs?: number): SupervisedProcess {
+  let timer: NodeJS.Timeout | undefined;
+  let remaining = timeoutMs ?? 0;
+  let startedAt = Date.now();
+  let timedOut = false;
+
+  const terminate = () => {
+    signalProcessTree(subprocess, 'SIGTERM');
+    // A stopped process only handles SIGTERM once continued
+    signalProcessTree(subprocess, 'SIGCONT');
+  };
+  const startTimer = () => {
+    if (!timeoutMs) return;
+    startedAt = Date.now();
+    timer = setTimeout(() => {
+      timedOut = true;
+      terminate();
+    }, remaining);
+  };
+  const stopTimer = () => {
+    if (!timer) return;
+    clearTimeout(timer);
+    timer = undefined;
+    remaining = Math.max(0, remaining - (Date.now() - startedAt));
+  };
+
+  supervisedProcesses.add(subprocess);
+  subprocess.once('exit', () => {
+    stopTimer();
+    supervisedProcesses.delete(subprocess);
+  });
+  startTimer();
+
+  return {
+    get timedOut() {
+      return timedOut;
+    },
+    pause: () => {
+      stopTimer();
+      signalProcessTree(subprocess, 'SIGSTOP');
+    },
+    resume: () => {
+      signalProcessTree(subprocess, 'SIGCONT');
+      if (!timer) startTimer();
+    },
+    cancel: () => {
+      stopTimer();
+      terminate();
+    },
+  };
+}
+
+/** Terminate the process groups of every running subprocess (worker shutdown or exit). */
+export function killSupervisedProcesses(): void {
+  for (const subprocess of supervisedProcesses) {
+    signalProcessTree(subprocess, 'SIGTERM');
+    signalProcessTree(subprocess, 'SIGCONT');
+  }
+}
@@ -0,0 +1,28 @@
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { getMimeType } from '../shared/mime.js';
+import type { OutputFile } from '../modules/websocket/websocket.gateway.js';
+
+export function sha256File(filepath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256');
+    createReadStream(filepath)
+      .on('error', reject)
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')));
+  });
+}
+
+/** Size, type and checksum of a finalized file, reported to the server with the completion. */
+export async function describeOutputFile(filepath: string): Promise<OutputFile> {
+  const stats = await fs.stat(filepath);
+  return {
+    filename: path.basename(filepath),
+    size: stats.size,
+    outputPath: filepath,
+    mimeType: getMimeType(filepath),
+    sha256: await sha256File(filepath),
+  };
+}
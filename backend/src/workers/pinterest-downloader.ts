@@ -3,10 +3,12 @@ import type { ExecaError } from 'execa';
 import type pino from 'pino';
 import * as path from 'path';
 import * as fs from 'fs/promises';
-import archiver from 'archiver';
-import { createWriteStream } from 'fs';
 import type { RmOptions } from 'fs';
+import { writeZipFile } from '../shared/archive.js';
 import type { WebSocketClient } from './websocket-client.js';
+import type { JobControl } from './job-control.js';
+import { superviseProcess } from './job-control.js';
+import { proxySecrets, redactError, redactText } from './command-log.js';
 
 export interface PinterestOptions {
   url: string;
@@ -16,6 +18,11 @@ export interface PinterestOptions {
   includeVideos?: boolean;
   resolution?: string; // Format: "WIDTHxHEIGHT" (e.g., "1920x1080")
   cookiesPath?: string;
+  // Used for the short URL resolution and, through HTTP(S)_PROXY, by pinterest-dl
+  proxy?: string;
+  // Multiple files are zipped unless 'none'; then every file is returned in `files`
+  archive?: 'zip' | 'none';
+  control?: JobControl;
 }
 
 /**
@@ -137,16 +144,16 @@ export class PinterestDownloader {
   /**
    * Resolve shortened Pinterest URLs (pin.it) to full URLs
    */
-  private async resolveUrl(url: string): Promise<string> {
+  private async resolveUrl(url: string, proxy?: string): Promise<string> {
     if (url.includes('pin.it')) {
       this.logger.info(`Resolving shortened URL: ${url}`);
       try {
-        const result = await execa('curl', ['-Ls', '-o', '/dev/null', '-w', '%{url_effective}', url]);
+        const result = await execa('curl', ['-Ls', ...(proxy ? ['-x', proxy] : []), '-o', '/dev/null', '-w', '%{url_effective}', url]);
         const resolvedUrl = result.stdout.trim();
         this.logger.info(`Resolved to: ${resolvedUrl}`);
         return resolvedUrl;
       } catch (error) {
-        this.logger.warn(`Failed to resolve URL, using original: ${error}`);
+        this.logger.warn(`Failed to resolve URL, using original: ${redactText(String(error), proxySecrets(proxy))}`);
         return url;
       }
     }
@@ -179,7 +186,7 @@ export class PinterestDownloader {
     }
   }
 
-  async download(options: PinterestOptions): Promise<{ filename: string; filepath: string; size?: number }> {
+  async download(options: PinterestOptions): Promise<{ filename: string; filepath: string; size?: number; files?: string[] }> {
     const {
       outputDir,
       jobId,
@@ -187,10 +194,12 @@ export class PinterestDownloader {
       includeVideos = false,
       resolution,
       cookiesPath,
+      proxy,
+      control,
     } = options;
 
     // Resolve shortened URLs
-    const resolved = await this.resolveUrl(options.url);
+    const resolved = await this.resolveUrl(options.url, proxy);
     const canonical = this.canonicalizePinterestUrl(resolved);
 
     const looksShared = /invite_code=|\b(sent)\b/i.test(resolved);
@@ -205,6 +214,8 @@ export class PinterestDownloader {
 
     let lastError: unknown = null;
     for (const url of candidates) {
+      control?.throwIfCancelled();
+
       // Build pinterest-dl command per attempt
       const args: string[] = ['scrape', url];
       args.push('-o', outputDir);
@@ -219,7 +230,10 @@ export class PinterestDownloader {
       let lastProgress = 0;
       let totalImages = maxImages;
 
-      const subprocess = execa(this.pinterestDlPath, args, { env: { ...process.env } });
+      const env = proxy ? { ...process.env, HTTP_PROXY: proxy, HTTPS_PROXY: proxy } : { ...process.env };
+      const subprocess = execa(this.pinterestDlPath, args, { env, detached: true });
+      const supervised = superviseProcess(subprocess);
+      const detachControl = control?.attach(supervised);
 
       subprocess.stdout?.on('data', (data: Buffer) => {
         const lines = data.toString().split('\n');
@@ -256,7 +270,8 @@ export class PinterestDownloader {
 
       try {
         await subprocess;
-        const files = await fs.readdir(outputDir);
+        // Dot entries are not downloads (cookies dir)
+        const files = (await fs.readdir(outputDir)).filter(f => !f.startsWith('.'));
         if (files.length === 0) {
           // No files produced, consider retrying next candidate
           const err = new Error('No images downloaded from Pinterest') as PinterestError;
@@ -272,15 +287,23 @@ export class PinterestDownloader {
           return { filename, filepath, size: stats.size };
         }
 
+        // Keep the files as they are when no archive is wanted
+        if (options.archive === 'none') {
+          const filepaths = files.sort().map(f => path.join(outputDir, f));
+          const stats = await fs.stat(filepaths[0]);
+          return { filename: path.basename(filepaths[0]), filepath: filepaths[0], size: stats.size, files: filepaths };
+        }
+
         // Create zip for multiple files
         const pinterestId = extractPinterestId(url) || 'pinterest';
         const zipFilename = `pinterest-${pinterestId}.zip`;
         const zipPath = path.join(outputDir, zipFilename);
-        await this.zipFiles(outputDir, files, zipPath);
-        const stats = await fs.stat(zipPath);
-        this.logger.info(`Created zip archive: ${zipFilename} (${stats.size} bytes)`);
-        return { filename: zipFilename, filepath: zipPath, size: stats.size };
+        const size = await writeZipFile(files.map(f => ({ path: path.join(outputDir, f), name: f })), zipPath);
+        this.logger.info(`Created zip archive: ${zipFilename} (${size} bytes)`);
+        return { filename: zipFilename, filepath: zipPath, size };
       } catch (error) {
+        // pinterest-dl gets the proxy from the environment, its output may still repeat it
+        redactError(error, proxySecrets(proxy));
         lastError = error;
         // If process error, map code for diagnostics and try next candidate if any
         if (isExecaError(error)) {
@@ -295,12 +318,14 @@ export class PinterestDownloader {
         }
         // Clean directory between attempts to avoid mixing files
         try {
-          const files = await fs.readdir(outputDir);
+          const files = (await fs.readdir(outputDir)).filter(f => !f.startsWith('.'));
           await Promise.all(files.map(f => fs.rm(path.join(outputDir, f), { force: true } as RmOptions)));
         } catch {
           // ignore cleanup errors
         }
         // Try next candidate
+      } finally {
+        detachControl?.();
       }
     }
 
@@ -317,43 +342,4 @@ export class PinterestDownloader {
     // Should not reach here
     throw new Error('Pinterest download failed with no error');
   }
-
-  /**
-   * Zip multiple files into a single archive
-   */
-  private async zipFiles(baseDir: string, files: string[], outputPath: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const output = createWriteStream(outputPath);
-      const archive = archiver('zip', {
-        zlib: { level: 9 } // Maximum compression
-      });
-
-      output.on('close', () => {
-        this.logger.info(`Archive created: ${archive.pointer()} total bytes`);
-        resolve();
-      });
-
-      archive.on('error', (err) => {
-        reject(err);
-      });
-
-      archive.on('warning', (err) => {
-        if (err.code === 'ENOENT') {
-          this.logger.warn(`Archive warning: ${err.message}`);
-        } else {
-          reject(err);
-        }
-      });
-
-      archive.pipe(output);
-
-      // Add all files to the archive
-      for (const file of files) {
-        const filePath = path.join(baseDir, file);
-        archive.file(filePath, { name: file });
-      }
-
-      archive.finalize();
-    });
-  }
 }
@@ -0,0 +1,50 @@
+import type { Redis } from 'ioredis';
+import type { PrismaClient } from '@prisma/client';
+import { jobHost } from '../shared/host-rules.js';
+import { pickProxy } from '../shared/proxies.js';
+import type { ProxyStrategy } from '../shared/proxies.js';
+import type { DownloadJobData } from '../shared/queue.service.js';
+
+export interface JobProxy {
+  url: string;
+  // Taken from a pool: another member can be tried after a network error
+  pool?: string;
+}
+
+interface ProxyError extends Error {
+  code: string;
+}
+
+/**
+ * Proxy a job runs through: its own, one of its pool's healthy members, or
+ * none. The API uses it too, for the yt-dlp calls it makes for a job.
+ */
+export class ProxySelector {
+  constructor(
+    private redis: Redis,
+    private db: PrismaClient,
+  ) {}
+
+  async select(data: Pick<DownloadJobData, 'url' | 'proxy' | 'proxyPool' | 'excludedProxies'>): Promise<JobProxy | null> {
+    if (data.proxy) return { url: data.proxy };
+    if (!data.proxyPool) return null;
+
+    const pool = await this.db.proxyPool.findUnique({
+      where: { name: data.proxyPool },
+      include: { proxies: { where: { healthy: true }, orderBy: { createdAt: 'asc' } } },
+    });
+    const turn = pool?.strategy === 'round-robin' ? await this.redis.incr(`downloads:proxy-pools:${pool.id}:turn`) : 0;
+    const url = pool && pickProxy(pool.proxies.map(proxy => proxy.url), pool.strategy as ProxyStrategy, {
+      host: jobHost(data.url) ?? data.url,
+      turn,
+      exclude: data.excludedProxies,
+    });
+
+    if (!url) {
+      const error = new Error(`No healthy proxy in pool '${data.proxyPool}'`) as ProxyError;
+      error.code = 'PROXY_UNAVAILABLE';
+      throw error;
+    }
+    return { url, pool: data.proxyPool };
+  }
+}
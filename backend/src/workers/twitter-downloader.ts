@@ -3,9 +3,11 @@ import type { ExecaError } from 'execa';
 import type pino from 'pino';
 import * as path from 'path';
 import * as fs from 'fs/promises';
-import archiver from 'archiver';
-import { createWriteStream } from 'fs';
+import { writeZipFile } from '../shared/archive.js';
 import type { WebSocketClient } from './websocket-client.js';
+import type { JobControl } from './job-control.js';
+import { superviseProcess } from './job-control.js';
+import { proxySecrets, redactArgs, redactError } from './command-log.js';
 
 export interface TwitterOptions {
   url: string;
@@ -18,6 +20,9 @@ export interface TwitterOptions {
   maxTweets?: number;
   cookiesPath?: string;
   proxy?: string;
+  // Multiple files are zipped unless 'none'; then every file is returned in `files`
+  archive?: 'zip' | 'none';
+  control?: JobControl;
 }
 
 /**
@@ -110,7 +115,7 @@ export class TwitterDownloader {
     this.twmdPath = path.resolve(relativePath);
   }
 
-  async download(options: TwitterOptions): Promise<{ filename: string; filepath: string; size?: number }> {
+  async download(options: TwitterOptions): Promise<{ filename: string; filepath: string; size?: number; files?: string[] }> {
     const {
       url,
       outputDir,
@@ -122,6 +127,7 @@ export class TwitterDownloader {
       maxTweets = 50,
       cookiesPath,
       proxy,
+      control,
     } = options;
 
     // Extract tweet ID or username from URL if not provided
@@ -162,7 +168,7 @@ export class TwitterDownloader {
     // Output directory
     args.push('-o', outputDir);
 
-    // Optional: cookies for NSFW content
+    // Optional: cookies for NSFW content, twmd loads twmd_cookies.json from its working directory
     if (cookiesPath) {
       args.push('-C');
     }
@@ -175,17 +181,21 @@ export class TwitterDownloader {
     // Format filename with tweet ID and date
     args.push('-f', '{DATE} {USERNAME} {ID}');
 
-    this.logger.info(`Starting Twitter download: ${this.twmdPath} ${args.join(' ')}`);
+    const secrets = proxySecrets(proxy);
+    this.logger.info(`Starting Twitter download: ${this.twmdPath} ${redactArgs(args, secrets).join(' ')}`);
 
     let filesDownloaded = 0;
     let lastProgress = 0;
 
     const subprocess = execa(this.twmdPath, args, {
-      cwd: outputDir,
+      cwd: cookiesPath ? path.dirname(cookiesPath) : outputDir,
       env: {
         ...process.env,
       },
+      detached: true,
     });
+    const supervised = superviseProcess(subprocess);
+    const detachControl = control?.attach(supervised);
 
     // Parse stdout for progress
     subprocess.stdout?.on('data', (data: Buffer) => {
@@ -230,7 +240,8 @@ export class TwitterDownloader {
       await subprocess;
 
       // List downloaded files
-      const files = await fs.readdir(outputDir);
+      // Dot entries are not downloads (cookies dir)
+      const files = (await fs.readdir(outputDir)).filter(f => !f.startsWith('.'));
       if (files.length === 0) {
         throw new Error('No media files downloaded');
       }
@@ -245,66 +256,35 @@ export class TwitterDownloader {
         return { filename, filepath, size: stats.size };
       }
 
+      // Keep the files as they are when no archive is wanted
+      if (options.archive === 'none') {
+        const filepaths = files.sort().map(f => path.join(outputDir, f));
+        const stats = await fs.stat(filepaths[0]);
+        return { filename: path.basename(filepaths[0]), filepath: filepaths[0], size: stats.size, files: filepaths };
+      }
+
       // For multiple files, create a zip archive
       this.logger.info(`Zipping ${files.length} files into archive...`);
       const zipFilename = `twitter-media-${extractedTweetId || extractedUsername || 'archive'}.zip`;
       const zipPath = path.join(outputDir, zipFilename);
 
-      await this.zipFiles(outputDir, files, zipPath);
-
-      // Get zip file stats
-      const stats = await fs.stat(zipPath);
+      const size = await writeZipFile(files.map(f => ({ path: path.join(outputDir, f), name: f })), zipPath);
 
-      this.logger.info(`Created zip archive: ${zipFilename} (${stats.size} bytes)`);
+      this.logger.info(`Created zip archive: ${zipFilename} (${size} bytes)`);
 
-      return { filename: zipFilename, filepath: zipPath, size: stats.size };
+      return { filename: zipFilename, filepath: zipPath, size };
 
     } catch (error) {
+      // execa's message holds the whole command line
+      redactError(error, secrets);
       if (isExecaError(error)) {
         const stderr = error.stderr || '';
         const errorCode = parseTwitterErrorCode(stderr) || 'NETWORK_ERROR';
         throw createTwitterError(error, errorCode);
       }
       throw error;
+    } finally {
+      detachControl?.();
     }
   }
-
-  /**
-   * Zip multiple files into a single archive
-   */
-  private async zipFiles(baseDir: string, files: string[], outputPath: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const output = createWriteStream(outputPath);
-      const archive = archiver('zip', {
-        zlib: { level: 9 } // Maximum compression
-      });
-
-      output.on('close', () => {
-        this.logger.info(`Archive created: ${archive.pointer()} total bytes`);
-        resolve();
-      });
-
-      archive.on('error', (err) => {
-        reject(err);
-      });
-
-      archive.on('warning', (err) => {
-        if (err.code === 'ENOENT') {
-          this.logger.warn(`Archive warning: ${err.message}`);
-        } else {
-          reject(err);
-        }
-      });
-
-      archive.pipe(output);
-
-      // Add all files to the archive
-      for (const file of files) {
-        const filePath = path.join(baseDir, file);
-        archive.file(filePath, { name: file });
-      }
-
-      archive.finalize();
-    });
-  }
 }
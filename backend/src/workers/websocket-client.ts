@@ -1,7 +1,7 @@
 import type pino from 'pino';
 import type { Socket } from 'socket.io-client';
 import { io } from 'socket.io-client';
-import type { ProgressEvent, LogEvent, CompletedEvent, FailedEvent } from '../modules/websocket/websocket.gateway.js';
+import type { ProgressEvent, LogEvent, CompletedEvent, FailedEvent, CancelledEvent } from '../modules/websocket/websocket.gateway.js';
 
 export class WebSocketClient {
   private socket: Socket | null = null;
@@ -76,7 +76,15 @@ export class WebSocketClient {
     }
   }
 
-  emitJobUpdate(jobId: string, update: Partial<{ status: string; stage: string; progress: number }>) {
+  emitCancelled(event: CancelledEvent) {
+    if (this.socket?.connected) {
+      this.socket.emit('cancelled', event);
+    } else {
+      this.logger.warn(`Cannot emit cancelled for job ${event.jobId}: WebSocket not connected`);
+    }
+  }
+
+  emitJobUpdate(jobId: string, update: Partial<{ status: string; stage: string; progress: number; scheduledAt: string }>) {
     if (this.socket?.connected) {
       this.socket.emit('job-update', { jobId, ...update });
     }
@@ -5,6 +5,11 @@ import * as path from 'path';
 import * as fs from 'fs/promises';
 import sanitizeFilename from 'sanitize-filename';
 import type { WebSocketClient } from './websocket-client.js';
+import type { JobControl } from './job-control.js';
+import { superviseProcess } from './job-control.js';
+import type { SupervisedProcess } from './job-control.js';
+import { proxySecrets, redactArgs, redactError } from './command-log.js';
+import type { ArgSecrets } from './command-log.js';
 
 export interface YtDlpOptions {
   url: string;
@@ -17,6 +22,23 @@ export interface YtDlpOptions {
   };
   filenameHint?: string;
   format?: string;
+  maxHeight?: number;
+  audioOnly?: boolean;
+  // Selector used when the caller did not pick anything
+  defaultFormat?: string;
+  // Keep the info JSON and thumbnail (jpg) next to the download, for tagging
+  writeMetadata?: boolean;
+  subtitles?: {
+    languages: string[];
+    includeAuto?: boolean;
+    format?: 'srt' | 'vtt';
+  };
+  // Bandwidth cap in bytes per second
+  rateLimit?: number;
+  // Netscape cookies file
+  cookiesFile?: string;
+  proxy?: string;
+  control?: JobControl;
   onProgress?: (update: { progress: number; stage: 'download'; speed?: string; eta?: number; totalBytes?: number }) => Promise<void> | void;
 }
 
@@ -62,6 +84,69 @@ export function parseYtDlpProgressLine(line: string): { progress: number; speed?
   return null;
 }
 
+/**
+ * Build the `-f` selector from the user's choice: an explicit format wins,
+ * then audio-only, then a height cap (video+audio merged by yt-dlp).
+ */
+export function buildYtDlpFormat(
+  selection: { format?: string; maxHeight?: number; audioOnly?: boolean },
+  fallback = 'best[height<=1080]/best',
+): string {
+  if (selection.format) return selection.format;
+  if (selection.audioOnly) return 'bestaudio/best';
+  if (selection.maxHeight) {
+    const h = selection.maxHeight;
+    return `bestvideo[height<=${h}]+bestaudio/best[height<=${h}]/best`;
+  }
+  return fallback;
+}
+
+/**
+ * Subtitle arguments: files land in `subsDir` as `subs.<lang>.<format>`,
+ * converted by yt-dlp when the site serves another format.
+ */
+export function buildSubtitleArgs(
+  subtitles: { languages: string[]; includeAuto?: boolean; format?: 'srt' | 'vtt' },
+  subsDir: string,
+): string[] {
+  const args = ['--write-subs'];
+  if (subtitles.includeAuto) args.push('--write-auto-subs');
+  args.push(
+    '--sub-langs', subtitles.languages.join(','),
+    '--convert-subs', subtitles.format ?? 'srt',
+    '-o', `subtitle:${path.join(subsDir, 'subs')}`,
+  );
+  return args;
+}
+
+/** Language code of a subtitle written by yt-dlp (`subs.en-US.srt` → `en-US`). */
+export function subtitleLanguage(filePath: string): string {
+  const parts = path.basename(filePath, path.extname(filePath)).split('.');
+  return parts.length > 1 ? parts[parts.length - 1] : 'und';
+}
+
+// Header values never written to the logs (cookie and credential headers given with the job)
+const SECRET_HEADERS = new Set(['cookie', 'authorization', 'proxy-authorization']);
+
+/**
+ * yt-dlp arguments kept out of logs and error messages: the values of secret
+ * `--add-header` entries and the credentials of the `--proxy`.
+ */
+export function ytdlpArgSecrets(args: string[]): ArgSecrets {
+  const secrets: ArgSecrets = new Map();
+  args.forEach((arg, index) => {
+    if (args[index - 1] === '--proxy') {
+      for (const [secret, replacement] of proxySecrets(arg)) secrets.set(secret, replacement);
+    }
+    if (args[index - 1] !== '--add-header') return;
+    const name = arg.slice(0, Math.max(0, arg.indexOf(':')));
+    if (SECRET_HEADERS.has(name.trim().toLowerCase())) {
+      secrets.set(arg, `${name}:***`);
+    }
+  });
+  return secrets;
+}
+
 type YtDlpErrorCode = 'VIDEO_UNAVAILABLE' | 'NETWORK_ERROR' | 'FORMAT_ERROR';
 
 interface YtDlpError extends Error {
@@ -110,8 +195,15 @@ export class YtDlpDownloader {
     this.ytdlpPath = process.env.YTDLP_PATH || 'yt-dlp';
   }
 
-  async download(options: YtDlpOptions): Promise<{ filename: string; filepath: string; size?: number }> {
-    const { url, outputDir, headers, filenameHint, format, jobId, onProgress } = options;
+  async download(options: YtDlpOptions): Promise<{
+    filename: string;
+    filepath: string;
+    size?: number;
+    infoJsonPath?: string;
+    thumbnailPath?: string;
+    subtitlePaths?: string[];
+  }> {
+    const { url, outputDir, headers, filenameHint, jobId, control, onProgress } = options;
 
     // Build yt-dlp command
     const args = [
@@ -130,11 +222,32 @@ export class YtDlpDownloader {
     }
     args.push('-o', path.join(outputDir, outputTemplate));
 
-    // Set format if specified
-    if (format) {
-      args.push('-f', format);
-    } else {
-      args.push('-f', 'best[height<=1080]/best');
+    // Side files go to a dot directory, skipped when looking for the download
+    const metadataDir = path.join(outputDir, '.meta');
+    if (options.writeMetadata) {
+      args.push(
+        '--write-info-json',
+        '--write-thumbnail',
+        '--convert-thumbnails', 'jpg',
+        '-o', `infojson:${path.join(metadataDir, 'info')}`,
+        '-o', `thumbnail:${path.join(metadataDir, 'cover')}`,
+      );
+    }
+
+    const subsDir = path.join(outputDir, '.subs');
+    if (options.subtitles) {
+      args.push(...buildSubtitleArgs(options.subtitles, subsDir));
+    }
+
+    args.push('-f', buildYtDlpFormat(options, options.defaultFormat));
+    if (options.rateLimit) {
+      args.push('--limit-rate', String(options.rateLimit));
+    }
+    if (options.cookiesFile) {
+      args.push('--cookies', options.cookiesFile);
+    }
+    if (options.proxy) {
+      args.push('--proxy', options.proxy);
     }
 
     // Add headers
@@ -153,13 +266,20 @@ export class YtDlpDownloader {
 
     args.push(url);
 
-    this.logger.info(`Starting yt-dlp download: ${this.ytdlpPath} ${args.join(' ')}`);
+    const secrets = ytdlpArgSecrets(args);
+    this.logger.info(`Starting yt-dlp download: ${this.ytdlpPath} ${redactArgs(args, secrets).join(' ')}`);
+
+    const timeout = parseInt(process.env.JOB_TIMEOUT || '7200000'); // 2 hours
+    let supervised: SupervisedProcess | undefined;
+    let detachControl: (() => void) | undefined;
 
     try {
       const subprocess: ExecaChildProcess<string> = execa(this.ytdlpPath, args, {
         cwd: outputDir,
-        timeout: parseInt(process.env.JOB_TIMEOUT || '7200000'), // 2 hours
+        detached: true, // own process group, so pause also reaches ffmpeg children
       });
+      supervised = superviseProcess(subprocess, timeout);
+      detachControl = control?.attach(supervised);
 
       // Parse progress from stderr
       subprocess.stderr?.on('data', (data) => {
@@ -184,16 +304,31 @@ export class YtDlpDownloader {
 
       this.logger.info(`yt-dlp download completed: ${downloadedFile} (${stats.size} bytes)`);
 
+      const metadataFiles = options.writeMetadata ? await fs.readdir(metadataDir).catch(() => []) : [];
+      const infoJson = metadataFiles.find(f => f.endsWith('.info.json'));
+      const thumbnail = metadataFiles.find(f => f.endsWith('.jpg'));
+      const subtitleFiles = options.subtitles ? await fs.readdir(subsDir).catch(() => []) : [];
+
       return {
         filename: downloadedFile,
         filepath,
         size: stats.size,
+        infoJsonPath: infoJson ? path.join(metadataDir, infoJson) : undefined,
+        thumbnailPath: thumbnail ? path.join(metadataDir, thumbnail) : undefined,
+        subtitlePaths: this.orderSubtitles(subtitleFiles, options.subtitles?.languages ?? [])
+          .map(f => path.join(subsDir, f)),
       };
 
     } catch (error) {
+      // execa's message holds the whole command line
+      redactError(error, secrets);
       const errorMessage = error instanceof Error ? error.message : String(error);
       this.logger.error(`yt-dlp download failed: ${errorMessage}`);
 
+      if (supervised?.timedOut) {
+        throw new Error(`yt-dlp timed out after ${timeout} ms`);
+      }
+
       if (isExecaError(error)) {
         const stderr = error.stderr ?? '';
         const code = parseYtDlpErrorCode(stderr);
@@ -203,9 +338,22 @@ export class YtDlpDownloader {
       }
 
       throw error;
+    } finally {
+      detachControl?.();
     }
   }
 
+  // Keep the requested language order, so burn-in uses the first available one
+  private orderSubtitles(files: string[], languages: string[]): string[] {
+    const rank = (file: string) => {
+      const index = languages.indexOf(subtitleLanguage(file));
+      return index === -1 ? languages.length : index;
+    };
+    return files
+      .filter(f => f.endsWith('.srt') || f.endsWith('.vtt'))
+      .sort((a, b) => rank(a) - rank(b) || a.localeCompare(b));
+  }
+
   private parseProgress(
     line: string,
     jobId?: string,
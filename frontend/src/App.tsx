@@ -1,9 +1,16 @@
-import { useState, useEffect, useCallback } from 'react';
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { QueryClient, QueryClientProvider, useQuery } from '@tanstack/react-query';
 import { DownloadForm } from './components/DownloadForm';
 import { JobList } from './components/JobList';
+import { TrashList } from './components/TrashList';
 import { Header } from './components/Header';
+import type { Page } from './components/Header';
+import { SubscriptionList } from './components/SubscriptionList';
+import { LoginForm } from './components/LoginForm';
 import { useWebSocket } from './hooks/useWebSocket';
+import { AuthContext } from './hooks/useAuth';
+import { api, getAuthToken, setAuthToken, setUnauthorizedHandler } from './services/api';
+import type { User } from '@/types';
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -14,12 +21,15 @@ const queryClient = new QueryClient({
   },
 });
 
-function AppContent() {
+function AppContent({ token }: { token: string }) {
   const [activeJobs, setActiveJobs] = useState(new Set<string>());
+  const [showTrash, setShowTrash] = useState(false);
+  const [page, setPage] = useState<Page>('downloads');
   const { connected, serverAvailable, lastMessage, joinJob, leaveJob } = useWebSocket(
     (import.meta.env.VITE_API_URL as string) || 'http://localhost:3000',
     // Enable WS only when there are active jobs
     activeJobs.size > 0,
+    token,
   );
 
   // Simple toast notifications
@@ -66,7 +76,7 @@ function AppContent() {
           };
         });
       } else {
-        // For other events (completed/failed/job-update), invalidate to get fresh data
+        // For other events (completed/failed/cancelled/job-update), invalidate to get fresh data
         queryClient.invalidateQueries({ queryKey: ['downloads'] });
       }
 
@@ -91,12 +101,21 @@ function AppContent() {
           return next;
         });
       }
+      if (lastMessage.type === 'cancelled') {
+        const d = lastMessage.data as { jobId: string };
+        // Worker confirmed the cancellation: stop following the job
+        setActiveJobs(prev => {
+          const next = new Set(prev);
+          next.delete(d.jobId);
+          return next;
+        });
+      }
     }
   }, [lastMessage]);
 
   return (
     <div className="min-h-screen bg-gray-50">
-      <Header connected={connected} />
+      <Header connected={connected} page={page} onPageChange={setPage} />
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {/* Toasts */}
@@ -122,7 +141,16 @@ function AppContent() {
             ))}
           </div>
         )}
-        <div className="space-y-8">
+        {page === 'subscriptions' && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-xl font-semibold text-gray-900">Subscriptions</h2>
+            </div>
+            <SubscriptionList />
+          </div>
+        )}
+        {/* Kept mounted so active jobs stay tracked on the other pages */}
+        <div className="space-y-8" hidden={page !== 'downloads'}>
           {/* Download Form */}
           <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
             <h2 className="text-xl font-semibold text-gray-900 mb-4">
@@ -133,41 +161,51 @@ function AppContent() {
 
           {/* Jobs List */}
           <div className="bg-white rounded-lg shadow-sm border border-gray-200">
-            <div className="px-6 py-4 border-b border-gray-200">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
               <h2 className="text-xl font-semibold text-gray-900">
-                Downloads
+                {showTrash ? 'Trash' : 'Downloads'}
               </h2>
+              <button
+                onClick={() => setShowTrash(!showTrash)}
+                className="text-sm text-gray-600 hover:text-gray-900"
+              >
+                {showTrash ? '← Back to downloads' : '🗑 Trash'}
+              </button>
             </div>
-            <JobList
-              activeJobs={activeJobs}
-              onJobUpdate={(jobId) => {
-                // Remove from active jobs when completed or failed
-                setActiveJobs(prev => {
-                  const newSet = new Set(prev);
-                  newSet.delete(jobId);
-                  return newSet;
-                });
-              }}
-              socketConnected={connected}
-              serverAvailable={serverAvailable}
-              onActiveJobsChange={useCallback((currentActive: Set<string>) => {
-                // Merge with existing active jobs to keep joins for in-flight jobs
-                setActiveJobs(prev => {
-                  // Compute union and avoid state update if identical
-                  const union = new Set<string>(prev);
-                  for (const id of currentActive) union.add(id);
-                  if (union.size === prev.size) {
-                    // Check deep equality to prevent unnecessary updates
-                    let identical = true;
-                    for (const id of prev) {
-                      if (!union.has(id)) { identical = false; break; }
+            {showTrash && <TrashList />}
+            {/* Kept mounted so active jobs stay tracked while the trash is open */}
+            <div hidden={showTrash}>
+              <JobList
+                activeJobs={activeJobs}
+                onJobUpdate={(jobId) => {
+                  // Remove from active jobs when completed or failed
+                  setActiveJobs(prev => {
+                    const newSet = new Set(prev);
+                    newSet.delete(jobId);
+                    return newSet;
+                  });
+                }}
+                socketConnected={connected}
+                serverAvailable={serverAvailable}
+                onActiveJobsChange={useCallback((currentActive: Set<string>) => {
+                  // Merge with existing active jobs to keep joins for in-flight jobs
+                  setActiveJobs(prev => {
+                    // Compute union and avoid state update if identical
+                    const union = new Set<string>(prev);
+                    for (const id of currentActive) union.add(id);
+                    if (union.size === prev.size) {
+                      // Check deep equality to prevent unnecessary updates
+                      let identical = true;
+                      for (const id of prev) {
+                        if (!union.has(id)) { identical = false; break; }
+                      }
+                      if (identical) return prev; // no change
                     }
-                    if (identical) return prev; // no change
-                  }
-                  return union;
-                });
-              }, [])}
-            />
+                    return union;
+                  });
+                }, [])}
+              />
+            </div>
           </div>
         </div>
       </main>
@@ -175,10 +213,59 @@ function AppContent() {
   );
 }
 
+// Login gate: the rest of the app always runs with a signed-in user
+function AuthGate() {
+  const [token, setToken] = useState(getAuthToken);
+  const [loggedInUser, setLoggedInUser] = useState<User | null>(null);
+
+  const logout = useCallback(() => {
+    setAuthToken(null);
+    setToken(null);
+    setLoggedInUser(null);
+    queryClient.clear();
+  }, []);
+
+  useEffect(() => {
+    setUnauthorizedHandler(logout);
+    return () => setUnauthorizedHandler(null);
+  }, [logout]);
+
+  // A token kept from a previous visit is checked once
+  const { data: storedUser } = useQuery({
+    queryKey: ['auth', 'me', token],
+    queryFn: api.getCurrentUser,
+    enabled: token !== null && loggedInUser === null,
+    retry: false,
+  });
+
+  const user = loggedInUser ?? storedUser ?? null;
+  const auth = useMemo(() => (user ? { user, logout } : null), [user, logout]);
+
+  if (!token) {
+    return (
+      <LoginForm
+        onLoggedIn={(response) => {
+          setAuthToken(response.accessToken);
+          setToken(response.accessToken);
+          setLoggedInUser(response.user);
+        }}
+      />
+    );
+  }
+
+  if (!auth) return null;
+
+  return (
+    <AuthContext.Provider value={auth}>
+      <AppContent token={token} />
+    </AuthContext.Provider>
+  );
+}
+
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <AppContent />
+      <AuthGate />
     </QueryClientProvider>
   );
 }
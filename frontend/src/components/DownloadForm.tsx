@@ -1,7 +1,9 @@
 import { useState, useEffect } from 'react';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { api } from '../services/api';
-import type { CreateDownloadRequest } from '@/types';
+import { FormatPicker } from './FormatPicker';
+import { ScheduleFields } from './ScheduleFields';
+import type { BatchDownloadResponse, CreateDownloadRequest } from '@/types';
 
 interface DownloadFormProps {
   onJobCreated: (jobId: string) => void;
@@ -24,11 +26,36 @@ function extractUsername(url: string): string | null {
   return match?.[1] ?? null;
 }
 
+// Download types handled by yt-dlp, where a format can be picked
+function supportsFormatSelection(type: CreateDownloadRequest['type']): boolean {
+  return type === 'auto' || type === 'youtube' || type === 'm3u8';
+}
+
+// 1 runs first, jobs of equal priority run in order
+const PRIORITIES = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+// Per-job speed caps in bytes per second (0: no cap besides the global limit)
+const SPEED_LIMITS = [
+  { label: 'Unlimited', value: 0 },
+  { label: '256 KB/s', value: 256 * 1024 },
+  { label: '1 MB/s', value: 1024 * 1024 },
+  { label: '5 MB/s', value: 5 * 1024 * 1024 },
+  { label: '10 MB/s', value: 10 * 1024 * 1024 },
+];
+
 // Detect Pinterest URLs
 function detectPinterestUrl(url: string): boolean {
   return /pinterest\.com\//i.test(url);
 }
 
+// One URL per line, blank lines and # comments skipped
+function parseUrlList(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'));
+}
+
 export function DownloadForm({ onJobCreated }: DownloadFormProps) {
   const queryClient = useQueryClient();
   const [formData, setFormData] = useState<CreateDownloadRequest>({
@@ -37,8 +64,15 @@ export function DownloadForm({ onJobCreated }: DownloadFormProps) {
   });
 
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [showSchedule, setShowSchedule] = useState(false);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
 
+  // Multi-line mode: the options below apply to every URL of the list
+  const [batchMode, setBatchMode] = useState(false);
+  const [batchText, setBatchText] = useState('');
+  const [isDragging, setIsDragging] = useState(false);
+  const [batchResult, setBatchResult] = useState<BatchDownloadResponse | null>(null);
+
   // Auto-detect URLs and update type
   useEffect(() => {
     if (!formData.url) return;
@@ -79,6 +113,7 @@ export function DownloadForm({ onJobCreated }: DownloadFormProps) {
       onJobCreated(response.jobId);
       setFormData({ url: '', type: 'auto' });
       setShowAdvanced(false);
+      setShowSchedule(false);
 
       // Immediately refetch downloads list
       queryClient.invalidateQueries({ queryKey: ['downloads'] });
@@ -89,13 +124,63 @@ export function DownloadForm({ onJobCreated }: DownloadFormProps) {
     },
   });
 
+  const createBatchMutation = useMutation({
+    mutationFn: api.createDownloadBatch,
+    onSuccess: (response) => {
+      for (const result of response.results) {
+        if (result.jobId) onJobCreated(result.jobId);
+      }
+      setBatchResult(response);
+      setBatchText(response.results
+        .filter((result) => result.error && result.url)
+        .map((result) => result.url)
+        .join('\n'));
+
+      queryClient.invalidateQueries({ queryKey: ['downloads'] });
+    },
+  });
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (batchMode) {
+      const urls = parseUrlList(batchText);
+      if (urls.length === 0) return;
+
+      // Options detected from a single URL do not apply to the others
+      const options: CreateDownloadRequest = { ...formData };
+      delete options.twitter;
+      delete options.playlist;
+
+      const type = formData.type ?? 'auto';
+      createBatchMutation.mutate(urls.map((url) => ({
+        ...options,
+        url,
+        type: type === 'auto'
+          ? (detectTwitterUrl(url) ? 'twitter' : detectPinterestUrl(url) ? 'pinterest' : 'auto')
+          : type,
+      })));
+      return;
+    }
+
     if (!formData.url.trim()) return;
 
     createDownloadMutation.mutate(formData);
   };
 
+  const handleDrop = async (e: React.DragEvent<HTMLTextAreaElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+
+    const files = Array.from(e.dataTransfer.files).filter((file) => /\.(txt|csv)$/i.test(file.name));
+    const contents = await Promise.all(files.map((file) => file.text()));
+    // CSV rows keep their first column, the URL
+    const urls = contents.flatMap((text) => parseUrlList(text).map((line) => line.replace(/,.*$/, '').trim()));
+    if (urls.length > 0) {
+      setBatchText((prev) => [prev.trim(), ...urls].filter(Boolean).join('\n'));
+    }
+  };
+
   const handleInputChange = (field: keyof CreateDownloadRequest, value: string | CreateDownloadRequest[keyof CreateDownloadRequest]) => {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
@@ -104,18 +189,49 @@ export function DownloadForm({ onJobCreated }: DownloadFormProps) {
     <form onSubmit={handleSubmit} className="space-y-4">
       {/* URL Input */}
       <div>
-        <label htmlFor="url" className="block text-sm font-medium text-gray-700 mb-1">
-          Download URL *
-        </label>
-        <input
-          type="url"
-          id="url"
-          value={formData.url}
-          onChange={(e) => handleInputChange('url', e.target.value)}
-          placeholder="https://example.com/file.zip"
-          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-          required
-        />
+        <div className="flex items-center justify-between mb-1">
+          <label htmlFor="url" className="block text-sm font-medium text-gray-700">
+            {batchMode ? 'Download URLs (one per line) *' : 'Download URL *'}
+          </label>
+          <button
+            type="button"
+            onClick={() => {
+              setBatchMode(!batchMode);
+              setBatchResult(null);
+            }}
+            className="text-xs text-blue-600 hover:text-blue-800"
+          >
+            {batchMode ? 'Single URL' : 'Multiple URLs'}
+          </button>
+        </div>
+        {batchMode ? (
+          <textarea
+            id="url"
+            rows={6}
+            value={batchText}
+            onChange={(e) => setBatchText(e.target.value)}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={(e) => void handleDrop(e)}
+            placeholder={'https://example.com/file.zip\nhttps://www.youtube.com/watch?v=...\n\nor drop .txt / .csv files here'}
+            className={`w-full px-3 py-2 font-mono text-sm border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+              isDragging ? 'border-blue-500 bg-blue-50' : 'border-gray-300'
+            }`}
+          />
+        ) : (
+          <input
+            type="url"
+            id="url"
+            value={formData.url}
+            onChange={(e) => handleInputChange('url', e.target.value)}
+            placeholder="https://example.com/file.zip"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            required
+          />
+        )}
       </div>
 
       {/* Type Selection */}
@@ -138,6 +254,68 @@ export function DownloadForm({ onJobCreated }: DownloadFormProps) {
         </select>
       </div>
 
+      {/* Format Selection */}
+      {!batchMode && supportsFormatSelection(formData.type) && (
+        <FormatPicker
+          url={formData.url}
+          proxy={{ proxy: formData.proxy, proxyPool: formData.proxyPool }}
+          value={{ format: formData.format, maxHeight: formData.maxHeight, audioOnly: formData.audioOnly }}
+          onChange={(selection) => setFormData(prev => ({ ...prev, ...selection }))}
+        />
+      )}
+
+      {/* Playlist Expansion */}
+      {!batchMode && (formData.type === 'auto' || formData.type === 'youtube') && (
+        <div className="flex items-center space-x-4">
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={Boolean(formData.playlist)}
+              onChange={(e) =>
+                handleInputChange('playlist', e.target.checked ? { maxEntries: 100 } : undefined)
+              }
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span className="text-sm text-gray-700">Download the whole playlist / channel</span>
+          </label>
+          {formData.playlist && (
+            <label className="flex items-center space-x-2">
+              <span className="text-xs text-gray-600">Max entries</span>
+              <input
+                type="number"
+                min="1"
+                max="500"
+                value={formData.playlist.maxEntries || 100}
+                onChange={(e) => handleInputChange('playlist', { maxEntries: parseInt(e.target.value) })}
+                className="w-24 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </label>
+          )}
+        </div>
+      )}
+
+      {/* Deferred Start */}
+      <div className="space-y-2">
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={showSchedule}
+            onChange={(e) => {
+              setShowSchedule(e.target.checked);
+              if (!e.target.checked) setFormData(prev => ({ ...prev, startAt: undefined, window: undefined }));
+            }}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          <span className="text-sm text-gray-700">Start later</span>
+        </label>
+        {showSchedule && (
+          <ScheduleFields
+            value={{ startAt: formData.startAt, window: formData.window }}
+            onChange={(schedule) => setFormData(prev => ({ ...prev, ...schedule }))}
+          />
+        )}
+      </div>
+
       {/* Advanced Options Toggle */}
       <div>
         <button
@@ -167,6 +345,74 @@ export function DownloadForm({ onJobCreated }: DownloadFormProps) {
             />
           </div>
 
+          {/* Priority */}
+          <div>
+            <label htmlFor="priority" className="block text-sm font-medium text-gray-700 mb-1">
+              Priority
+            </label>
+            <select
+              id="priority"
+              value={formData.priority ?? 5}
+              onChange={(e) => handleInputChange('priority', parseInt(e.target.value))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              {PRIORITIES.map(priority => (
+                <option key={priority} value={priority}>
+                  {priority}{priority === 1 ? ' (highest)' : priority === 5 ? ' (default)' : priority === 10 ? ' (lowest)' : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Speed limit */}
+          <div>
+            <label htmlFor="maxSpeed" className="block text-sm font-medium text-gray-700 mb-1">
+              Max Speed
+            </label>
+            <select
+              id="maxSpeed"
+              value={formData.maxSpeed ?? 0}
+              onChange={(e) => handleInputChange('maxSpeed', parseInt(e.target.value) || undefined)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              {SPEED_LIMITS.map(limit => (
+                <option key={limit.value} value={limit.value}>{limit.label}</option>
+              ))}
+            </select>
+          </div>
+
+          {/* Proxy */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="proxy" className="block text-sm font-medium text-gray-700 mb-1">
+                Proxy
+              </label>
+              <input
+                type="text"
+                id="proxy"
+                value={formData.proxy || ''}
+                onChange={(e) => handleInputChange('proxy', e.target.value || undefined)}
+                placeholder="socks5://127.0.0.1:1080"
+                disabled={Boolean(formData.proxyPool)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
+              />
+            </div>
+            <div>
+              <label htmlFor="proxyPool" className="block text-sm font-medium text-gray-700 mb-1">
+                Proxy Pool
+              </label>
+              <input
+                type="text"
+                id="proxyPool"
+                value={formData.proxyPool || ''}
+                onChange={(e) => handleInputChange('proxyPool', e.target.value || undefined)}
+                placeholder="residential"
+                disabled={Boolean(formData.proxy)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
+              />
+            </div>
+          </div>
+
           {/* Headers */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
@@ -202,6 +448,19 @@ export function DownloadForm({ onJobCreated }: DownloadFormProps) {
             </div>
           </div>
 
+          {/* Multi-file Results */}
+          {(formData.type === 'twitter' || formData.type === 'pinterest') && (
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={formData.archive !== 'none'}
+                onChange={(e) => handleInputChange('archive', e.target.checked ? 'zip' : 'none')}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span className="text-sm text-gray-700">Bundle multiple files into a single zip</span>
+            </label>
+          )}
+
           {/* Twitter Options */}
           {formData.type === 'twitter' && (
             <div>
@@ -329,6 +588,153 @@ export function DownloadForm({ onJobCreated }: DownloadFormProps) {
             </div>
           )}
 
+          {/* Subtitles */}
+          {!batchMode && supportsFormatSelection(formData.type) && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 mb-2">Subtitles</h4>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label htmlFor="subtitleLanguages" className="block text-xs text-gray-600 mb-1">
+                    Languages (comma separated)
+                  </label>
+                  <input
+                    type="text"
+                    id="subtitleLanguages"
+                    value={formData.subtitles?.languages.join(',') || ''}
+                    onChange={(e) => {
+                      const languages = e.target.value.split(',').map(l => l.trim()).filter(Boolean);
+                      handleInputChange('subtitles', languages.length ? { ...formData.subtitles, languages } : undefined);
+                    }}
+                    placeholder="en,fr"
+                    disabled={Boolean(formData.audio)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+
+                <div>
+                  <label htmlFor="subtitleMode" className="block text-xs text-gray-600 mb-1">
+                    Mode
+                  </label>
+                  <select
+                    id="subtitleMode"
+                    value={formData.subtitles?.mode || 'sidecar'}
+                    onChange={(e) =>
+                      formData.subtitles && handleInputChange('subtitles', {
+                        ...formData.subtitles,
+                        mode: e.target.value as 'sidecar' | 'mux' | 'burn',
+                      })
+                    }
+                    disabled={!formData.subtitles}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="sidecar">Separate files</option>
+                    <option value="mux">Soft track (mux)</option>
+                    <option value="burn">Burn into video</option>
+                  </select>
+                </div>
+
+                <div>
+                  <label htmlFor="subtitleFormat" className="block text-xs text-gray-600 mb-1">
+                    Format
+                  </label>
+                  <select
+                    id="subtitleFormat"
+                    value={formData.subtitles?.format || 'srt'}
+                    onChange={(e) =>
+                      formData.subtitles && handleInputChange('subtitles', {
+                        ...formData.subtitles,
+                        format: e.target.value as 'srt' | 'vtt',
+                      })
+                    }
+                    disabled={!formData.subtitles}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="srt">SRT</option>
+                    <option value="vtt">WebVTT</option>
+                  </select>
+                </div>
+              </div>
+
+              <div className="mt-2">
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={formData.subtitles?.includeAuto || false}
+                    onChange={(e) =>
+                      formData.subtitles && handleInputChange('subtitles', {
+                        ...formData.subtitles,
+                        includeAuto: e.target.checked,
+                      })
+                    }
+                    disabled={!formData.subtitles}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="text-xs text-gray-600">Include auto-generated captions</span>
+                </label>
+              </div>
+            </div>
+          )}
+
+                    {/* Audio Extraction */}
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">Audio Extraction</h4>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="audioFormat" className="block text-xs text-gray-600 mb-1">
+                  Audio Format
+                </label>
+                <select
+                  id="audioFormat"
+                  value={formData.audio?.format || ''}
+                  onChange={(e) =>
+                    handleInputChange(
+                      'audio',
+                      e.target.value
+                        ? { ...formData.audio, format: e.target.value as NonNullable<CreateDownloadRequest['audio']>['format'] }
+                        : undefined,
+                    )
+                  }
+                  disabled={Boolean(formData.transcode?.to)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="">Keep video</option>
+                  <option value="mp3">MP3</option>
+                  <option value="opus">Opus</option>
+                  <option value="m4a">M4A (AAC)</option>
+                  <option value="flac">FLAC</option>
+                </select>
+              </div>
+
+              <div>
+                <label htmlFor="audioBitrate" className="block text-xs text-gray-600 mb-1">
+                  Bitrate (kbit/s)
+                </label>
+                <select
+                  id="audioBitrate"
+                  value={formData.audio?.bitrate || ''}
+                  onChange={(e) =>
+                    formData.audio && handleInputChange('audio', {
+                      format: formData.audio.format,
+                      ...(e.target.value ? { bitrate: parseInt(e.target.value) } : {}),
+                    })
+                  }
+                  disabled={!formData.audio || formData.audio.format === 'flac'}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="">Default</option>
+                  <option value="96">96</option>
+                  <option value="128">128</option>
+                  <option value="192">192</option>
+                  <option value="256">256</option>
+                  <option value="320">320</option>
+                </select>
+              </div>
+            </div>
+            <p className="mt-1 text-xs text-gray-500">
+              Tags (title, artist, album) and cover art are taken from the source when available.
+            </p>
+          </div>
+
           {/* Transcode Options */}
           <div>
             <h4 className="text-sm font-medium text-gray-700 mb-2">Transcode Options</h4>
@@ -343,6 +749,7 @@ export function DownloadForm({ onJobCreated }: DownloadFormProps) {
                   onChange={(e) =>
                     handleInputChange('transcode', { ...formData.transcode, to: e.target.value })
                   }
+                  disabled={Boolean(formData.audio)}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                 >
                   <option value="">No transcode</option>
@@ -399,10 +806,14 @@ export function DownloadForm({ onJobCreated }: DownloadFormProps) {
       <div className="flex justify-end">
         <button
           type="submit"
-          disabled={createDownloadMutation.isPending || !formData.url.trim()}
+          disabled={batchMode
+            ? createBatchMutation.isPending || parseUrlList(batchText).length === 0
+            : createDownloadMutation.isPending || !formData.url.trim()}
           className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
         >
-          {createDownloadMutation.isPending ? 'Adding...' : 'Add Download'}
+          {batchMode
+            ? (createBatchMutation.isPending ? 'Adding...' : `Add ${parseUrlList(batchText).length} Downloads`)
+            : (createDownloadMutation.isPending ? 'Adding...' : 'Add Download')}
         </button>
       </div>
 
@@ -415,11 +826,29 @@ export function DownloadForm({ onJobCreated }: DownloadFormProps) {
         </div>
       )}
 
+      {/* Batch Results: rejected URLs stay in the list to be fixed */}
+      {batchMode && batchResult && (
+        <div className={`p-3 border rounded-md ${batchResult.failed > 0 ? 'bg-yellow-50 border-yellow-200' : 'bg-green-50 border-green-200'}`}>
+          <p className="text-sm text-gray-700">
+            {batchResult.created} of {batchResult.total} downloads added
+          </p>
+          {batchResult.failed > 0 && (
+            <ul className="mt-2 space-y-1 text-xs text-red-600">
+              {batchResult.results.filter((result) => result.error).map((result) => (
+                <li key={result.line} className="truncate">
+                  Line {result.line}{result.url ? ` (${result.url})` : ''}: {result.error}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
       {/* Error Display */}
-      {createDownloadMutation.error && (
+      {(batchMode ? createBatchMutation.error : createDownloadMutation.error) && (
         <div className="p-3 bg-red-50 border border-red-200 rounded-md">
           <p className="text-sm text-red-600">
-            Error: {createDownloadMutation.error.message}
+            Error: {(batchMode ? createBatchMutation.error : createDownloadMutation.error)?.message}
           </p>
         </div>
       )}
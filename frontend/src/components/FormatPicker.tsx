@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { api } from '../services/api';
+import type { CreateDownloadRequest, ProbeFormat } from '@/types';
+
+type FormatSelection = Pick<CreateDownloadRequest, 'format' | 'maxHeight' | 'audioOnly'>;
+
+interface FormatPickerProps {
+  url: string;
+  // The probe goes through the proxy the download will use
+  proxy: Pick<CreateDownloadRequest, 'proxy' | 'proxyPool'>;
+  value: FormatSelection;
+  onChange: (selection: FormatSelection) => void;
+}
+
+// Video-only formats are merged with the best audio track by yt-dlp
+function toFormatSelector(format: ProbeFormat): string {
+  return format.hasVideo && !format.hasAudio
+    ? `${format.formatId}+bestaudio/${format.formatId}`
+    : format.formatId;
+}
+
+function describeFormat(format: ProbeFormat): string {
+  const parts = [
+    format.hasVideo ? (format.height ? `${format.height}p` : format.resolution) : 'audio only',
+    format.ext,
+    format.fps && format.fps > 30 ? `${format.fps}fps` : undefined,
+    format.vcodec,
+    format.acodec,
+    format.filesize ? `${(format.filesize / 1024 / 1024).toFixed(1)} MB` : undefined,
+  ];
+  return parts.filter(Boolean).join(' · ');
+}
+
+function formatDuration(seconds?: number): string {
+  if (!seconds) return '';
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = Math.floor(seconds % 60);
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}` : `${m}:${String(s).padStart(2, '0')}`;
+}
+
+export function FormatPicker({ url, proxy, value, onChange }: FormatPickerProps) {
+  const [probedUrl, setProbedUrl] = useState<string | null>(null);
+
+  const probeMutation = useMutation({
+    mutationFn: (probeUrl: string) => api.probeUrl(probeUrl, proxy),
+    onSuccess: () => setProbedUrl(url),
+  });
+
+  // Results are only meaningful for the URL they were fetched for
+  const probe = probedUrl === url ? probeMutation.data : undefined;
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-gray-700 mb-2">Format</h4>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label htmlFor="maxHeight" className="block text-xs text-gray-600 mb-1">
+            Max Resolution
+          </label>
+          <select
+            id="maxHeight"
+            value={value.maxHeight ?? ''}
+            onChange={(e) => onChange({ ...value, maxHeight: e.target.value ? parseInt(e.target.value) : undefined })}
+            disabled={Boolean(value.format) || value.audioOnly}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="">Default (1080p)</option>
+            <option value="4320">8K (4320p)</option>
+            <option value="2160">4K (2160p)</option>
+            <option value="1440">1440p</option>
+            <option value="1080">1080p</option>
+            <option value="720">720p</option>
+            <option value="480">480p</option>
+          </select>
+        </div>
+
+        <div className="flex items-end">
+          <label className="flex items-center space-x-2 pb-2">
+            <input
+              type="checkbox"
+              checked={value.audioOnly || false}
+              onChange={(e) => onChange({ ...value, audioOnly: e.target.checked || undefined })}
+              disabled={Boolean(value.format)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span className="text-xs text-gray-600">Audio only</span>
+          </label>
+        </div>
+
+        <div className="flex items-end">
+          <button
+            type="button"
+            onClick={() => probeMutation.mutate(url)}
+            disabled={!url.trim() || probeMutation.isPending}
+            className="w-full px-3 py-2 text-sm text-blue-700 bg-blue-100 rounded-md hover:bg-blue-200 disabled:opacity-50"
+          >
+            {probeMutation.isPending ? 'Detecting...' : 'Detect formats'}
+          </button>
+        </div>
+      </div>
+
+      {probeMutation.error && (
+        <p className="mt-2 text-xs text-red-600">{probeMutation.error.message}</p>
+      )}
+
+      {probe && (
+        <div className="mt-3 border border-gray-200 rounded-md bg-white">
+          <div className="flex items-center p-3 border-b border-gray-200">
+            {probe.thumbnail && (
+              <img src={probe.thumbnail} alt="" className="w-24 h-14 object-cover rounded mr-3" />
+            )}
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-gray-900 truncate">{probe.title}</p>
+              <p className="text-xs text-gray-500">
+                {[probe.uploader, formatDuration(probe.duration)].filter(Boolean).join(' · ')}
+              </p>
+            </div>
+          </div>
+
+          <div className="max-h-60 overflow-y-auto divide-y divide-gray-100">
+            <label className="flex items-center px-3 py-2 space-x-2 hover:bg-gray-50">
+              <input
+                type="radio"
+                name="format"
+                checked={!value.format}
+                onChange={() => onChange({ ...value, format: undefined })}
+              />
+              <span className="text-xs text-gray-700">Automatic (resolution / audio options above)</span>
+            </label>
+            {probe.formats.map((f) => {
+              const selector = toFormatSelector(f);
+              return (
+                <label key={f.formatId} className="flex items-center px-3 py-2 space-x-2 hover:bg-gray-50">
+                  <input
+                    type="radio"
+                    name="format"
+                    checked={value.format === selector}
+                    onChange={() => onChange({ ...value, format: selector })}
+                  />
+                  <span className="text-xs font-mono text-gray-500 w-12">{f.formatId}</span>
+                  <span className="text-xs text-gray-700">{describeFormat(f)}</span>
+                  {f.note && <span className="text-xs text-gray-400">{f.note}</span>}
+                </label>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
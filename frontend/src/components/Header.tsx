@@ -1,9 +1,22 @@
 
+import { useAuth } from '../hooks/useAuth';
+
+export type Page = 'downloads' | 'subscriptions';
+
 interface HeaderProps {
   connected: boolean;
+  page: Page;
+  onPageChange: (page: Page) => void;
 }
 
-export function Header({ connected }: HeaderProps) {
+const PAGES: Array<{ page: Page; label: string }> = [
+  { page: 'downloads', label: 'Downloads' },
+  { page: 'subscriptions', label: 'Subscriptions' },
+];
+
+export function Header({ connected, page, onPageChange }: HeaderProps) {
+  const { user, logout } = useAuth();
+
   return (
     <header className="bg-white border-b border-gray-200">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -12,6 +25,19 @@ export function Header({ connected }: HeaderProps) {
             <h1 className="text-2xl font-bold text-gray-900">
               Advanced Download Manager
             </h1>
+            <nav className="flex items-center space-x-1">
+              {PAGES.map(entry => (
+                <button
+                  key={entry.page}
+                  onClick={() => onPageChange(entry.page)}
+                  className={`px-3 py-1 text-sm rounded-md ${
+                    page === entry.page ? 'bg-blue-100 text-blue-800' : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  {entry.label}
+                </button>
+              ))}
+            </nav>
           </div>
 
           <div className="flex items-center space-x-4">
@@ -36,6 +62,17 @@ export function Header({ connected }: HeaderProps) {
             >
               Health Status
             </a>
+
+            {/* Signed-in User */}
+            <div className="flex items-center space-x-2 text-sm text-gray-600">
+              <span>
+                {user.username}
+                {user.role === 'admin' && <span className="ml-1 text-xs text-purple-700">(admin)</span>}
+              </span>
+              <button onClick={logout} className="text-blue-600 hover:text-blue-800">
+                Sign out
+              </button>
+            </div>
           </div>
         </div>
       </div>
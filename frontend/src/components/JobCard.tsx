@@ -1,5 +1,11 @@
+import { useEffect, useState } from 'react';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { api } from '../services/api';
+import { MediaPreview } from './MediaPreview';
+import { SharePanel } from './SharePanel';
+import { ScheduleFields } from './ScheduleFields';
+import type { ScheduleValue } from './ScheduleFields';
+import { useAuth } from '../hooks/useAuth';
 import type { Job } from '@/types';
 
 interface JobCardProps {
@@ -10,6 +16,11 @@ interface JobCardProps {
 
 export function JobCard({ job, isActive, onUpdate }: JobCardProps) {
   const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [isSharing, setIsSharing] = useState(false);
+  const [schedule, setSchedule] = useState<ScheduleValue | null>(null);
+  // Playlist parents have no file of their own and are paused entry by entry
+  const isGroup = (job.childCount ?? 0) > 0;
 
   const cancelMutation = useMutation({
     mutationFn: () => api.cancelDownload(job.jobId),
@@ -41,6 +52,40 @@ export function JobCard({ job, isActive, onUpdate }: JobCardProps) {
     },
   });
 
+  const rescheduleMutation = useMutation({
+    mutationFn: (value: ScheduleValue) => api.rescheduleDownload(job.jobId, {
+      startAt: value.startAt ?? null,
+      window: value.window ?? null,
+    }),
+    onSuccess: () => {
+      setSchedule(null);
+      queryClient.invalidateQueries({ queryKey: ['downloads'] });
+    },
+  });
+
+  const pinMutation = useMutation({
+    mutationFn: () => api.setPinned(job.jobId, !job.pinned),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['downloads'] });
+    },
+  });
+
+  const topMutation = useMutation({
+    mutationFn: () => api.changePriority(job.jobId, { position: 'top' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['downloads'] });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => api.deleteDownload(job.jobId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['downloads'] });
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
+      onUpdate();
+    },
+  });
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'completed':
@@ -49,6 +94,8 @@ export function JobCard({ job, isActive, onUpdate }: JobCardProps) {
         return 'bg-blue-100 text-blue-800';
       case 'queued':
         return 'bg-yellow-100 text-yellow-800';
+      case 'scheduled':
+        return 'bg-indigo-100 text-indigo-800';
       case 'paused':
         return 'bg-gray-100 text-gray-800';
       case 'failed':
@@ -116,6 +163,18 @@ export function JobCard({ job, isActive, onUpdate }: JobCardProps) {
             >
               {job.status.toUpperCase()}
             </span>
+            {job.pinned && (
+              <span className="text-xs text-amber-700" title="Pinned: kept by the retention cleanup">📌</span>
+            )}
+            {(job.status === 'queued' || job.status === 'scheduled') && job.priority !== undefined && job.priority !== 5 && (
+              <span className="text-xs text-gray-500" title="Queue priority, 1 runs first">P{job.priority}</span>
+            )}
+            {/* Admins see every job, so show whose it is */}
+            {user.role === 'admin' && job.owner && job.owner !== user.username && (
+              <span className="px-2 py-1 text-xs bg-purple-50 text-purple-700 rounded">
+                {job.owner}
+              </span>
+            )}
             {job.stage && job.status === 'running' && (
               <span className="px-2 py-1 text-xs bg-blue-50 text-blue-700 rounded">
                 {job.stage}
@@ -132,6 +191,35 @@ export function JobCard({ job, isActive, onUpdate }: JobCardProps) {
             </p>
           </div>
 
+          {/* Deferred Start */}
+          {job.status === 'scheduled' && job.scheduledAt && (
+            <div className="mt-2 text-xs text-indigo-700">
+              Starts in <Countdown target={job.scheduledAt} /> ({new Date(job.scheduledAt).toLocaleString()})
+              {job.window && <span className="text-gray-500"> · only between {job.window.start} and {job.window.end}</span>}
+            </div>
+          )}
+
+          {schedule && (
+            <div className="mt-3 p-3 bg-gray-50 border border-gray-200 rounded space-y-2">
+              <ScheduleFields value={schedule} onChange={setSchedule} />
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => rescheduleMutation.mutate(schedule)}
+                  disabled={rescheduleMutation.isPending}
+                  className="px-2 py-1 text-xs text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Save
+                </button>
+                <button onClick={() => setSchedule(null)} className="px-2 py-1 text-xs text-gray-600 hover:underline">
+                  Cancel
+                </button>
+                {rescheduleMutation.isError && (
+                  <span className="text-xs text-red-600">{rescheduleMutation.error.message}</span>
+                )}
+              </div>
+            </div>
+          )}
+
           {/* Progress Bar */}
           {(job.status === 'running' || job.status === 'paused') && (
             <div className="mt-3">
@@ -168,19 +256,50 @@ export function JobCard({ job, isActive, onUpdate }: JobCardProps) {
               <span>Completed: {new Date(job.updatedAt).toLocaleString()}</span>
             </div>
           )}
+
+          {/* Media Preview */}
+          {job.status === 'completed' && !isGroup && <MediaPreview job={job} />}
+
+          {/* Additional Files (subtitles, unarchived media) */}
+          {job.status === 'completed' && job.files && job.files.length > 1 && (
+            <div className="mt-2 flex flex-wrap gap-2">
+              {job.files.filter((file) => file.filename !== job.filename).map((file) => (
+                <a
+                  key={file.id}
+                  href={api.getFileDownloadUrl(job.jobId, file.id)}
+                  download
+                  className="px-2 py-1 text-xs text-gray-700 bg-gray-100 rounded hover:bg-gray-200"
+                >
+                  {file.filename}
+                </a>
+              ))}
+              <a
+                href={api.getArchiveUrl(job.jobId)}
+                download
+                className="px-2 py-1 text-xs text-blue-700 bg-blue-50 rounded hover:bg-blue-100"
+              >
+                All files (.zip)
+              </a>
+            </div>
+          )}
+
+          {/* Share Link */}
+          {isSharing && <SharePanel jobId={job.jobId} onClose={() => setIsSharing(false)} />}
         </div>
 
         {/* Actions */}
         <div className="flex items-center space-x-2 ml-4">
           {job.status === 'running' && (
             <>
-              <button
-                onClick={() => pauseMutation.mutate()}
-                disabled={pauseMutation.isPending}
-                className="px-3 py-1 text-xs text-yellow-700 bg-yellow-100 rounded hover:bg-yellow-200 disabled:opacity-50"
-              >
-                Pause
-              </button>
+              {!isGroup && (
+                <button
+                  onClick={() => pauseMutation.mutate()}
+                  disabled={pauseMutation.isPending}
+                  className="px-3 py-1 text-xs text-yellow-700 bg-yellow-100 rounded hover:bg-yellow-200 disabled:opacity-50"
+                >
+                  Pause
+                </button>
+              )}
               <button
                 onClick={() => cancelMutation.mutate()}
                 disabled={cancelMutation.isPending}
@@ -212,22 +331,60 @@ export function JobCard({ job, isActive, onUpdate }: JobCardProps) {
 
           {job.status === 'queued' && (
             <button
-              onClick={() => cancelMutation.mutate()}
-              disabled={cancelMutation.isPending}
-              className="px-3 py-1 text-xs text-red-700 bg-red-100 rounded hover:bg-red-200 disabled:opacity-50"
+              onClick={() => topMutation.mutate()}
+              disabled={topMutation.isPending}
+              title="Run next: highest priority, ahead of the other waiting jobs"
+              className="px-3 py-1 text-xs text-blue-700 bg-blue-100 rounded hover:bg-blue-200 disabled:opacity-50"
             >
-              Cancel
+              Move to top
             </button>
           )}
 
+          {(job.status === 'queued' || job.status === 'scheduled') && (
+            <>
+              <button
+                onClick={() => setSchedule(schedule ? null : { startAt: job.startAt ?? undefined, window: job.window ?? undefined })}
+                className="px-3 py-1 text-xs text-indigo-700 bg-indigo-100 rounded hover:bg-indigo-200"
+              >
+                Reschedule
+              </button>
+              <button
+                onClick={() => cancelMutation.mutate()}
+                disabled={cancelMutation.isPending}
+                className="px-3 py-1 text-xs text-red-700 bg-red-100 rounded hover:bg-red-200 disabled:opacity-50"
+              >
+                Cancel
+              </button>
+            </>
+          )}
+
           {job.status === 'completed' && (
-            <a
-              href={api.getDownloadUrl(job.jobId)}
-              download
-              className="px-3 py-1 text-xs text-blue-700 bg-blue-100 rounded hover:bg-blue-200"
+            <button
+              onClick={() => pinMutation.mutate()}
+              disabled={pinMutation.isPending}
+              title={job.pinned ? 'Allow the retention cleanup to remove the files' : 'Keep the files from the retention cleanup'}
+              className={`px-3 py-1 text-xs rounded disabled:opacity-50 ${job.pinned ? 'text-amber-800 bg-amber-100 hover:bg-amber-200' : 'text-gray-700 bg-gray-100 hover:bg-gray-200'}`}
             >
-              Download
-            </a>
+              {job.pinned ? 'Unpin' : 'Pin'}
+            </button>
+          )}
+
+          {job.status === 'completed' && !isGroup && (
+            <>
+              <a
+                href={api.getDownloadUrl(job.jobId)}
+                download
+                className="px-3 py-1 text-xs text-blue-700 bg-blue-100 rounded hover:bg-blue-200"
+              >
+                Download
+              </a>
+              <button
+                onClick={() => setIsSharing(!isSharing)}
+                className="px-3 py-1 text-xs text-gray-700 bg-gray-100 rounded hover:bg-gray-200"
+              >
+                Share
+              </button>
+            </>
           )}
 
           {job.status === 'failed' && (
@@ -239,6 +396,17 @@ export function JobCard({ job, isActive, onUpdate }: JobCardProps) {
               {retryMutation.isPending ? 'Retrying...' : 'Retry'}
             </button>
           )}
+
+          {['completed', 'failed', 'cancelled'].includes(job.status) && (
+            <button
+              onClick={() => deleteMutation.mutate()}
+              disabled={deleteMutation.isPending}
+              title="Move to trash"
+              className="px-3 py-1 text-xs text-red-700 bg-red-100 rounded hover:bg-red-200 disabled:opacity-50"
+            >
+              Delete
+            </button>
+          )}
         </div>
       </div>
 
@@ -248,4 +416,23 @@ export function JobCard({ job, isActive, onUpdate }: JobCardProps) {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+// Time left until `target`, refreshed every second
+function Countdown({ target }: { target: string }) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const seconds = Math.max(0, Math.round((new Date(target).getTime() - now) / 1000));
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+
+  if (days > 0) return <>{days}d {hours}h</>;
+  if (hours > 0) return <>{hours}h {minutes}m</>;
+  return <>{minutes}m {seconds % 60}s</>;
+}
@@ -0,0 +1,62 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { api } from '../services/api';
+import { JobCard } from './JobCard';
+import type { Job } from '@/types';
+
+interface JobGroupProps {
+  job: Job;
+  activeJobs: Set<string>;
+  onJobUpdate: (jobId: string) => void;
+}
+
+// Playlist parent with its entries, collapsed by default
+export function JobGroup({ job, activeJobs, onJobUpdate }: JobGroupProps) {
+  const [expanded, setExpanded] = useState(false);
+  const inProgress = job.status === 'queued' || job.status === 'running';
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['downloads', 'children', job.jobId],
+    queryFn: () => api.getDownloads({ parentId: job.jobId, limit: 500 }),
+    enabled: expanded,
+    // Entries are not joined individually; refresh them while the playlist runs
+    refetchInterval: expanded && inProgress ? 5000 : false,
+  });
+
+  return (
+    <div>
+      <JobCard
+        job={job}
+        isActive={activeJobs.has(job.jobId)}
+        onUpdate={() => onJobUpdate(job.jobId)}
+      />
+
+      <div className="px-6 pb-4 -mt-2">
+        <button
+          type="button"
+          onClick={() => setExpanded(!expanded)}
+          className="text-xs text-blue-600 hover:text-blue-800"
+        >
+          {expanded ? '▼' : '▶'} {job.childCount} playlist entries
+        </button>
+      </div>
+
+      {expanded && (
+        <div className="ml-6 border-l-2 border-gray-200 divide-y divide-gray-100">
+          {isLoading ? (
+            <p className="p-4 text-xs text-gray-500">Loading entries...</p>
+          ) : (
+            data?.jobs.map((child) => (
+              <JobCard
+                key={child.jobId}
+                job={child}
+                isActive={activeJobs.has(child.jobId)}
+                onUpdate={() => onJobUpdate(child.jobId)}
+              />
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,9 @@
 import { useEffect, useMemo, useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { api } from '../services/api';
 import { JobCard } from './JobCard';
+import { JobGroup } from './JobGroup';
+import type { BulkAction, BulkActionResponse, ChangePriorityRequest } from '@/types';
 
 interface JobListProps {
   activeJobs: Set<string>;
@@ -20,6 +22,12 @@ export function JobList({ activeJobs, onJobUpdate, socketConnected, onActiveJobs
 
   const [currentPage, setCurrentPage] = useState(1);
 
+  // Multi-select: explicit jobs of the page, or every job matching the filters
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [allMatching, setAllMatching] = useState(false);
+  const [bulkResult, setBulkResult] = useState<BulkActionResponse | null>(null);
+
   const { data, isLoading, error, refetch } = useQuery({
     queryKey: ['downloads', filters, currentPage],
     queryFn: () =>
@@ -39,18 +47,88 @@ export function JobList({ activeJobs, onJobUpdate, socketConnected, onActiveJobs
     },
   });
 
+  const clearSelection = () => {
+    setSelected(new Set());
+    setAllMatching(false);
+  };
+
   const handleFilterChange = (field: keyof typeof filters, value: string) => {
     setFilters(prev => ({ ...prev, [field]: value }));
     setCurrentPage(1); // Reset to first page when filtering
+    clearSelection();
   };
 
   const clearFilters = () => {
     setFilters({ status: '', type: '', search: '' });
     setCurrentPage(1);
+    clearSelection();
   };
 
   const jobs = useMemo(() => data?.jobs ?? [], [data?.jobs]);
 
+  const bulkMutation = useMutation({
+    mutationFn: (action: BulkAction) => {
+      if (allMatching) {
+        const filter = Object.fromEntries(Object.entries(filters).filter(([, value]) => value));
+        return api.bulkAction({ action, filter });
+      }
+      return api.bulkAction({ action, jobIds: [...selected] });
+    },
+    onSuccess: (response) => {
+      setBulkResult(response);
+      clearSelection();
+      queryClient.invalidateQueries({ queryKey: ['downloads'] });
+    },
+  });
+
+  // The queued filter lists jobs in queue order, which can then be rearranged by drag and drop
+  const reorderable = filters.status === 'queued';
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+
+  const reorderMutation = useMutation({
+    mutationFn: ({ jobId, placement }: { jobId: string; placement: ChangePriorityRequest }) =>
+      api.changePriority(jobId, placement),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['downloads'] });
+    },
+  });
+
+  const dropOn = (targetId: string) => {
+    const from = jobs.findIndex(job => job.jobId === draggedId);
+    const to = jobs.findIndex(job => job.jobId === targetId);
+    setDraggedId(null);
+    if (!draggedId || from < 0 || to < 0 || from === to) return;
+    // Dragged down it lands after the target, dragged up before it
+    reorderMutation.mutate({
+      jobId: draggedId,
+      placement: from < to ? { after: targetId } : { before: targetId },
+    });
+  };
+
+  const runBulkAction = (action: BulkAction) => {
+    const count = allMatching ? data?.pagination.total ?? 0 : selected.size;
+    if (action === 'delete' && !window.confirm(`Delete ${count} job(s) and their files?`)) return;
+    setBulkResult(null);
+    bulkMutation.mutate(action);
+  };
+
+  const toggleJob = (jobId: string, checked: boolean) => {
+    setAllMatching(false);
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(jobId);
+      else next.delete(jobId);
+      return next;
+    });
+  };
+
+  const pageSelected = jobs.length > 0 && jobs.every(job => selected.has(job.jobId));
+
+  const togglePage = (checked: boolean) => {
+    setAllMatching(false);
+    setSelected(checked ? new Set(jobs.map(job => job.jobId)) : new Set());
+  };
+
   // Notify parent about currently active jobs (running/queued)
   // so it can join corresponding WebSocket rooms for live updates
   // Useful on first load or page refresh where no rooms are joined yet
@@ -119,6 +197,7 @@ export function JobList({ activeJobs, onJobUpdate, socketConnected, onActiveJobs
             >
               <option value="">All Statuses</option>
               <option value="queued">Queued</option>
+              <option value="scheduled">Scheduled</option>
               <option value="running">Running</option>
               <option value="paused">Paused</option>
               <option value="completed">Completed</option>
@@ -156,6 +235,93 @@ export function JobList({ activeJobs, onJobUpdate, socketConnected, onActiveJobs
         </div>
       </div>
 
+      {/* Bulk Actions */}
+      {jobs.length > 0 && (
+        <div className="px-6 py-3 border-b border-gray-200 bg-gray-50 flex flex-wrap items-center gap-3 text-sm">
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={allMatching || pageSelected}
+              onChange={(e) => togglePage(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span className="text-gray-700">
+              {allMatching
+                ? `All ${pagination?.total ?? 0} matching jobs selected`
+                : selected.size > 0 ? `${selected.size} selected` : 'Select page'}
+            </span>
+          </label>
+
+          {pageSelected && !allMatching && pagination && pagination.total > jobs.length && (
+            <button onClick={() => setAllMatching(true)} className="text-blue-600 hover:text-blue-800">
+              Select all {pagination.total} matching filter
+            </button>
+          )}
+
+          {(allMatching || selected.size > 0) && (
+            <div className="flex items-center space-x-2 ml-auto">
+              <button
+                onClick={() => runBulkAction('retry')}
+                disabled={bulkMutation.isPending}
+                className="px-3 py-1 text-xs text-blue-700 bg-blue-100 rounded hover:bg-blue-200 disabled:opacity-50"
+              >
+                Retry
+              </button>
+              <button
+                onClick={() => runBulkAction('cancel')}
+                disabled={bulkMutation.isPending}
+                className="px-3 py-1 text-xs text-yellow-700 bg-yellow-100 rounded hover:bg-yellow-200 disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => runBulkAction('delete')}
+                disabled={bulkMutation.isPending}
+                className="px-3 py-1 text-xs text-red-700 bg-red-100 rounded hover:bg-red-200 disabled:opacity-50"
+              >
+                Delete
+              </button>
+              <button onClick={clearSelection} className="px-2 py-1 text-xs text-gray-600 hover:underline">
+                Clear
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {bulkResult && (
+        <div className="px-6 py-3 border-b border-gray-200 text-sm">
+          <div className="flex items-center justify-between">
+            <span className={bulkResult.failed > 0 ? 'text-yellow-700' : 'text-green-700'}>
+              {bulkResult.action}: {bulkResult.succeeded} of {bulkResult.total} jobs done
+            </span>
+            <button onClick={() => setBulkResult(null)} className="text-xs text-gray-500 hover:underline">
+              Dismiss
+            </button>
+          </div>
+          {bulkResult.failed > 0 && (
+            <ul className="mt-1 space-y-1 text-xs text-red-600">
+              {bulkResult.results.filter(result => !result.success).slice(0, 10).map(result => (
+                <li key={result.jobId}>{result.jobId.slice(0, 8)}: {result.error}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {bulkMutation.error && (
+        <div className="px-6 py-3 border-b border-gray-200 text-sm text-red-600">
+          Error: {bulkMutation.error.message}
+        </div>
+      )}
+
+      {reorderable && jobs.length > 1 && (
+        <div className="px-6 py-2 border-b border-gray-200 text-xs text-gray-500">
+          Listed in queue order. Drag a job to change when it runs.
+          {reorderMutation.error && <span className="ml-2 text-red-600">Error: {reorderMutation.error.message}</span>}
+        </div>
+      )}
+
       {/* Jobs List */}
       <div className="divide-y divide-gray-200">
         {jobs.length === 0 ? (
@@ -175,12 +341,43 @@ export function JobList({ activeJobs, onJobUpdate, socketConnected, onActiveJobs
           </div>
         ) : (
           jobs.map((job) => (
-            <JobCard
+            <div
               key={job.jobId}
-              job={job}
-              isActive={activeJobs.has(job.jobId)}
-              onUpdate={() => onJobUpdate(job.jobId)}
-            />
+              className={`flex items-start ${reorderable ? 'cursor-move' : ''} ${draggedId === job.jobId ? 'opacity-50' : ''}`}
+              draggable={reorderable}
+              onDragStart={() => setDraggedId(job.jobId)}
+              onDragEnd={() => setDraggedId(null)}
+              onDragOver={(e) => {
+                if (reorderable && draggedId) e.preventDefault();
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                dropOn(job.jobId);
+              }}
+            >
+              <input
+                type="checkbox"
+                aria-label="Select job"
+                checked={allMatching || selected.has(job.jobId)}
+                onChange={(e) => toggleJob(job.jobId, e.target.checked)}
+                className="mt-7 ml-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <div className="flex-1 min-w-0">
+                {job.childCount ? (
+                  <JobGroup
+                    job={job}
+                    activeJobs={activeJobs}
+                    onJobUpdate={onJobUpdate}
+                  />
+                ) : (
+                  <JobCard
+                    job={job}
+                    isActive={activeJobs.has(job.jobId)}
+                    onUpdate={() => onJobUpdate(job.jobId)}
+                  />
+                )}
+              </div>
+            </div>
           ))
         )}
       </div>
@@ -197,7 +394,10 @@ export function JobList({ activeJobs, onJobUpdate, socketConnected, onActiveJobs
 
             <div className="flex space-x-2">
               <button
-                onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))}
+                onClick={() => {
+                  setCurrentPage(prev => Math.max(1, prev - 1));
+                  setSelected(new Set());
+                }}
                 disabled={currentPage === 1}
                 className="px-3 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
               >
@@ -209,7 +409,10 @@ export function JobList({ activeJobs, onJobUpdate, socketConnected, onActiveJobs
               </span>
 
               <button
-                onClick={() => setCurrentPage(prev => Math.min(pagination.pages, prev + 1))}
+                onClick={() => {
+                  setCurrentPage(prev => Math.min(pagination.pages, prev + 1));
+                  setSelected(new Set());
+                }}
                 disabled={currentPage === pagination.pages}
                 className="px-3 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
               >
@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { api } from '../services/api';
+import type { LoginResponse } from '@/types';
+
+interface LoginFormProps {
+  onLoggedIn: (response: LoginResponse) => void;
+}
+
+export function LoginForm({ onLoggedIn }: LoginFormProps) {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+
+  const loginMutation = useMutation({
+    mutationFn: () => api.login(username, password),
+    onSuccess: onLoggedIn,
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    loginMutation.mutate();
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4"
+      >
+        <h1 className="text-xl font-semibold text-gray-900">Advanced Download Manager</h1>
+
+        <div>
+          <label htmlFor="username" className="block text-sm font-medium text-gray-700 mb-1">
+            Username
+          </label>
+          <input
+            id="username"
+            type="text"
+            autoComplete="username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            required
+          />
+        </div>
+
+        <div>
+          <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-1">
+            Password
+          </label>
+          <input
+            id="password"
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            required
+          />
+        </div>
+
+        {loginMutation.isError && (
+          <p className="text-sm text-red-600">Invalid username or password</p>
+        )}
+
+        <button
+          type="submit"
+          disabled={loginMutation.isPending}
+          className="w-full px-4 py-2 text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {loginMutation.isPending ? 'Signing in...' : 'Sign in'}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { api } from '../services/api';
+import type { Job, JobFile } from '@/types';
+
+interface MediaPreviewProps {
+  job: Job;
+}
+
+type MediaKind = 'video' | 'audio' | 'image';
+
+const getMediaKind = (mimeType: string): MediaKind | null => {
+  if (mimeType.startsWith('video/')) return 'video';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  if (mimeType.startsWith('image/')) return 'image';
+  return null;
+};
+
+// Inline player for completed jobs; multi-file results get a thumbnail grid
+export function MediaPreview({ job }: MediaPreviewProps) {
+  const [selected, setSelected] = useState<JobFile | null>(null);
+  const [open, setOpen] = useState(false);
+
+  const mediaFiles = (job.files ?? []).filter((file) => getMediaKind(file.mimeType) !== null);
+  const mainFile = mediaFiles.find((file) => file.filename === job.filename);
+  const thumbnailUrl = job.hasThumbnail ? api.getThumbnailUrl(job.jobId) : undefined;
+
+  if (mediaFiles.length === 0) return null;
+
+  const renderPlayer = (src: string, kind: MediaKind, poster?: string) => {
+    switch (kind) {
+      case 'video':
+        return (
+          <video
+            src={src}
+            poster={poster}
+            controls
+            autoPlay
+            preload="metadata"
+            className="w-full max-h-96 rounded bg-black"
+          />
+        );
+      case 'audio':
+        return (
+          <div className="space-y-2">
+            {poster && <img src={poster} alt="" className="h-32 rounded" />}
+            <audio src={src} controls autoPlay preload="metadata" className="w-full" />
+          </div>
+        );
+      case 'image':
+        return <img src={src} alt="" className="max-w-full max-h-96 rounded" />;
+    }
+  };
+
+  // Several media outputs (unarchived Twitter/Pinterest results)
+  if (mediaFiles.length > 1) {
+    return (
+      <div className="mt-3 space-y-3">
+        <div className="grid grid-cols-4 sm:grid-cols-6 gap-2">
+          {mediaFiles.map((file) => {
+            const src = api.getFileStreamUrl(job.jobId, file.id);
+            const isSelected = selected?.id === file.id;
+            return (
+              <button
+                key={file.id}
+                type="button"
+                title={file.filename}
+                onClick={() => setSelected(isSelected ? null : file)}
+                className={`aspect-square overflow-hidden rounded bg-gray-100 ${isSelected ? 'ring-2 ring-blue-500' : ''}`}
+              >
+                {getMediaKind(file.mimeType) === 'image' ? (
+                  <img src={src} alt={file.filename} loading="lazy" className="w-full h-full object-cover" />
+                ) : getMediaKind(file.mimeType) === 'video' ? (
+                  <video src={src} preload="metadata" muted className="w-full h-full object-cover" />
+                ) : (
+                  <span className="text-2xl">🎵</span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+
+        {selected && renderPlayer(
+          api.getFileStreamUrl(job.jobId, selected.id),
+          getMediaKind(selected.mimeType)!,
+        )}
+      </div>
+    );
+  }
+
+  if (!mainFile) return null;
+  const kind = getMediaKind(mainFile.mimeType)!;
+
+  return (
+    <div className="mt-3">
+      {open ? (
+        <div className="space-y-2">
+          {renderPlayer(api.getStreamUrl(job.jobId), kind, thumbnailUrl)}
+          <button
+            type="button"
+            onClick={() => setOpen(false)}
+            className="text-xs text-gray-500 hover:text-gray-700"
+          >
+            Close preview
+          </button>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setOpen(true)}
+          className="relative block w-48 aspect-video overflow-hidden rounded bg-gray-100 hover:opacity-90"
+        >
+          {thumbnailUrl && <img src={thumbnailUrl} alt="" loading="lazy" className="w-full h-full object-cover" />}
+          <span className="absolute inset-0 flex items-center justify-center text-2xl text-white drop-shadow">
+            {kind === 'image' ? '🔍' : '▶'}
+          </span>
+        </button>
+      )}
+    </div>
+  );
+}
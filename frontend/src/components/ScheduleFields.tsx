@@ -0,0 +1,69 @@
+import type { ScheduleWindow } from '@/types';
+
+export interface ScheduleValue {
+  startAt?: string | undefined;
+  window?: ScheduleWindow | undefined;
+}
+
+interface ScheduleFieldsProps {
+  value: ScheduleValue;
+  onChange: (value: ScheduleValue) => void;
+}
+
+const DEFAULT_WINDOW: ScheduleWindow = { start: '01:00', end: '07:00' };
+
+// datetime-local inputs work in local time without a zone suffix
+function toLocalInput(iso: string | undefined) {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+export function ScheduleFields({ value, onChange }: ScheduleFieldsProps) {
+  const inputClass = 'px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+  return (
+    <div className="flex flex-wrap items-center gap-4">
+      <label className="flex items-center space-x-2">
+        <span className="text-xs text-gray-600">Start at</span>
+        <input
+          type="datetime-local"
+          value={toLocalInput(value.startAt)}
+          onChange={(e) => onChange({
+            ...value,
+            startAt: e.target.value ? new Date(e.target.value).toISOString() : undefined,
+          })}
+          className={inputClass}
+        />
+      </label>
+
+      <label className="flex items-center space-x-2">
+        <input
+          type="checkbox"
+          checked={Boolean(value.window)}
+          onChange={(e) => onChange({ ...value, window: e.target.checked ? DEFAULT_WINDOW : undefined })}
+          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+        />
+        <span className="text-xs text-gray-600">Only between</span>
+      </label>
+      {value.window && (
+        <div className="flex items-center space-x-2">
+          <input
+            type="time"
+            value={value.window.start}
+            onChange={(e) => value.window && onChange({ ...value, window: { ...value.window, start: e.target.value } })}
+            className={inputClass}
+          />
+          <span className="text-xs text-gray-600">and</span>
+          <input
+            type="time"
+            value={value.window.end}
+            onChange={(e) => value.window && onChange({ ...value, window: { ...value.window, end: e.target.value } })}
+            className={inputClass}
+          />
+          <span className="text-xs text-gray-400">(server time)</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { api } from '../services/api';
+import type { CreateShareRequest, ShareLink } from '@/types';
+
+interface SharePanelProps {
+  jobId: string;
+  onClose: () => void;
+}
+
+const EXPIRY_OPTIONS = [
+  { label: '1 hour', seconds: 3600 },
+  { label: '1 day', seconds: 24 * 3600 },
+  { label: '7 days', seconds: 7 * 24 * 3600 },
+  { label: '30 days', seconds: 30 * 24 * 3600 },
+];
+
+export function SharePanel({ jobId, onClose }: SharePanelProps) {
+  const [expiresIn, setExpiresIn] = useState(24 * 3600);
+  const [maxDownloads, setMaxDownloads] = useState('');
+  const [password, setPassword] = useState('');
+  const [share, setShare] = useState<ShareLink | null>(null);
+
+  const createMutation = useMutation({
+    mutationFn: () => {
+      const request: CreateShareRequest = { expiresIn };
+      if (maxDownloads) request.maxDownloads = parseInt(maxDownloads);
+      if (password) request.password = password;
+      return api.createShare(jobId, request);
+    },
+    onSuccess: setShare,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (shareId: string) => api.revokeShare(shareId),
+    onSuccess: () => setShare(null),
+  });
+
+  const inputClass = 'px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  if (share?.path) {
+    const url = api.getShareUrl(share.path);
+    return (
+      <div className="mt-3 p-3 bg-gray-50 border border-gray-200 rounded space-y-2">
+        <div className="flex items-center space-x-2">
+          <input readOnly value={url} onFocus={(e) => e.target.select()} className={`flex-1 ${inputClass}`} />
+          <button
+            onClick={() => void navigator.clipboard.writeText(url)}
+            className="px-2 py-1 text-xs text-blue-700 bg-blue-100 rounded hover:bg-blue-200"
+          >
+            Copy
+          </button>
+          <button
+            onClick={() => revokeMutation.mutate(share.shareId)}
+            disabled={revokeMutation.isPending}
+            className="px-2 py-1 text-xs text-red-700 bg-red-100 rounded hover:bg-red-200 disabled:opacity-50"
+          >
+            Revoke
+          </button>
+        </div>
+        <p className="text-xs text-gray-500">
+          Expires {new Date(share.expiresAt).toLocaleString()}
+          {share.maxDownloads !== null && `, ${share.maxDownloads} download(s) max`}
+          {share.passwordProtected && ', password protected'}
+        </p>
+        <button onClick={onClose} className="text-xs text-gray-600 hover:underline">
+          Close
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-3 p-3 bg-gray-50 border border-gray-200 rounded">
+      <div className="flex flex-wrap items-center gap-2">
+        <select value={expiresIn} onChange={(e) => setExpiresIn(parseInt(e.target.value))} className={inputClass}>
+          {EXPIRY_OPTIONS.map((option) => (
+            <option key={option.seconds} value={option.seconds}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min="1"
+          value={maxDownloads}
+          onChange={(e) => setMaxDownloads(e.target.value)}
+          placeholder="Max downloads"
+          className={`w-32 ${inputClass}`}
+        />
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Password (optional)"
+          className={`w-40 ${inputClass}`}
+        />
+        <button
+          onClick={() => createMutation.mutate()}
+          disabled={createMutation.isPending}
+          className="px-2 py-1 text-xs text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50"
+        >
+          {createMutation.isPending ? 'Creating...' : 'Create link'}
+        </button>
+        <button onClick={onClose} className="px-2 py-1 text-xs text-gray-600 hover:underline">
+          Cancel
+        </button>
+      </div>
+      {createMutation.isError && (
+        <p className="mt-2 text-xs text-red-600">Failed to create the share link</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,319 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { api } from '../services/api';
+import type { CreateSubscriptionRequest, Subscription, SubscriptionType } from '@/types';
+
+// Common cron patterns, any other pattern can be typed
+const SCHEDULE_PRESETS = [
+  { label: 'Every hour', pattern: '0 * * * *' },
+  { label: 'Every 6 hours', pattern: '0 */6 * * *' },
+  { label: 'Daily at 03:00', pattern: '0 3 * * *' },
+  { label: 'Weekly (Monday 03:00)', pattern: '0 3 * * 1' },
+];
+
+const EMPTY_FORM: CreateSubscriptionRequest = {
+  url: '',
+  type: 'youtube',
+  schedule: '0 */6 * * *',
+  maxItems: 50,
+  skipExisting: true,
+};
+
+function detectType(url: string): SubscriptionType | null {
+  if (/(?:twitter\.com|x\.com)\//i.test(url)) return 'twitter';
+  if (/pinterest\.com\//i.test(url)) return 'pinterest';
+  if (/(?:youtube\.com|youtu\.be)\//i.test(url)) return 'youtube';
+  return null;
+}
+
+function SubscriptionItems({ subscriptionId }: { subscriptionId: string }) {
+  const { data, isLoading } = useQuery({
+    queryKey: ['subscriptions', subscriptionId, 'items'],
+    queryFn: () => api.getSubscriptionItems(subscriptionId),
+  });
+
+  if (isLoading) {
+    return <p className="text-xs text-gray-500">Loading items...</p>;
+  }
+
+  const items = data?.items ?? [];
+  if (items.length === 0) {
+    return <p className="text-xs text-gray-500">No item seen yet</p>;
+  }
+
+  return (
+    <ul className="space-y-1">
+      {items.map((item) => (
+        <li key={item.id} className="text-xs text-gray-600 truncate">
+          <span className="text-gray-400">{new Date(item.createdAt).toLocaleString()}</span>{' '}
+          <a href={item.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800">
+            {item.title || item.itemId}
+          </a>
+          {item.jobId ? '' : ' (skipped)'}
+        </li>
+      ))}
+      {data && data.pagination.total > items.length && (
+        <li className="text-xs text-gray-400">and {data.pagination.total - items.length} older items</li>
+      )}
+    </ul>
+  );
+}
+
+function SubscriptionRow({ subscription }: { subscription: Subscription }) {
+  const queryClient = useQueryClient();
+  const [showItems, setShowItems] = useState(false);
+  const [checkMessage, setCheckMessage] = useState<string | null>(null);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['subscriptions'] });
+  };
+
+  const toggleMutation = useMutation({
+    mutationFn: () => api.updateSubscription(subscription.id, { enabled: !subscription.enabled }),
+    onSuccess: invalidate,
+  });
+
+  const checkMutation = useMutation({
+    mutationFn: () => api.checkSubscription(subscription.id),
+    onSuccess: (result) => {
+      setCheckMessage(result.error ?? `${result.created} new of ${result.listed} listed items`);
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['downloads'] });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => api.deleteSubscription(subscription.id),
+    onSuccess: invalidate,
+  });
+
+  const error = toggleMutation.error ?? checkMutation.error ?? deleteMutation.error;
+
+  return (
+    <div className="p-6 space-y-2">
+      <div className="flex items-start justify-between">
+        <div className="flex-1 min-w-0 space-y-1">
+          <p className="text-sm font-medium text-gray-900 truncate">
+            {subscription.name || subscription.url}
+            <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700">{subscription.type}</span>
+            {!subscription.enabled && (
+              <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-yellow-100 text-yellow-800">paused</span>
+            )}
+          </p>
+          {subscription.name && <p className="text-xs text-gray-500 truncate">{subscription.url}</p>}
+          <p className="text-xs text-gray-400">
+            <code>{subscription.schedule}</code> · {subscription.itemCount} items seen · last check{' '}
+            {subscription.lastCheckedAt ? new Date(subscription.lastCheckedAt).toLocaleString() : 'never'}
+          </p>
+          {subscription.lastError && <p className="text-xs text-red-600">{subscription.lastError}</p>}
+          {checkMessage && <p className="text-xs text-gray-600">{checkMessage}</p>}
+        </div>
+
+        <div className="flex items-center space-x-2 ml-4">
+          <button
+            onClick={() => checkMutation.mutate()}
+            disabled={checkMutation.isPending}
+            className="px-3 py-1 text-xs text-blue-700 bg-blue-100 rounded hover:bg-blue-200 disabled:opacity-50"
+          >
+            {checkMutation.isPending ? 'Checking...' : 'Check now'}
+          </button>
+          <button
+            onClick={() => toggleMutation.mutate()}
+            disabled={toggleMutation.isPending}
+            className="px-3 py-1 text-xs text-yellow-700 bg-yellow-100 rounded hover:bg-yellow-200 disabled:opacity-50"
+          >
+            {subscription.enabled ? 'Pause' : 'Resume'}
+          </button>
+          <button
+            onClick={() => setShowItems(!showItems)}
+            className="px-3 py-1 text-xs text-gray-700 bg-gray-100 rounded hover:bg-gray-200"
+          >
+            {showItems ? 'Hide items' : 'Items'}
+          </button>
+          <button
+            onClick={() => {
+              if (window.confirm('Delete this subscription? Jobs already created are kept.')) deleteMutation.mutate();
+            }}
+            disabled={deleteMutation.isPending}
+            className="px-3 py-1 text-xs text-red-700 bg-red-100 rounded hover:bg-red-200 disabled:opacity-50"
+          >
+            Delete
+          </button>
+        </div>
+      </div>
+
+      {showItems && <SubscriptionItems subscriptionId={subscription.id} />}
+      {error && <p className="text-xs text-red-600">Error: {error.message}</p>}
+    </div>
+  );
+}
+
+export function SubscriptionList() {
+  const queryClient = useQueryClient();
+  const [formData, setFormData] = useState<CreateSubscriptionRequest>(EMPTY_FORM);
+
+  const { data: subscriptions, isLoading, error } = useQuery({
+    queryKey: ['subscriptions'],
+    queryFn: api.getSubscriptions,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: api.createSubscription,
+    onSuccess: () => {
+      setFormData(EMPTY_FORM);
+      queryClient.invalidateQueries({ queryKey: ['subscriptions'] });
+    },
+  });
+
+  const inputClass = 'px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+  const twitter = formData.options?.twitter;
+
+  return (
+    <div>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          createMutation.mutate({ ...formData, name: formData.name?.trim() || undefined });
+        }}
+        className="p-6 border-b border-gray-200 space-y-3"
+      >
+        <div className="flex flex-wrap gap-3">
+          <input
+            type="url"
+            required
+            placeholder="Channel, Twitter profile or Pinterest board URL"
+            value={formData.url}
+            onChange={(e) => {
+              const url = e.target.value;
+              setFormData(prev => ({ ...prev, url, type: detectType(url) ?? prev.type }));
+            }}
+            className={`${inputClass} flex-1 min-w-[16rem]`}
+          />
+          <select
+            value={formData.type}
+            onChange={(e) => setFormData(prev => ({ ...prev, type: e.target.value as SubscriptionType }))}
+            className={inputClass}
+          >
+            <option value="youtube">YouTube</option>
+            <option value="twitter">Twitter/X</option>
+            <option value="pinterest">Pinterest</option>
+          </select>
+          <input
+            type="text"
+            placeholder="Name (optional)"
+            value={formData.name ?? ''}
+            onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+            className={inputClass}
+          />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center space-x-2">
+            <span className="text-xs text-gray-600">Schedule (cron)</span>
+            <input
+              type="text"
+              required
+              value={formData.schedule}
+              onChange={(e) => setFormData(prev => ({ ...prev, schedule: e.target.value }))}
+              className={`${inputClass} font-mono w-36`}
+            />
+          </label>
+          <select
+            value=""
+            onChange={(e) => e.target.value && setFormData(prev => ({ ...prev, schedule: e.target.value }))}
+            className={inputClass}
+          >
+            <option value="">Presets...</option>
+            {SCHEDULE_PRESETS.map(preset => (
+              <option key={preset.pattern} value={preset.pattern}>{preset.label}</option>
+            ))}
+          </select>
+          <label className="flex items-center space-x-2">
+            <span className="text-xs text-gray-600">Latest items</span>
+            <input
+              type="number"
+              min={1}
+              max={500}
+              value={formData.maxItems ?? 50}
+              onChange={(e) => setFormData(prev => ({ ...prev, maxItems: parseInt(e.target.value) || 50 }))}
+              className={`${inputClass} w-20`}
+            />
+          </label>
+          {formData.type === 'twitter' && (
+            <>
+              <select
+                value={twitter?.mediaType ?? 'all'}
+                onChange={(e) => setFormData(prev => ({
+                  ...prev,
+                  options: { ...prev.options, twitter: { ...prev.options?.twitter, mediaType: e.target.value as 'images' | 'videos' | 'all' } },
+                }))}
+                className={inputClass}
+              >
+                <option value="all">Images and videos</option>
+                <option value="images">Images only</option>
+                <option value="videos">Videos only</option>
+              </select>
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={twitter?.includeRetweets ?? false}
+                  onChange={(e) => setFormData(prev => ({
+                    ...prev,
+                    options: { ...prev.options, twitter: { ...prev.options?.twitter, includeRetweets: e.target.checked } },
+                  }))}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span className="text-xs text-gray-600">Retweets</span>
+              </label>
+            </>
+          )}
+          {formData.type === 'youtube' && (
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={formData.options?.audioOnly ?? false}
+                onChange={(e) => setFormData(prev => ({ ...prev, options: { ...prev.options, audioOnly: e.target.checked } }))}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span className="text-xs text-gray-600">Audio only</span>
+            </label>
+          )}
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={formData.skipExisting ?? false}
+              onChange={(e) => setFormData(prev => ({ ...prev, skipExisting: e.target.checked }))}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span className="text-xs text-gray-600">Only new items (skip what is already there)</span>
+          </label>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-gray-400">Schedules run in server time.</p>
+          <button
+            type="submit"
+            disabled={createMutation.isPending}
+            className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {createMutation.isPending ? 'Subscribing...' : 'Subscribe'}
+          </button>
+        </div>
+        {createMutation.error && <p className="text-sm text-red-600">Error: {createMutation.error.message}</p>}
+      </form>
+
+      {isLoading && <div className="p-6 text-gray-600">Loading subscriptions...</div>}
+      {error && <div className="p-6 text-red-600">Failed to load subscriptions</div>}
+      {subscriptions && subscriptions.length === 0 && (
+        <div className="p-12 text-center text-gray-600">No subscriptions yet</div>
+      )}
+      {subscriptions && subscriptions.length > 0 && (
+        <div className="divide-y divide-gray-200">
+          {subscriptions.map(subscription => (
+            <SubscriptionRow key={subscription.id} subscription={subscription} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { api } from '../services/api';
+
+export function TrashList() {
+  const queryClient = useQueryClient();
+  const [currentPage, setCurrentPage] = useState(1);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['trash', currentPage],
+    queryFn: () => api.getTrash(currentPage),
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['trash'] });
+    queryClient.invalidateQueries({ queryKey: ['downloads'] });
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: (jobId: string) => api.restoreDownload(jobId),
+    onSuccess: invalidate,
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: (jobId: string) => api.deleteDownload(jobId, { permanent: true }),
+    onSuccess: invalidate,
+  });
+
+  if (isLoading) {
+    return <div className="p-6 text-gray-600">Loading trash...</div>;
+  }
+
+  if (error) {
+    return <div className="p-6 text-red-600">Failed to load trash</div>;
+  }
+
+  const jobs = data?.jobs ?? [];
+  const pagination = data?.pagination;
+
+  if (jobs.length === 0) {
+    return (
+      <div className="p-12 text-center text-gray-600">
+        Trash is empty
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="divide-y divide-gray-200">
+        {jobs.map((job) => (
+          <div key={job.jobId} className="p-6 flex items-start justify-between">
+            <div className="flex-1 min-w-0 space-y-1">
+              <p className="text-sm font-medium text-gray-900 truncate">
+                {job.filename || job.url}
+                {job.childCount > 0 && (
+                  <span className="ml-2 text-xs text-gray-500">({job.childCount} entries)</span>
+                )}
+              </p>
+              <p className="text-xs text-gray-500 truncate">{job.url}</p>
+              <p className="text-xs text-gray-400">
+                {job.status} · deleted {new Date(job.deletedAt).toLocaleString()} · purged{' '}
+                {new Date(job.purgeAt).toLocaleDateString()}
+                {job.keepFiles && ' (files kept)'}
+              </p>
+            </div>
+
+            <div className="flex items-center space-x-2 ml-4">
+              <button
+                onClick={() => restoreMutation.mutate(job.jobId)}
+                disabled={restoreMutation.isPending}
+                className="px-3 py-1 text-xs text-green-700 bg-green-100 rounded hover:bg-green-200 disabled:opacity-50"
+              >
+                Restore
+              </button>
+              <button
+                onClick={() => {
+                  if (window.confirm('Delete this job forever?')) purgeMutation.mutate(job.jobId);
+                }}
+                disabled={purgeMutation.isPending}
+                className="px-3 py-1 text-xs text-red-700 bg-red-100 rounded hover:bg-red-200 disabled:opacity-50"
+              >
+                Delete forever
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {(restoreMutation.error || purgeMutation.error) && (
+        <div className="px-6 py-3 border-t border-gray-200 text-sm text-red-600">
+          Error: {(restoreMutation.error ?? purgeMutation.error)?.message}
+        </div>
+      )}
+
+      {pagination && pagination.pages > 1 && (
+        <div className="p-6 border-t border-gray-200 flex items-center justify-end space-x-2">
+          <button
+            onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))}
+            disabled={currentPage === 1}
+            className="px-3 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Previous
+          </button>
+          <span className="px-3 py-1 text-sm">
+            Page {pagination.page} of {pagination.pages}
+          </span>
+          <button
+            onClick={() => setCurrentPage(prev => Math.min(pagination.pages, prev + 1))}
+            disabled={currentPage === pagination.pages}
+            className="px-3 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
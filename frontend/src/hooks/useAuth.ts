@@ -0,0 +1,16 @@
+import { createContext, useContext } from 'react';
+import type { User } from '@/types';
+
+export interface AuthState {
+  user: User;
+  logout: () => void;
+}
+
+export const AuthContext = createContext<AuthState | null>(null);
+
+// Only used below the login gate, where a user is always set
+export function useAuth(): AuthState {
+  const auth = useContext(AuthContext);
+  if (!auth) throw new Error('useAuth must be used inside AuthContext');
+  return auth;
+}
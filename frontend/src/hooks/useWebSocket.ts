@@ -2,11 +2,11 @@ import { useEffect, useState, useRef, useCallback } from 'react';
 import { io, type Socket } from 'socket.io-client';
 
 export interface WebSocketMessage {
-  type: 'progress' | 'log' | 'completed' | 'failed' | 'job-update';
+  type: 'progress' | 'log' | 'completed' | 'failed' | 'cancelled' | 'job-update';
   data: unknown;
 }
 
-export function useWebSocket(url: string, enabled = true) {
+export function useWebSocket(url: string, enabled = true, token: string | null = null) {
   const [connected, setConnected] = useState(false);
   const [serverAvailable, setServerAvailable] = useState(true);
   const [lastMessage, setLastMessage] = useState<WebSocketMessage | null>(null);
@@ -75,6 +75,7 @@ export function useWebSocket(url: string, enabled = true) {
       reconnectionDelayMax: 8000,
       randomizationFactor: 0.5,
       autoConnect: false, // we'll probe the server first to avoid noisy errors when down
+      auth: token ? { token } : {},
     });
 
     socketRef.current = socket;
@@ -128,6 +129,10 @@ export function useWebSocket(url: string, enabled = true) {
       setLastMessage({ type: 'failed', data });
     });
 
+    socket.on('cancelled', (data) => {
+      setLastMessage({ type: 'cancelled', data });
+    });
+
     socket.on('job-update', (data) => {
       setLastMessage({ type: 'job-update', data });
     });
@@ -146,7 +151,7 @@ export function useWebSocket(url: string, enabled = true) {
         try { socket.removeAllListeners(); socket.close(); } catch { /* noop */ }
       }
     };
-  }, [url, scheduleProbe, enabled]);
+  }, [url, scheduleProbe, enabled, token]);
 
 
   const joinJob = useCallback((jobId: string) => {
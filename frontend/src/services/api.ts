@@ -1,7 +1,36 @@
-import type { CreateDownloadRequest, CreateDownloadResponse, Job, JobListResponse } from '@/types';
+import type { BatchDownloadResponse, BulkActionRequest, BulkActionResponse, ChangePriorityRequest, CreateDownloadRequest, CreateDownloadResponse, CreateShareRequest, CreateSubscriptionRequest, Job, JobListResponse, LoginResponse, ProbeResult, RescheduleRequest, ShareLink, Subscription, SubscriptionCheckResult, SubscriptionItemsResponse, TrashListResponse, UpdateSubscriptionRequest, User } from '@/types';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000';
 
+const TOKEN_STORAGE_KEY = 'adm.token';
+
+let authToken: string | null = localStorage.getItem(TOKEN_STORAGE_KEY);
+let onUnauthorized: (() => void) | null = null;
+
+export function getAuthToken(): string | null {
+  return authToken;
+}
+
+export function setAuthToken(token: string | null) {
+  authToken = token;
+  if (token) {
+    localStorage.setItem(TOKEN_STORAGE_KEY, token);
+  } else {
+    localStorage.removeItem(TOKEN_STORAGE_KEY);
+  }
+}
+
+// Called when the server rejects the stored token (expired, account deleted)
+export function setUnauthorizedHandler(handler: (() => void) | null) {
+  onUnauthorized = handler;
+}
+
+// Links and media elements cannot send headers, so file URLs carry the token
+function fileUrl(path: string): string {
+  const url = `${API_BASE_URL}${path}`;
+  return authToken ? `${url}?access_token=${encodeURIComponent(authToken)}` : url;
+}
+
 class APIError extends Error {
   constructor(public status: number, message: string) {
     super(message);
@@ -21,11 +50,20 @@ async function apiRequest<T>(endpoint: string, options: RequestInit = {}): Promi
     headers['Content-Type'] = 'application/json';
   }
 
+  if (authToken) {
+    headers['Authorization'] = `Bearer ${authToken}`;
+  }
+
   const response = await fetch(url, {
     ...options,
     headers,
   });
 
+  if (response.status === 401 && authToken) {
+    setAuthToken(null);
+    onUnauthorized?.();
+  }
+
   if (!response.ok) {
     const errorText = await response.text();
     throw new APIError(response.status, errorText || `HTTP ${response.status}`);
@@ -35,6 +73,18 @@ async function apiRequest<T>(endpoint: string, options: RequestInit = {}): Promi
 }
 
 export const api = {
+  // Auth
+  login: async (username: string, password: string): Promise<LoginResponse> => {
+    return apiRequest('/auth/login', {
+      method: 'POST',
+      body: JSON.stringify({ username, password }),
+    });
+  },
+
+  getCurrentUser: async (): Promise<User> => {
+    return apiRequest('/auth/me');
+  },
+
   // Downloads
   createDownload: async (data: CreateDownloadRequest): Promise<CreateDownloadResponse> => {
     return apiRequest('/downloads', {
@@ -43,12 +93,27 @@ export const api = {
     });
   },
 
+  createDownloadBatch: async (entries: CreateDownloadRequest[]): Promise<BatchDownloadResponse> => {
+    return apiRequest('/downloads/batch', {
+      method: 'POST',
+      body: JSON.stringify(entries),
+    });
+  },
+
+  probeUrl: async (url: string, proxy: Pick<CreateDownloadRequest, 'proxy' | 'proxyPool'> = {}): Promise<ProbeResult> => {
+    return apiRequest('/downloads/probe', {
+      method: 'POST',
+      body: JSON.stringify({ url, ...proxy }),
+    });
+  },
+
   getDownloads: async (params?: {
     page?: number;
     limit?: number;
     status?: string;
     type?: string;
     search?: string;
+    parentId?: string;
   }): Promise<JobListResponse> => {
     const searchParams = new URLSearchParams();
 
@@ -57,6 +122,7 @@ export const api = {
     if (params?.status) searchParams.set('status', params.status);
     if (params?.type) searchParams.set('type', params.type);
     if (params?.search) searchParams.set('search', params.search);
+    if (params?.parentId) searchParams.set('parentId', params.parentId);
 
     const query = searchParams.toString();
     return apiRequest(`/downloads${query ? `?${query}` : ''}`);
@@ -90,13 +156,139 @@ export const api = {
     });
   },
 
+  rescheduleDownload: async (jobId: string, data: RescheduleRequest): Promise<Job> => {
+    return apiRequest(`/downloads/${jobId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  },
+
+  changePriority: async (jobId: string, data: ChangePriorityRequest): Promise<Job> => {
+    return apiRequest(`/downloads/${jobId}/priority`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  setPinned: async (jobId: string, pinned: boolean): Promise<{ success: boolean }> => {
+    return apiRequest(`/downloads/${jobId}/${pinned ? 'pin' : 'unpin'}`, {
+      method: 'POST',
+    });
+  },
+
+  // Moves the job to the trash unless `permanent`
+  deleteDownload: async (
+    jobId: string,
+    options: { keepFiles?: boolean; cancel?: boolean; permanent?: boolean } = {},
+  ): Promise<{ success: boolean }> => {
+    const searchParams = new URLSearchParams();
+    if (options.keepFiles) searchParams.set('files', 'keep');
+    if (options.cancel) searchParams.set('cancel', 'true');
+    if (options.permanent) searchParams.set('permanent', 'true');
+
+    const query = searchParams.toString();
+    return apiRequest(`/downloads/${jobId}${query ? `?${query}` : ''}`, {
+      method: 'DELETE',
+    });
+  },
+
+  getTrash: async (page = 1): Promise<TrashListResponse> => {
+    return apiRequest(`/downloads/trash?page=${page}`);
+  },
+
+  restoreDownload: async (jobId: string): Promise<{ success: boolean }> => {
+    return apiRequest(`/downloads/${jobId}/restore`, {
+      method: 'POST',
+    });
+  },
+
+  bulkAction: async (data: BulkActionRequest): Promise<BulkActionResponse> => {
+    return apiRequest('/downloads/actions', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Subscriptions
+  getSubscriptions: async (): Promise<Subscription[]> => {
+    return apiRequest('/subscriptions');
+  },
+
+  createSubscription: async (data: CreateSubscriptionRequest): Promise<Subscription> => {
+    return apiRequest('/subscriptions', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  updateSubscription: async (subscriptionId: string, data: UpdateSubscriptionRequest): Promise<Subscription> => {
+    return apiRequest(`/subscriptions/${subscriptionId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  },
+
+  deleteSubscription: async (subscriptionId: string): Promise<{ success: boolean }> => {
+    return apiRequest(`/subscriptions/${subscriptionId}`, {
+      method: 'DELETE',
+    });
+  },
+
+  checkSubscription: async (subscriptionId: string): Promise<SubscriptionCheckResult> => {
+    return apiRequest(`/subscriptions/${subscriptionId}/check`, {
+      method: 'POST',
+    });
+  },
+
+  getSubscriptionItems: async (subscriptionId: string, page = 1): Promise<SubscriptionItemsResponse> => {
+    return apiRequest(`/subscriptions/${subscriptionId}/items?page=${page}`);
+  },
+
   // Files
   getFileMetadata: async (jobId: string) => {
     return apiRequest(`/files/${jobId}`);
   },
 
   getDownloadUrl: (jobId: string): string => {
-    return `${API_BASE_URL}/files/${jobId}/download`;
+    return fileUrl(`/files/${jobId}/download`);
+  },
+
+  getFileDownloadUrl: (jobId: string, fileId: string): string => {
+    return fileUrl(`/files/${jobId}/${fileId}/download`);
+  },
+
+  getStreamUrl: (jobId: string): string => {
+    return fileUrl(`/files/${jobId}/stream`);
+  },
+
+  getFileStreamUrl: (jobId: string, fileId: string): string => {
+    return fileUrl(`/files/${jobId}/${fileId}/stream`);
+  },
+
+  getThumbnailUrl: (jobId: string): string => {
+    return fileUrl(`/files/${jobId}/thumbnail`);
+  },
+
+  getArchiveUrl: (jobId: string): string => {
+    return fileUrl(`/files/${jobId}/archive`);
+  },
+
+  // Share links, downloadable without an account
+  createShare: async (jobId: string, data: CreateShareRequest): Promise<ShareLink> => {
+    return apiRequest(`/files/${jobId}/share`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  revokeShare: async (shareId: string): Promise<{ success: boolean }> => {
+    return apiRequest(`/shares/${shareId}`, {
+      method: 'DELETE',
+    });
+  },
+
+  getShareUrl: (path: string): string => {
+    return `${API_BASE_URL}${path}`;
   },
 
   // Health
@@ -2,7 +2,12 @@ export interface Job {
   jobId: string;
   url: string;
   type: 'auto' | 'm3u8' | 'file' | 'youtube' | 'twitter' | 'pinterest';
-  status: 'queued' | 'running' | 'paused' | 'failed' | 'completed' | 'cancelled';
+  status: 'queued' | 'scheduled' | 'running' | 'paused' | 'failed' | 'completed' | 'cancelled';
+  // Start of a deferred job while 'scheduled'
+  scheduledAt?: string | null;
+  // Requested start and window, as submitted
+  startAt?: string | null;
+  window?: ScheduleWindow | null;
   stage?: 'queue' | 'download' | 'merge' | 'transcode' | 'finalize' | 'completed';
   progress: number;
   speed?: string;
@@ -13,6 +18,75 @@ export interface Job {
   updatedAt: string;
   errorCode?: string;
   errorMessage?: string;
+  files?: JobFile[];
+  hasThumbnail?: boolean;
+  // Queue priority, 1 runs first
+  priority?: number;
+  // Exempt from the retention cleanup
+  pinned?: boolean;
+  parentId?: string | null;
+  childCount?: number;
+  owner?: string | null;
+}
+
+export interface User {
+  id: string | null;
+  username: string;
+  role: 'admin' | 'user';
+}
+
+export interface LoginResponse {
+  accessToken: string;
+  expiresIn: number;
+  user: User;
+}
+
+export interface JobFile {
+  id: string;
+  filename: string;
+  size: number;
+  mimeType: string;
+}
+
+export type BulkAction = 'cancel' | 'retry' | 'delete';
+
+export interface BulkActionRequest {
+  action: BulkAction;
+  jobIds?: string[];
+  filter?: {
+    status?: string;
+    type?: string;
+    search?: string;
+  };
+}
+
+export interface BulkActionResponse {
+  action: BulkAction;
+  total: number;
+  succeeded: number;
+  failed: number;
+  results: Array<{ jobId: string; success: boolean; error?: string }>;
+}
+
+export interface CreateShareRequest {
+  expiresIn?: number;
+  maxDownloads?: number;
+  password?: string;
+  fileId?: string;
+}
+
+export interface ShareLink {
+  shareId: string;
+  jobId: string;
+  fileId: string | null;
+  expiresAt: string;
+  maxDownloads: number | null;
+  downloadCount: number;
+  passwordProtected: boolean;
+  revokedAt: string | null;
+  createdAt: string;
+  // Relative to the API, only returned when the link is created
+  path?: string;
 }
 
 export interface CreateDownloadRequest {
@@ -29,6 +103,20 @@ export interface CreateDownloadRequest {
     crf?: number;
   };
   filenameHint?: string;
+  subtitles?: {
+    languages: string[];
+    includeAuto?: boolean;
+    format?: 'srt' | 'vtt';
+    mode?: 'sidecar' | 'mux' | 'burn';
+  } | undefined;
+  audio?: {
+    format: 'mp3' | 'opus' | 'm4a' | 'flac';
+    bitrate?: number;
+  } | undefined;
+  format?: string | undefined;
+  maxHeight?: number | undefined;
+  audioOnly?: boolean | undefined;
+  archive?: 'zip' | 'none';
   twitter?: {
     tweetId?: string;
     username?: string;
@@ -41,10 +129,169 @@ export interface CreateDownloadRequest {
     includeVideos?: boolean;
     resolution?: string;
   };
+  playlist?: {
+    maxEntries?: number;
+  } | undefined;
+  startAt?: string | undefined;
+  window?: ScheduleWindow | undefined;
+  priority?: number | undefined;
+  // Bytes per second
+  maxSpeed?: number | undefined;
+  // Proxy URL, or the name of a proxy pool set up by an admin
+  proxy?: string | undefined;
+  proxyPool?: string | undefined;
+}
+
+// Daily window, HH:MM in the server's local time
+export interface ScheduleWindow {
+  start: string;
+  end: string;
+}
+
+// One of: a new priority, the top of the queue, or next to another waiting job
+export type ChangePriorityRequest =
+  | { priority: number }
+  | { position: 'top' }
+  | { before: string }
+  | { after: string };
+
+// Omitted fields keep their value, null clears them
+export interface RescheduleRequest {
+  startAt?: string | null;
+  window?: ScheduleWindow | null;
 }
 
 export interface CreateDownloadResponse {
   jobId: string;
+  childJobIds?: string[];
+}
+
+export interface BatchDownloadResult {
+  line: number;
+  url?: string;
+  jobId?: string;
+  error?: string;
+}
+
+export interface BatchDownloadResponse {
+  total: number;
+  created: number;
+  failed: number;
+  results: BatchDownloadResult[];
+}
+
+export interface ProbeFormat {
+  formatId: string;
+  ext: string;
+  resolution?: string;
+  height?: number;
+  fps?: number;
+  vcodec?: string;
+  acodec?: string;
+  filesize?: number;
+  tbr?: number;
+  note?: string;
+  hasVideo: boolean;
+  hasAudio: boolean;
+}
+
+export interface ProbeResult {
+  title: string;
+  duration?: number;
+  thumbnail?: string;
+  uploader?: string;
+  formats: ProbeFormat[];
+}
+
+export interface TrashedJob {
+  jobId: string;
+  url: string;
+  type: string;
+  status: string;
+  filename?: string;
+  totalBytes?: string;
+  createdAt: string;
+  deletedAt: string;
+  purgeAt: string;
+  keepFiles: boolean;
+  parentId: string | null;
+  childCount: number;
+  owner: string | null;
+}
+
+export interface TrashListResponse {
+  jobs: TrashedJob[];
+  pagination: JobListResponse['pagination'];
+}
+
+export type SubscriptionType = 'youtube' | 'twitter' | 'pinterest';
+
+// Download options applied to every job of a subscription
+export type SubscriptionOptions = Pick<
+  CreateDownloadRequest,
+  'headers' | 'transcode' | 'audio' | 'subtitles' | 'format' | 'maxHeight' | 'audioOnly' | 'archive' | 'pinterest' | 'window'
+> & {
+  twitter?: {
+    mediaType?: 'images' | 'videos' | 'all';
+    includeRetweets?: boolean;
+  } | undefined;
+};
+
+export interface Subscription {
+  id: string;
+  name: string | null;
+  url: string;
+  type: SubscriptionType;
+  schedule: string;
+  options: SubscriptionOptions;
+  maxItems: number;
+  enabled: boolean;
+  userId: string;
+  lastCheckedAt: string | null;
+  lastError: string | null;
+  itemCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateSubscriptionRequest {
+  url: string;
+  type: SubscriptionType;
+  name?: string | undefined;
+  schedule: string;
+  options?: SubscriptionOptions;
+  maxItems?: number;
+  enabled?: boolean;
+  skipExisting?: boolean;
+}
+
+export interface UpdateSubscriptionRequest {
+  name?: string | null;
+  schedule?: string;
+  options?: SubscriptionOptions;
+  maxItems?: number;
+  enabled?: boolean;
+}
+
+export interface SubscriptionCheckResult {
+  listed: number;
+  created: number;
+  failed: number;
+  error: string | null;
+}
+
+export interface SubscriptionItem {
+  id: string;
+  itemId: string;
+  url: string;
+  title: string | null;
+  jobId: string | null;
+  createdAt: string;
+}
+
+export interface SubscriptionItemsResponse {
+  items: SubscriptionItem[];
+  pagination: JobListResponse['pagination'];
 }
 
 export interface JobListResponse {
@@ -78,10 +325,19 @@ export interface CompletedEvent {
   filename: string;
   size: number;
   outputPath: string;
+  files?: Array<{ filename: string; size: number; outputPath: string; mimeType: string; sha256: string }>;
+  thumbnailPath?: string;
 }
 
 export interface FailedEvent {
   jobId: string;
   errorCode: string;
   message: string;
+  attemptsMade: number;
+  willRetry: boolean;
+}
+
+export interface CancelledEvent {
+  jobId: string;
+  message?: string;
 }
\ No newline at end of file